@@ -32,6 +32,20 @@ export function rxnormNdcKey(ndc: string): string {
 	return `rxnorm:ndc:${normalized}`;
 }
 
+/**
+ * Generate cache key for RxNorm RxCUI properties (drug name and term type) lookup.
+ */
+export function rxnormPropertiesKey(rxcui: string): string {
+	return `rxnorm:properties:${rxcui}`;
+}
+
+/**
+ * Generate cache key for RxNorm RxCUI to SCD/SBD equivalents lookup.
+ */
+export function rxnormRelatedKey(rxcui: string): string {
+	return `rxnorm:related:${rxcui}`;
+}
+
 /**
  * Generate cache key for FDA package details.
  */
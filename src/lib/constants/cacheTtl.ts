@@ -11,6 +11,9 @@ export const RXNORM_NDCS_TTL = 86400; // 24 hours
 /** RxNorm NDC to RxCUI lookup: 7 days */
 export const RXNORM_NDC_TTL = 604800; // 7 days
 
+/** RxNorm RxCUI to SCD/SBD equivalents and term type: 7 days */
+export const RXNORM_RELATED_TTL = 604800; // 7 days
+
 /** FDA package details: 24 hours */
 export const FDA_PACKAGE_TTL = 86400; // 24 hours
 
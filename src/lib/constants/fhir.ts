@@ -0,0 +1,98 @@
+/**
+ * FHIR R4 code systems and code tables used by the FHIR adapters
+ */
+
+import type { FhirTimeUnit } from '../types/fhir.js';
+
+export const FHIR_SYSTEMS = {
+	rxnorm: 'http://www.nlm.nih.gov/research/umls/rxnorm',
+	ndc: 'http://hl7.org/fhir/sid/ndc',
+	ucum: 'http://unitsofmeasure.org',
+} as const;
+
+/**
+ * Days per UCUM time unit (months and years are approximated as 30 and 365 days)
+ */
+export const FHIR_TIME_UNIT_DAYS: Record<FhirTimeUnit, number> = {
+	s: 1 / 86400,
+	min: 1 / 1440,
+	h: 1 / 24,
+	d: 1,
+	wk: 7,
+	mo: 30,
+	a: 365,
+};
+
+/**
+ * Timing.code (HL7 TimingAbbreviation) → repeat, for orders without a structured repeat
+ */
+export const FHIR_TIMING_CODES: Record<string, { frequency: number; period: number; periodUnit: FhirTimeUnit }> = {
+	QD: { frequency: 1, period: 1, periodUnit: 'd' },
+	AM: { frequency: 1, period: 1, periodUnit: 'd' },
+	PM: { frequency: 1, period: 1, periodUnit: 'd' },
+	BID: { frequency: 2, period: 1, periodUnit: 'd' },
+	TID: { frequency: 3, period: 1, periodUnit: 'd' },
+	QID: { frequency: 4, period: 1, periodUnit: 'd' },
+	QOD: { frequency: 1, period: 2, periodUnit: 'd' },
+	Q4H: { frequency: 1, period: 4, periodUnit: 'h' },
+	Q6H: { frequency: 1, period: 6, periodUnit: 'h' },
+	Q8H: { frequency: 1, period: 8, periodUnit: 'h' },
+	Q12H: { frequency: 1, period: 12, periodUnit: 'h' },
+	WK: { frequency: 1, period: 1, periodUnit: 'wk' },
+	MO: { frequency: 1, period: 1, periodUnit: 'mo' },
+};
+
+/**
+ * UCUM dose units → calculator units (curly-brace annotations are matched against UNIT_PATTERNS)
+ */
+export const FHIR_UCUM_UNITS: Record<string, string> = {
+	mL: 'mL',
+	L: 'L',
+	g: 'g',
+	mg: 'mg',
+	ug: 'mcg',
+	mcg: 'mcg',
+	U: 'unit',
+	'[iU]': 'unit',
+	'[IU]': 'unit',
+	'[drp]': 'drop',
+};
+
+/**
+ * Timing.repeat.dayOfWeek codes in WEEKDAY_NAMES order (0 = Sunday)
+ */
+export const FHIR_DAYS_OF_WEEK = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+/**
+ * Calculator units → UCUM codes for MedicationDispense.quantity
+ */
+export const FHIR_QUANTITY_UCUM_CODES: Record<string, string> = {
+	tablet: '{tbl}',
+	capsule: '{capsule}',
+	pill: '{tbl}',
+	mL: 'mL',
+	L: 'L',
+	g: 'g',
+	unit: '[iU]',
+	actuation: '{actuation}',
+	drop: '[drp]',
+	patch: '{patch}',
+	application: '{application}',
+};
+
+/**
+ * Calculator error codes → OperationOutcome issue types
+ */
+export const FHIR_ISSUE_CODES: Record<string, string> = {
+	INVALID_INPUT: 'invalid',
+	SIG_PARSE_FAILED: 'invalid',
+	DRUG_NOT_FOUND: 'not-found',
+	NO_NDCS_FOUND: 'not-found',
+	TIMEOUT_ERROR: 'timeout',
+	RATE_LIMIT_ERROR: 'throttled',
+};
+
+/**
+ * Media type that selects FHIR output (also `?format=fhir`)
+ */
+export const FHIR_JSON_MEDIA_TYPE = 'application/fhir+json';
@@ -0,0 +1,37 @@
+/**
+ * NCPDP SCRIPT code tables used by the NewRx parser
+ */
+
+/**
+ * NCI Thesaurus codes (QuantityUnitOfMeasure / DoseUnitOfMeasure) → calculator units
+ */
+export const NCPDP_UNIT_CODES: Record<string, string> = {
+	C48542: 'tablet',
+	C48480: 'capsule',
+	C28254: 'mL',
+	C48155: 'g',
+	C48524: 'patch',
+	C44278: 'unit',
+};
+
+/**
+ * ProductCode qualifier for NDC
+ */
+export const NCPDP_NDC_QUALIFIER = 'ND';
+
+/**
+ * DrugDBCode qualifiers that carry an RxCUI
+ */
+export const NCPDP_RXNORM_QUALIFIERS = ['SCD', 'SBD', 'GPCK', 'BPCK'];
+
+/**
+ * Days per FrequencyUnits / IntervalUnits text
+ */
+export const NCPDP_TIME_UNIT_DAYS: Record<string, number> = {
+	minute: 1 / 1440,
+	hour: 1 / 24,
+	day: 1,
+	week: 7,
+	month: 30,
+	year: 365,
+};
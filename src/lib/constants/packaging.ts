@@ -0,0 +1,19 @@
+/**
+ * Package presentation (bottle, blister, unit-dose, ...) labels and ranking.
+ */
+
+import type { PackagingType } from '../types/ndc';
+
+/** Display names for packaging types */
+export const PACKAGING_TYPE_LABELS: Record<PackagingType, string> = {
+	bottle: 'Bottle',
+	blister: 'Blister pack',
+	unit_dose: 'Unit dose',
+	kit: 'Kit',
+	vial: 'Vial',
+	pen: 'Pen / prefilled syringe',
+	canister: 'Canister / inhaler',
+};
+
+/** Points for a package in the requested packaging when it is preferred, not required */
+export const PACKAGING_PREFERENCE_BONUS = 25;
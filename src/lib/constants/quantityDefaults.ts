@@ -0,0 +1,35 @@
+/**
+ * Default policies for quantity calculation.
+ */
+
+import type { DoseRangePolicy, InjectableDevice } from '../types/sig';
+
+/** Dose used for ranged SIGs ("1-2 tablets"): max dose, as payers expect */
+export const DEFAULT_DOSE_RANGE_POLICY: DoseRangePolicy = 'max';
+
+/** Grams per topical application when the SIG gives no amount ("apply a thin layer"): one fingertip unit */
+export const DEFAULT_GRAMS_PER_APPLICATION = 0.5;
+
+/** Drops per mL for ophthalmic/otic solutions (USP standard dropper) */
+export const DEFAULT_DROPS_PER_ML = 20;
+
+/** Units primed before each insulin pen injection ("air shot") */
+export const DEFAULT_INSULIN_PRIMING_UNITS = 2;
+
+/** Days an insulin pen/vial may be used after opening before it must be discarded */
+export const INSULIN_DISCARD_DAYS = 28;
+
+/** Insulin device assumed when neither the SIG nor the package states one (3 mL prefilled pen) */
+export const DEFAULT_INSULIN_DEVICE: InjectableDevice = { type: 'pen', volume: 3 };
+
+/** Standard insulin vial volume in mL */
+export const DEFAULT_INSULIN_VIAL_VOLUME = 10;
+
+/** Per-dose ceiling (mg) for weight-based doses; computed doses above it are flagged, not capped */
+export const DEFAULT_MAX_WEIGHT_BASED_DOSE_MG = 1000;
+
+/** Written vs calculated quantity difference (fraction of the calculated quantity) tolerated before flagging a discrepancy */
+export const DEFAULT_QUANTITY_DISCREPANCY_TOLERANCE = 0.05;
+
+/** Longest days' supply the calculator accepts (also the ceiling when deriving days from a quantity) */
+export const MAX_DAYS_SUPPLY = 365;
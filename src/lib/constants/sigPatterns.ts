@@ -3,6 +3,8 @@
  * Patterns are ordered by priority (most specific first).
  */
 
+import type { DosingSchedule } from '../types/sig';
+
 /**
  * Unit pattern for extracting medication units
  */
@@ -17,6 +19,29 @@ export interface UnitPattern {
 export interface FrequencyPattern {
 	pattern: RegExp;
 	frequency: number | ((match: RegExpMatchArray) => number); // Fixed number or calculation function
+	schedule?: (match: RegExpMatchArray) => DosingSchedule | null; // Exact schedule for non-daily frequencies
+}
+
+/**
+ * Weekday names indexed by day of week (0 = Sunday)
+ */
+export const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Collects every weekday named in the SIG (e.g., "monday wednesday and friday" → [1, 3, 5])
+ */
+function matchWeekdays(match: RegExpMatchArray): number[] {
+	const text = (match.input ?? match[0]).toLowerCase();
+	return WEEKDAY_NAMES.map((name, index) => (new RegExp(`\\b${name}s?\\b`).test(text) ? index : -1)).filter(
+		(index) => index >= 0
+	);
+}
+
+/**
+ * Dose every N days as an interval schedule
+ */
+function intervalSchedule(intervalDays: number): DosingSchedule {
+	return { type: 'interval', intervalDays };
 }
 
 /**
@@ -52,6 +77,16 @@ export const UNIT_PATTERNS: UnitPattern[] = [
 	{ pattern: /\bcaps?\b/i, normalized: 'capsule' },
 	// Pills
 	{ pattern: /\bpills?\b/i, normalized: 'pill' },
+	// Transdermal patches
+	{ pattern: /\bpatch(?:es)?\b/i, normalized: 'patch' },
+	// Drops (ophthalmic/otic)
+	{ pattern: /\bdrops?\b/i, normalized: 'drop' },
+	{ pattern: /\bgtts?\b/i, normalized: 'drop' },
+	// Topicals
+	{ pattern: /\bgrams?\b/i, normalized: 'g' },
+	{ pattern: /\b\d+(?:\.\d+)?\s*(?:g|gm)\b/i, normalized: 'g' },
+	{ pattern: /\bapplications?\b/i, normalized: 'application' },
+	{ pattern: /\bthin\s+(?:layer|film)\b/i, normalized: 'application' },
 	// Liquids
 	{ pattern: /\bml\b/i, normalized: 'mL' },
 	{ pattern: /\bmls?\b/i, normalized: 'mL' },
@@ -82,6 +117,74 @@ export const UNIT_PATTERNS: UnitPattern[] = [
  * Ordered by specificity (most specific first) to avoid false matches
  */
 export const FREQUENCY_PATTERNS: FrequencyPattern[] = [
+	// Non-daily schedules (checked first so "weekly"/"every other day" aren't read as daily)
+	// X days on / Y days off cycles
+	{
+		pattern: /\b(\d+)\s+days?\s+on\s+(?:and\s+)?(\d+)\s+days?\s+off\b/i,
+		frequency: (match) => {
+			const daysOn = parseInt(match[1], 10);
+			const daysOff = parseInt(match[2], 10);
+			return daysOn > 0 ? daysOn / (daysOn + daysOff) : 0;
+		},
+		schedule: (match) => ({
+			type: 'cycle',
+			daysOn: parseInt(match[1], 10),
+			daysOff: parseInt(match[2], 10),
+		}),
+	},
+	// Named weekdays ("every monday", "on monday wednesday and friday")
+	{
+		pattern: /\b(?:sun|mon|tues|wednes|thurs|fri|satur)days?\b/i,
+		frequency: (match) => matchWeekdays(match).length / 7,
+		schedule: (match) => ({ type: 'weekdays', weekdays: matchWeekdays(match) }),
+	},
+	// Three times weekly
+	{
+		pattern: /\bthree\s+times\s+(?:weekly|a\s+week|per\s+week)\b/i,
+		frequency: 3 / 7,
+		schedule: () => intervalSchedule(7 / 3),
+	},
+	// Twice weekly
+	{
+		pattern: /\b(?:twice|two\s+times)\s+(?:weekly|a\s+week|per\s+week)\b/i,
+		frequency: 2 / 7,
+		schedule: () => intervalSchedule(3.5),
+	},
+	// Once weekly
+	{
+		pattern: /\b(?:once\s+(?:weekly|a\s+week|per\s+week)|weekly|every\s+week|q\s*week|qwk)\b/i,
+		frequency: 1 / 7,
+		schedule: () => intervalSchedule(7),
+	},
+	// Every other day
+	{
+		pattern: /\b(?:every\s+other\s+day|qod|q\.o\.d\.|every\s+48\s+hours?)(?=\s|$)/i,
+		frequency: 1 / 2,
+		schedule: () => intervalSchedule(2),
+	},
+	// Every X weeks
+	{
+		pattern: /\bevery\s+(\d+)\s+weeks?\b/i,
+		frequency: (match) => {
+			const weeks = parseInt(match[1], 10);
+			return weeks > 0 ? 1 / (weeks * 7) : 0;
+		},
+		schedule: (match) => intervalSchedule(parseInt(match[1], 10) * 7),
+	},
+	// Every X days
+	{
+		pattern: /\bevery\s+(\d+)\s+days?\b/i,
+		frequency: (match) => {
+			const days = parseInt(match[1], 10);
+			return days > 0 ? 1 / days : 0;
+		},
+		schedule: (match) => intervalSchedule(parseInt(match[1], 10)),
+	},
+	// Daily total split into N doses ("40 mg/kg/day divided into 2 doses")
+	{
+		pattern: /\bdivided\s+(?:into\s+)?(\d+)\s+doses\b/i,
+		frequency: (match) => parseInt(match[1], 10),
+	},
 	// Four times daily (most specific)
 	{
 		pattern: /\bfour\s+times\s+(?:daily|a\s+day)\b/i,
@@ -135,13 +238,25 @@ export const FREQUENCY_PATTERNS: FrequencyPattern[] = [
 		pattern: /\bdaily\b/i,
 		frequency: 1,
 	},
-	// Every X hours
+	// Before/with meals (e.g., mealtime insulin sliding scales) = three main meals
+	{
+		pattern: /\b(?:before|with)\s+(?:each\s+)?meals?\b/i,
+		frequency: 3,
+	},
+	// Every X hours (intervals longer than a day, e.g. "every 72 hours" patches, are non-daily schedules)
 	{
 		pattern: /\bevery\s+(\d+)\s+hours?\b/i,
 		frequency: (match) => {
 			const hours = parseInt(match[1], 10);
+			if (hours > 24) {
+				return 24 / hours;
+			}
 			return hours > 0 ? Math.floor(24 / hours) : 0;
 		},
+		schedule: (match) => {
+			const hours = parseInt(match[1], 10);
+			return hours > 24 ? intervalSchedule(hours / 24) : null;
+		},
 	},
 	// Every X minutes
 	{
@@ -172,6 +287,49 @@ export const FREQUENCY_PATTERNS: FrequencyPattern[] = [
 	},
 ];
 
+/**
+ * Separator between dosing phases in tapering SIGs
+ * e.g., "2 tablets daily for 3 days, then 1 tablet daily for 4 days"
+ */
+export const PHASE_SEPARATOR_PATTERN = /\s*\b(?:and\s+)?(?:then|followed\s+by)\b\s*/i;
+
+/**
+ * Phase duration patterns (e.g., "for 3 days", "x 2 weeks")
+ * Group 1 = count, group 2 = period (day/week)
+ */
+export const DURATION_PATTERN = /\b(?:for|x)\s*(\d+)\s*(days?|weeks?)\b/i;
+
+/**
+ * Maximum daily dose limits for PRN SIGs
+ * e.g., "max 6 per day", "not to exceed 8 tablets in 24 hours", "maximum of 4 doses a day"
+ * Group 1 = amount, group 2 = optional unit word
+ */
+export const MAX_DAILY_DOSE_PATTERN =
+	/\b(?:max(?:imum)?|not\s+to\s+exceed|do\s+not\s+exceed|no\s+more\s+than)\s+(?:of\s+)?(\d+(?:\.\d+)?)\s*([a-z]+)?\s*(?:per|in|a|\/)\s*(?:1\s+)?(?:day|24\s*hours?)\b/i;
+
+/**
+ * PRN dosing interval (e.g., "every 4-6 hours", "q4-6h", "every 8 hours")
+ * Group 1 = shortest interval in hours, group 2 = optional longest interval
+ */
+export const PRN_INTERVAL_PATTERN = /\b(?:every|q)\s*(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(?:hours?|hrs?|h)\b/i;
+
+/**
+ * Insulin delivery device named in the SIG ("use FlexPen", "from the vial")
+ */
+export const INSULIN_PEN_PATTERN = /\b(?:pens?|flexpen|kwikpen|solostar|flextouch)\b/i;
+export const INSULIN_VIAL_PATTERN = /\bvials?\b/i;
+
+/**
+ * Paired administration sites ("in each eye", "both ears", "each nostril", OU, AU) - doubles each dose
+ */
+export const PAIRED_SITE_PATTERN = /\b(?:(?:each|both)\s+(?:eyes?|ears?|nostrils?)|ou|au)\b/i;
+
+/**
+ * Weight-based dose ("15 mg/kg", "40 mg/kg/day"); group 3 is set for a per-day dose
+ */
+export const WEIGHT_BASED_DOSE_PATTERN =
+	/(\d+(?:\.\d+)?)(?:\s*-\s*\d+(?:\.\d+)?)?\s*(mg|mcg)\s*\/\s*kg\b(\s*(?:\/|per)\s*day\b)?/i;
+
 /**
  * Confidence scoring rules
  */
@@ -339,10 +497,64 @@ const SIG_PATTERNS_RAW: SigPattern[] = [
 		unitGroup: 2,
 		frequencyGroup: 0, // Fixed frequency = 0 (PRN)
 	},
+	// Pattern 17b: "Take X [unit] [non-daily schedule]" (weekly, every other day, weekdays, on/off cycles)
+	{
+		pattern: /(?:take\s+)?(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s+(\w+)\s+(?:by\s+mouth\s+|orally\s+|po\s+)?(.*?\b(?:weekly|week|weeks|every\s+other\s+day|qod|every\s+\d+\s+days?|(?:sun|mon|tues|wednes|thurs|fri|satur)days?|days?\s+off)\b.*)$/i,
+		name: 'unit_non_daily_schedule',
+		priority: 7,
+		dosageGroup: 1,
+		unitGroup: 2,
+		frequencyGroup: 3,
+	},
 	// Special Dosage Forms - Higher priority for specific forms
+	// Pattern 17c: "Instill X drops [site] [frequency]" - Ophthalmic/otic drops
+	{
+		pattern: /(?:(?:instill|place|put|use)\s+)?(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s*(drops?|gtts?)\b\s*(.*)$/i,
+		name: 'drops_site_frequency',
+		priority: 11,
+		dosageGroup: 1,
+		unitGroup: 2,
+		frequencyGroup: 3,
+	},
+	// Pattern 17d: "Apply X g [site] [frequency]" - Topical with stated amount
+	{
+		pattern: /apply\s+(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s*(g|gm|grams?|applications?)\b\s*(.*)$/i,
+		name: 'apply_amount_frequency',
+		priority: 11,
+		dosageGroup: 1,
+		unitGroup: 2,
+		frequencyGroup: 3,
+	},
+	// Pattern 17f: "Apply/change patch [frequency]" - Transdermal patch, one patch per change
+	{
+		pattern: /(?:apply|change|replace|place)\s+(?:1\s+|one\s+|an?\s+|the\s+)?(?:new\s+)?(?:transdermal\s+)?patch\b\s*(.*)$/i,
+		name: 'apply_patch_frequency',
+		priority: 11,
+		dosageGroup: 0, // Fixed: 1 patch
+		unitGroup: 0, // Fixed: 'patch'
+		frequencyGroup: 1,
+	},
+	// Pattern 17e: "Apply a thin layer [site] [frequency]" - Topical without an amount (1 application)
+	{
+		pattern: /apply\s+(a\s+thin\s+(?:layer|film)|a\s+small\s+amount|thinly|sparingly)\b\s*(.*)$/i,
+		name: 'apply_thin_layer_frequency',
+		priority: 11,
+		dosageGroup: 1,
+		unitGroup: 0, // Fixed: 'application'
+		frequencyGroup: 2,
+	},
+	// Pattern 17g: "Give X mg/kg [frequency]" / "X mg/kg/day divided BID" - Weight-based pediatric dosing
+	{
+		pattern: /(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s*(mg|mcg)\s*\/\s*kg\b\s*(.*)$/i,
+		name: 'weight_based_dose_frequency',
+		priority: 12,
+		dosageGroup: 1,
+		unitGroup: 2,
+		frequencyGroup: 3,
+	},
 	// Pattern 18: "Inject X units subcutaneously [frequency]" - Insulin
 	{
-		pattern: /inject\s+(\d+(?:\.\d+)?)\s*units?\s+(?:subcutaneously|sc|subq)\s+(.+?)/i,
+		pattern: /inject\s+(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s*units?\s+(?:subcutaneously|sc|subq)\s+(.+?)/i,
 		name: 'inject_units_subq_frequency',
 		priority: 11,
 		dosageGroup: 1,
@@ -361,7 +573,7 @@ const SIG_PATTERNS_RAW: SigPattern[] = [
 	},
 	// Pattern 19: "X units subcutaneously [frequency]" - Insulin (without "Inject")
 	{
-		pattern: /(\d+(?:\.\d+)?)\s*units?\s+(?:subcutaneously|sc|subq)\s+(.+?)/i,
+		pattern: /(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s*units?\s+(?:subcutaneously|sc|subq)\s+(.+?)/i,
 		name: 'units_subq_frequency',
 		priority: 10,
 		dosageGroup: 1,
@@ -0,0 +1,189 @@
+/**
+ * Days' Supply Calculator
+ * Works out the days' supply a dispensed package covers: the package quantity is converted into the
+ * unit the SIG is calculated in (tablets, mL, actuations, mL in whole insulin pens/vials) and the
+ * days are found with the same rules calculate() uses.
+ */
+
+import type { DaysSupplyCalculation, DaysSupplyRounding, DispensableUnit, ParsedSig, QuantityOptions, QuantityResult } from '../types/sig';
+import { calculate, calculateDaysSupply } from './quantityCalculator';
+import { parsePackageDescription, parseInjectableDevice } from './packageParser';
+import { MAX_DAYS_SUPPLY } from '../constants/quantityDefaults';
+import { UNIT_PATTERNS } from '../constants/sigPatterns';
+import { logger } from '../utils/logger';
+
+/** Package units that are one inhaler device (their actuations come from the capacity) */
+const INHALER_DEVICE_UNITS = ['inhaler', 'canister'];
+
+/** Package units that are one insulin pen/vial (their mL come from the device volume) */
+const INJECTABLE_DEVICE_UNITS = ['pen', 'syringe', 'injector', 'cartridge', 'vial'];
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Calculator unit for an FDA package unit ("TABLET" → 'tablet', "AEROSOL" → 'actuation')
+ */
+function normalizePackageUnit(unit: string): string {
+	const lower = unit.toLowerCase();
+	if (/\baerosol\b/.test(lower)) {
+		return 'actuation';  // "200 AEROSOL, METERED" counts metered doses
+	}
+	if (INHALER_DEVICE_UNITS.includes(lower) || INJECTABLE_DEVICE_UNITS.includes(lower)) {
+		return lower;
+	}
+	return UNIT_PATTERNS.find((unitPattern) => unitPattern.pattern.test(unit))?.normalized ?? lower;
+}
+
+/**
+ * Amount in one package, in the unit the SIG is calculated in
+ * @throws Error when the package unit cannot be expressed in that unit
+ */
+function packageAmount(
+	packageQuantity: number,
+	packageUnit: string,
+	sample: QuantityResult,
+	options: QuantityOptions
+): number {
+	const unit = normalizePackageUnit(packageUnit);
+	const target = sample.unit;
+
+	if (unit.toLowerCase() === target.toLowerCase()) {
+		return packageQuantity;
+	}
+	if (unit === 'L' && target === 'mL') {
+		return packageQuantity * 1000;
+	}
+	if (unit === 'mL' && target === 'L') {
+		return packageQuantity / 1000;
+	}
+	// Device counts: inhalers × actuations per inhaler, pens/vials × mL per device
+	if (INHALER_DEVICE_UNITS.includes(unit) && target === 'actuation' && options.inhalerCapacity) {
+		return packageQuantity * options.inhalerCapacity;
+	}
+	if (INJECTABLE_DEVICE_UNITS.includes(unit) && target === 'mL' && options.insulinDevice) {
+		return packageQuantity * options.insulinDevice.volume;
+	}
+
+	throw new Error(
+		`The package is dispensed in ${packageUnit}, which cannot be converted to the ${target} the instructions are dosed in.`
+	);
+}
+
+/**
+ * Rounding applied to the derived days, described for the pharmacist
+ */
+function describeRounding(
+	result: QuantityResult,
+	quantity: number,
+	daysSupply: number,
+	remaining: number
+): { rounding: DaysSupplyRounding; roundingRule: string } {
+	const { unit, insulin } = result;
+
+	if (daysSupply >= MAX_DAYS_SUPPLY) {
+		return {
+			rounding: 'max_days_supply',
+			roundingRule: `Capped at ${MAX_DAYS_SUPPLY} days; ${remaining} ${unit} of the ${quantity} ${unit} dispensed is left over`,
+		};
+	}
+
+	if (insulin) {
+		const priming = insulin.primingUnits > 0 ? ` with ${insulin.primingUnits} units of priming` : '';
+		return {
+			rounding: 'whole_devices',
+			roundingRule:
+				`Rounded down to the last whole day the ${quantity} mL covers in whole ${insulin.device.volume} mL ` +
+				`${insulin.device.type}s${priming}; each ${insulin.device.type} is discarded ${insulin.discardDays} days after opening`,
+		};
+	}
+
+	return {
+		rounding: 'whole_days',
+		roundingRule: `Rounded down to the last whole day the ${quantity} ${unit} fully covers (${round(result.total)} ${unit} used, ${remaining} ${unit} left over)`,
+	};
+}
+
+/**
+ * Calculates the days' supply a number of packages covers for a SIG.
+ * Inhalers use the actuations per device (from the package, or the SIG), insulin uses the package's
+ * pen/vial size with priming and the in-use discard window, and liquids are compared in mL.
+ * @param parsedSig - Parsed prescription instruction
+ * @param packageDescription - FDA package description (parsed with parsePackageDescription)
+ * @param packageCount - Packages dispensed
+ * @param options - Calculation policies, as passed to calculate()
+ * @returns Days' supply, the dispensed quantity and the rounding rule that was used
+ * @throws Error with a user-facing message when the package cannot be read, its unit does not match
+ * the SIG, or it does not cover one day
+ * @example
+ * calculateDaysSupplyFromPackage(parsedSig, '30 TABLET in 1 BOTTLE', 2) // "1 tablet twice daily" → daysSupply 30
+ */
+export function calculateDaysSupplyFromPackage(
+	parsedSig: ParsedSig,
+	packageDescription: string,
+	packageCount: number,
+	options: QuantityOptions = {}
+): DaysSupplyCalculation {
+	if (typeof packageCount !== 'number' || packageCount <= 0) {
+		throw new Error('Package count must be a positive number.');
+	}
+
+	const parsedPackage = parsePackageDescription(packageDescription);
+	if (!parsedPackage) {
+		throw new Error(`Could not read the package quantity from "${packageDescription}".`);
+	}
+
+	// Device details from the package itself, unless the caller already knows them
+	const packageUnit = normalizePackageUnit(parsedPackage.unit);
+	const packageOptions: QuantityOptions = {
+		...options,
+		insulinDevice:
+			options.insulinDevice ??
+			(parsedSig.dosageForm === 'insulin' ? (parseInjectableDevice(packageDescription) ?? undefined) : undefined),
+		inhalerCapacity:
+			options.inhalerCapacity ??
+			parsedPackage.metadata?.capacity ??
+			(packageUnit === 'actuation' ? parsedPackage.quantity : undefined),
+	};
+
+	const sample = calculate(parsedSig, 1, packageOptions);
+	const quantity = round(
+		packageAmount(parsedPackage.totalQuantity, parsedPackage.unit, sample, packageOptions) * packageCount
+	);
+
+	const daysSupply = calculateDaysSupply(parsedSig, quantity, packageOptions);
+	if (daysSupply === 0) {
+		throw new Error('The dispensed quantity does not cover one day of the prescription instructions.');
+	}
+
+	const result = calculate(parsedSig, daysSupply, packageOptions);
+	const remaining = round(quantity - result.total);
+	const { rounding, roundingRule } = describeRounding(result, quantity, daysSupply, remaining);
+
+	// Devices handed out (the result's own dispensable counts the devices used)
+	const device = result.dispensable;
+	const dispensable: DispensableUnit | undefined = device
+		? { ...device, count: Math.floor(round(quantity / device.capacity)) }
+		: undefined;
+
+	logger.debug('Days supply derived from package', undefined, {
+		packageDescription,
+		packageCount,
+		quantity,
+		daysSupply,
+		rounding,
+	});
+
+	return {
+		daysSupply,
+		quantity,
+		unit: result.unit,
+		used: round(result.total),
+		remaining,
+		rounding,
+		roundingRule,
+		...(dispensable && { dispensable }),
+		...(result.assumptions && { assumptions: result.assumptions }),
+	};
+}
@@ -0,0 +1,370 @@
+/**
+ * FHIR R4 adapter.
+ * Input: maps a MedicationRequest onto the calculate pipeline (medication codings → drugInput,
+ * dosageInstruction → SIG text and, when structured, a ParsedSig; expectedSupplyDuration → daysSupply).
+ * Output: renders a CalculationResponse as a Bundle of MedicationDispense resources or an OperationOutcome.
+ */
+
+import type { ApiError, CalculationResponse, CalculationResult } from '../types/api';
+import type { NdcSelection } from '../types/ndc';
+import type { DosingPhase, DosingSchedule, ParsedSig } from '../types/sig';
+import type {
+	FhirBundle,
+	FhirCodeableConcept,
+	FhirDosage,
+	FhirDuration,
+	FhirMappedRequest,
+	FhirMedicationDispense,
+	FhirMedicationRequest,
+	FhirOperationOutcome,
+	FhirQuantity,
+	FhirTimeUnit,
+	FhirTimingRepeat,
+} from '../types/fhir';
+import {
+	FHIR_DAYS_OF_WEEK,
+	FHIR_ISSUE_CODES,
+	FHIR_JSON_MEDIA_TYPE,
+	FHIR_QUANTITY_UCUM_CODES,
+	FHIR_SYSTEMS,
+	FHIR_TIME_UNIT_DAYS,
+	FHIR_TIMING_CODES,
+	FHIR_UCUM_UNITS,
+} from '../constants/fhir';
+import { UNIT_PATTERNS } from '../constants/sigPatterns';
+import { detectDosageForm } from './regexSigParser';
+import { normalizeNdc } from '../utils/ndcNormalizer';
+
+/**
+ * Converts a FHIR Duration to days (UCUM code or unit; unknown units → null)
+ */
+export function durationToDays(duration: FhirDuration | undefined): number | null {
+	if (!duration || typeof duration.value !== 'number' || duration.value <= 0) {
+		return null;
+	}
+	const unit = (duration.code ?? duration.unit ?? 'd').toLowerCase();
+	const key = (
+		{ day: 'd', days: 'd', week: 'wk', weeks: 'wk', month: 'mo', months: 'mo', year: 'a', years: 'a' } as Record<string, string>
+	)[unit] ?? unit;
+	const days = FHIR_TIME_UNIT_DAYS[key as FhirTimeUnit];
+	return days ? Math.round(duration.value * days * 100) / 100 : null;
+}
+
+/**
+ * Normalizes a FHIR dose quantity unit (UCUM code, annotation or display text) to a calculator unit
+ */
+function normalizeDoseUnit(quantity: FhirQuantity): string | null {
+	const candidates = [quantity.code, quantity.unit].filter((value): value is string => !!value);
+	for (const candidate of candidates) {
+		if (FHIR_UCUM_UNITS[candidate]) {
+			return FHIR_UCUM_UNITS[candidate];
+		}
+		// "{tbl}", "{puff}", "tablet", "Capsule"
+		const text = candidate.replace(/[{}]/g, '');
+		const match = UNIT_PATTERNS.find((unitPattern) => unitPattern.pattern.test(text))
+			?? (/^tbl$/i.test(text) ? { normalized: 'tablet' } : undefined);
+		if (match) {
+			return match.normalized;
+		}
+	}
+	return null;
+}
+
+/**
+ * Picks the drug to look up: an NDC coding first (most specific), then the RxNorm display / concept text
+ */
+function mapMedication(concept: FhirCodeableConcept | undefined): { drugInput: string; rxcui?: string } {
+	const codings = concept?.coding ?? [];
+	const ndcCoding = codings.find((coding) => coding.system === FHIR_SYSTEMS.ndc && coding.code);
+	const rxnormCoding = codings.find((coding) => coding.system === FHIR_SYSTEMS.rxnorm && coding.code);
+	const rxcui = rxnormCoding?.code;
+
+	if (ndcCoding?.code) {
+		const ndc = ndcCoding.code.includes('-') ? ndcCoding.code : normalizeNdc(ndcCoding.code);
+		if (ndc) {
+			return { drugInput: ndc, rxcui };
+		}
+	}
+
+	const name = rxnormCoding?.display ?? concept?.text ?? codings.find((coding) => coding.display)?.display;
+	if (!name && !rxcui) {
+		throw new Error('medicationCodeableConcept must include an RxNorm or NDC coding, or text.');
+	}
+	return { drugInput: name?.trim() ?? '', rxcui };
+}
+
+/**
+ * Structured dose, doses per day and schedule of one Dosage, or null when it isn't fully structured
+ */
+function mapStructuredDosage(dosage: FhirDosage): Omit<ParsedSig, 'dosageForm' | 'confidence'> | null {
+	const doseAndRate = dosage.doseAndRate?.find((entry) => entry.doseQuantity || entry.doseRange);
+	const doseQuantity = doseAndRate?.doseQuantity ?? doseAndRate?.doseRange?.high ?? doseAndRate?.doseRange?.low;
+	if (!doseQuantity) {
+		return null;
+	}
+	const unit = normalizeDoseUnit(doseQuantity);
+	const low = doseAndRate?.doseRange?.low?.value;
+	const high = doseAndRate?.doseRange?.high?.value;
+	const dosageRange = typeof low === 'number' && typeof high === 'number' && high > low ? { min: low, max: high } : undefined;
+	const dose = dosageRange ? (dosageRange.min + dosageRange.max) / 2 : doseQuantity.value;
+	if (!unit || typeof dose !== 'number' || dose <= 0) {
+		return null;
+	}
+
+	const timingCode = dosage.timing?.code?.coding?.find((coding) => coding.code)?.code ?? dosage.timing?.code?.text;
+	const structuredRepeat = dosage.timing?.repeat;
+	const repeat: FhirTimingRepeat | undefined =
+		structuredRepeat?.frequency || structuredRepeat?.dayOfWeek?.length
+			? structuredRepeat
+			: timingCode
+				? FHIR_TIMING_CODES[timingCode.toUpperCase()]
+				: undefined;
+	const asNeeded = dosage.asNeededBoolean === true || !!dosage.asNeededCodeableConcept;
+	if (!repeat && !asNeeded) {
+		return null;
+	}
+
+	const maxPerPeriod = dosage.maxDosePerPeriod;
+	const maxPeriodDays = durationToDays(maxPerPeriod?.denominator);
+	const maxDailyDose =
+		maxPeriodDays && typeof maxPerPeriod?.numerator?.value === 'number'
+			? Math.round((maxPerPeriod.numerator.value / maxPeriodDays) * 100) / 100
+			: undefined;
+	const base = { dosage: dose, unit, dosageRange, maxDailyDose };
+
+	if (asNeeded || !repeat) {
+		// PRN: frequency 0, dosing interval from "every 4-6 hours"
+		const prnInterval =
+			repeat?.periodUnit === 'h' && repeat.period
+				? { minHours: repeat.period, maxHours: repeat.periodMax ?? repeat.period }
+				: undefined;
+		return { ...base, frequency: 0, prnInterval };
+	}
+
+	// Named weekdays
+	if (repeat.dayOfWeek?.length) {
+		const weekdays = repeat.dayOfWeek.map((day) => FHIR_DAYS_OF_WEEK.indexOf(day)).filter((day) => day >= 0);
+		return { ...base, frequency: weekdays.length / 7, schedule: { type: 'weekdays', weekdays } };
+	}
+
+	const frequency = repeat.frequencyMax ?? repeat.frequency ?? 1;
+	const periodDays = (repeat.period ?? 1) * FHIR_TIME_UNIT_DAYS[repeat.periodUnit ?? 'd'];
+	if (!periodDays) {
+		return null;
+	}
+
+	const dosesPerDay = Math.round((frequency / periodDays) * 10000) / 10000;
+	// Less than daily: one dose every N days ("every other day", weekly, twice weekly = every 3.5 days)
+	const schedule: DosingSchedule | undefined =
+		dosesPerDay < 1 ? { type: 'interval', intervalDays: Math.round((periodDays / frequency) * 100) / 100 } : undefined;
+	return { ...base, frequency: dosesPerDay, schedule };
+}
+
+/**
+ * Readable SIG for structured orders that carry no text ("1 tablet 2 times daily")
+ */
+function describeStructuredDosage(sig: Omit<ParsedSig, 'dosageForm' | 'confidence'>): string {
+	const dose = sig.dosageRange ? `${sig.dosageRange.min}-${sig.dosageRange.max}` : `${sig.dosage}`;
+	if (sig.frequency === 0) {
+		return `${dose} ${sig.unit} as needed`;
+	}
+	if (sig.schedule?.type === 'interval') {
+		return `${dose} ${sig.unit} every ${sig.schedule.intervalDays} days`;
+	}
+	if (sig.schedule?.type === 'weekdays') {
+		return `${dose} ${sig.unit} on ${sig.schedule.weekdays?.map((day) => FHIR_DAYS_OF_WEEK[day]).join(', ')}`;
+	}
+	return `${dose} ${sig.unit} ${sig.frequency} times daily`;
+}
+
+/**
+ * Builds a ParsedSig from structured dosage instructions (several, ordered by sequence, become dosing phases).
+ * Returns null when any instruction lacks a structured dose or timing.
+ */
+function mapDosageInstructions(dosages: FhirDosage[]): { parsedSig: ParsedSig; sig: string } | null {
+	const ordered = [...dosages].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+	const mapped = ordered.map(mapStructuredDosage);
+	if (mapped.some((entry) => entry === null)) {
+		return null;
+	}
+	const steps = mapped as Array<NonNullable<(typeof mapped)[number]>>;
+	const first = steps[0];
+	if (steps.some((step) => step.unit !== first.unit)) {
+		return null;
+	}
+
+	const phases: DosingPhase[] | undefined =
+		steps.length > 1
+			? steps.map((step, index) => ({
+					dosage: step.dosage,
+					frequency: step.frequency,
+					durationDays: durationToDays(ordered[index].timing?.repeat?.boundsDuration) ?? undefined,
+				}))
+			: undefined;
+	const text = ordered.map((dosage) => dosage.text?.trim()).filter(Boolean).join(' then ');
+	const sig = text || steps.map(describeStructuredDosage).join(' then ');
+	const routeText = ordered.map((dosage) => dosage.route?.text ?? dosage.route?.coding?.[0]?.display ?? '').join(' ');
+
+	return {
+		sig,
+		parsedSig: {
+			...first,
+			confidence: 1,  // Coded by the prescriber, not inferred from text
+			dosageForm: detectDosageForm(first.unit, `${sig} ${routeText}`),
+			phases,
+		},
+	};
+}
+
+/**
+ * Maps a FHIR R4 MedicationRequest to a calculation request.
+ * Structured dosageInstruction (doseAndRate + timing) yields a ParsedSig so SIG parsing is skipped;
+ * text-only instructions go through the usual SIG parser.
+ * @param resource - MedicationRequest resource
+ * @returns Calculation request, RxCUI and (for structured dosage) the parsed SIG
+ * @throws Error with a user-facing message when a required element is missing
+ * @example
+ * mapMedicationRequest({
+ *   resourceType: 'MedicationRequest',
+ *   medicationCodeableConcept: { coding: [{ system: 'http://hl7.org/fhir/sid/ndc', code: '00071015623' }] },
+ *   dosageInstruction: [{ text: 'Take 1 tablet twice daily' }],
+ *   dispenseRequest: { expectedSupplyDuration: { value: 30, unit: 'days', code: 'd' } },
+ * }) // Returns { request: { drugInput: '00071-0156-23', sig: 'Take 1 tablet twice daily', daysSupply: 30 } }
+ */
+export function mapMedicationRequest(resource: FhirMedicationRequest): FhirMappedRequest {
+	if (!resource || resource.resourceType !== 'MedicationRequest') {
+		throw new Error('Expected a FHIR MedicationRequest resource.');
+	}
+
+	const { drugInput, rxcui } = mapMedication(resource.medicationCodeableConcept);
+
+	const dosages = resource.dosageInstruction ?? [];
+	if (dosages.length === 0) {
+		throw new Error('MedicationRequest.dosageInstruction is required.');
+	}
+	const structured = mapDosageInstructions(dosages);
+	const sig = structured?.sig ?? dosages.map((dosage) => dosage.text?.trim()).filter(Boolean).join(' then ');
+	if (!sig) {
+		throw new Error('dosageInstruction needs text or a structured dose and timing.');
+	}
+
+	const daysSupply = durationToDays(resource.dispenseRequest?.expectedSupplyDuration);
+	if (!daysSupply) {
+		throw new Error('dispenseRequest.expectedSupplyDuration is required.');
+	}
+
+	return {
+		request: { drugInput, sig, daysSupply },
+		rxcui,
+		parsedSig: structured?.parsedSig,
+	};
+}
+
+/**
+ * Whether the client asked for FHIR output (`?format=fhir` or an application/fhir+json Accept header)
+ * @param accept - Accept header value
+ * @param format - `format` query parameter
+ */
+export function isFhirFormatRequested(accept: string | null, format: string | null): boolean {
+	if (format) {
+		return format.toLowerCase() === 'fhir';
+	}
+	return !!accept && accept.toLowerCase().includes(FHIR_JSON_MEDIA_TYPE);
+}
+
+/**
+ * Renders one NDC selection of a calculation as MedicationDispenses: one for a single-NDC fill,
+ * one per package NDC (ids suffixed -1, -2, ...) for a combination fill.
+ * The recommended selection's dispenses (matched by reference, not NDC) carry the calculation warnings as notes.
+ * @param result - Calculation result
+ * @param selection - NDC to dispense (defaults to the recommended NDC)
+ * @param id - Resource id within the Bundle
+ */
+export function toMedicationDispenses(
+	result: CalculationResult,
+	selection: NdcSelection = result.recommendedNdc,
+	id = 'recommended'
+): FhirMedicationDispense[] {
+	const { drug, quantity } = result;
+	const unitCode = FHIR_QUANTITY_UCUM_CODES[quantity.unit];
+	const isRecommended = selection === result.recommendedNdc;
+	const note = isRecommended ? result.warnings.map((warning) => ({ text: `[${warning.severity}] ${warning.message}` })) : [];
+
+	// Dispensed amount: whole packages of each NDC
+	const packages = selection.components?.length
+		? selection.components.map((component) => ({
+				ndc: component.ndc,
+				packageDescription: component.packageDescription,
+				amount: component.packageSize * component.packageCount,
+			}))
+		: [{ ndc: selection.ndc, packageDescription: selection.packageDescription, amount: selection.totalQuantity }];
+
+	return packages.map((pkg, index) => ({
+		resourceType: 'MedicationDispense',
+		id: packages.length > 1 ? `${id}-${index + 1}` : id,
+		status: 'preparation',
+		medicationCodeableConcept: {
+			coding: [
+				{ system: FHIR_SYSTEMS.ndc, code: pkg.ndc, display: pkg.packageDescription },
+				...(drug.rxcui ? [{ system: FHIR_SYSTEMS.rxnorm, code: drug.rxcui, display: drug.name }] : []),
+			],
+			text: drug.name,
+		},
+		quantity: {
+			value: pkg.amount,
+			unit: quantity.unit,
+			...(unitCode ? { system: FHIR_SYSTEMS.ucum, code: unitCode } : {}),
+		},
+		daysSupply: { value: quantity.calculation.daysSupply, unit: 'days', system: FHIR_SYSTEMS.ucum, code: 'd' },
+		...(note.length > 0 ? { note } : {}),
+	}));
+}
+
+/**
+ * Renders a calculation as a Bundle: the recommended MedicationDispenses first, then those of each alternative NDC
+ * @param result - Calculation result
+ */
+export function toDispenseBundle(result: CalculationResult): FhirBundle {
+	return {
+		resourceType: 'Bundle',
+		type: 'collection',
+		timestamp: new Date().toISOString(),
+		entry: [
+			...toMedicationDispenses(result),
+			...result.alternatives.flatMap((alternative, index) =>
+				toMedicationDispenses(result, alternative, `alternative-${index + 1}`)
+			),
+		].map((resource) => ({ resource })),
+	};
+}
+
+/**
+ * Renders a calculation error as an OperationOutcome
+ * @param error - Calculator error
+ */
+export function toOperationOutcome(error: ApiError): FhirOperationOutcome {
+	return {
+		resourceType: 'OperationOutcome',
+		issue: [
+			{
+				severity: 'error',
+				code: FHIR_ISSUE_CODES[error.code] ?? 'exception',
+				details: { text: error.code },
+				diagnostics: error.message,
+			},
+		],
+	};
+}
+
+/**
+ * FHIR view of a calculate response: a dispense Bundle on success, an OperationOutcome otherwise
+ * @param response - Standard calculation response
+ */
+export function toFhirResponse(response: CalculationResponse): FhirBundle | FhirOperationOutcome {
+	if (response.success && response.data) {
+		return toDispenseBundle(response.data);
+	}
+	return toOperationOutcome(
+		response.error ?? { code: 'API_ERROR', message: 'An unexpected error occurred. Please try again.' }
+	);
+}
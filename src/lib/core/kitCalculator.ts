@@ -0,0 +1,97 @@
+/**
+ * Kit Calculator
+ * Kits (H. pylori packs, contraceptive starter kits) are dispensed whole. One kit covers a fixed number
+ * of days: as long as the product the SIG doses lasts, or the whole course when the SIG doses none of
+ * the kit's products ("Take as directed").
+ */
+
+import type { ParsedSig, QuantityOptions, QuantityResult } from '../types/sig';
+import type { KitComponent, ParsedPackage } from './packageParser';
+import { calculate, calculateDaysSupply } from './quantityCalculator';
+import { normalizeUnitForMatching, convertLiquidVolume } from '../utils/unitConverter';
+import { logger } from '../utils/logger';
+
+/**
+ * Days one kit covers for a SIG.
+ * Products in the SIG's own unit are used first (capsules for "2 capsules twice daily" in a tablet +
+ * capsule pack); when several are dosed, the one that runs out first sets the days.
+ * @param parsedSig - Parsed prescription instruction
+ * @param kit - Parsed kit package (unit 'KIT', with kitComponents)
+ * @param options - Calculation policies, as passed to calculate()
+ * @returns Days and the product that sets them, or null when the SIG doses none of the kit's products
+ * @throws Error when the dosed product does not cover one day
+ */
+export function calculateKitDays(
+	parsedSig: ParsedSig,
+	kit: ParsedPackage,
+	options: QuantityOptions = {}
+): { days: number; component: KitComponent } | null {
+	const sigUnit = calculate(parsedSig, 1, options).unit;
+	const components = kit.kitComponents ?? [];
+	const sameUnit = components.filter((component) => component.unit.toLowerCase() === sigUnit.toLowerCase());
+	const dosed = sameUnit.length > 0
+		? sameUnit
+		: components.filter((component) => normalizeUnitForMatching(component.unit, sigUnit).canMatch);
+
+	let shortest = null as { days: number; component: KitComponent } | null;
+	for (const component of dosed) {
+		const quantity = normalizeUnitForMatching(component.unit, sigUnit).conversionNeeded
+			? convertLiquidVolume(component.quantity, component.unit, sigUnit)?.converted
+			: component.quantity;
+		if (!quantity || quantity <= 0) {
+			continue;
+		}
+		const days = calculateDaysSupply(parsedSig, quantity, options);
+		if (!shortest || days < shortest.days) {
+			shortest = { days, component };
+		}
+	}
+
+	if (shortest?.days === 0) {
+		throw new Error(`One kit does not cover one day of the prescription instructions (${shortest.component.description}).`);
+	}
+	return shortest;
+}
+
+/**
+ * Whole kits to dispense for a days' supply
+ * @param parsedSig - Parsed prescription instruction
+ * @param daysSupply - Days to cover
+ * @param kit - Parsed kit package (unit 'KIT', with kitComponents)
+ * @param options - Calculation policies, as passed to calculate()
+ * @returns Quantity in kits; dispensable.capacity is the days one kit covers
+ * @throws Error when the dosed product does not cover one day
+ * @example
+ * // "Take 1 tablet daily", 28 TABLET per kit, 84 days → { total: 3, unit: 'kit', ... }
+ */
+export function calculateKitQuantity(
+	parsedSig: ParsedSig,
+	daysSupply: number,
+	kit: ParsedPackage,
+	options: QuantityOptions = {}
+): QuantityResult {
+	const coverage = calculateKitDays(parsedSig, kit, options);
+	const daysPerKit = coverage?.days ?? daysSupply;
+	const kits = Math.ceil(daysSupply / daysPerKit);
+
+	logger.debug('Kit quantity calculated', undefined, {
+		daysSupply,
+		daysPerKit,
+		kits,
+		dosedComponent: coverage?.component.description,
+	});
+
+	return {
+		total: kits,
+		unit: 'kit',
+		...(!coverage && {
+			assumptions: [`The instructions do not dose the kit's products; one kit is assumed to cover the ${daysSupply}-day course`],
+		}),
+		dispensable: { unit: 'kit', count: kits, capacity: daysPerKit, capacityUnit: 'day' },
+		calculation: {
+			dosage: parsedSig.dosage,
+			frequency: parsedSig.frequency,
+			daysSupply,
+		},
+	};
+}
@@ -0,0 +1,218 @@
+/**
+ * NCPDP SCRIPT 2017071 NewRx parser.
+ * Extracts the drug (NDC / RxNorm product codes, description), Sig (free text and structured
+ * Instruction fields), written quantity and days supply, and maps them onto the calculate pipeline.
+ */
+
+import type { ParsedSig, QuantityResult, DosingSchedule } from '../types/sig';
+import type { NcpdpMappedRequest, NewRxPrescription, QuantityComparison, WrittenQuantity } from '../types/ncpdp';
+import { NCPDP_NDC_QUALIFIER, NCPDP_RXNORM_QUALIFIERS, NCPDP_TIME_UNIT_DAYS, NCPDP_UNIT_CODES } from '../constants/ncpdp';
+import { DEFAULT_QUANTITY_DISCREPANCY_TOLERANCE } from '../constants/quantityDefaults';
+import { UNIT_PATTERNS } from '../constants/sigPatterns';
+import { detectDosageForm } from './regexSigParser';
+import { normalizeNdc } from '../utils/ndcNormalizer';
+import { parseXml, findElement, findElements, elementText, type XmlElement } from '../utils/xml';
+
+function toNumber(value: string | undefined): number | undefined {
+	const number = value !== undefined ? Number(value) : NaN;
+	return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Calculator unit from an NCI unit-of-measure code, falling back to its text
+ */
+function normalizeUnit(unitElement: XmlElement | null): string | undefined {
+	const code = elementText(unitElement, 'Code');
+	if (code && NCPDP_UNIT_CODES[code]) {
+		return NCPDP_UNIT_CODES[code];
+	}
+	const text = elementText(unitElement, 'Text');
+	return text ? UNIT_PATTERNS.find((unitPattern) => unitPattern.pattern.test(text))?.normalized : undefined;
+}
+
+/**
+ * Days for a FrequencyUnits / IntervalUnits element ("day", "Hours", ...)
+ */
+function unitDays(unitElement: XmlElement | null): number | undefined {
+	const text = elementText(unitElement, 'Text')?.toLowerCase().replace(/s$/, '');
+	return text ? NCPDP_TIME_UNIT_DAYS[text] : undefined;
+}
+
+/**
+ * ParsedSig from a single structured Sig/Instruction, or undefined when dose or timing is missing
+ */
+function parseStructuredSig(sig: XmlElement | null, sigText: string | undefined): ParsedSig | undefined {
+	const instructions = findElements(sig, 'Instruction');
+	// Multi-step instructions (THEN / AND modifiers) are left to the text parser
+	if (instructions.length !== 1) {
+		return undefined;
+	}
+	const instruction = instructions[0];
+
+	const dosage = findElement(instruction, 'DoseAdministration', 'Dosage');
+	const dose = toNumber(elementText(dosage, 'DoseQuantity'));
+	const unit = normalizeUnit(findElement(dosage, 'DoseUnitOfMeasure'));
+	if (!dose || dose <= 0 || !unit) {
+		return undefined;
+	}
+
+	const indicationPrecursor = elementText(instruction, 'Indication', 'IndicationPrecursor', 'Text') ?? '';
+	const asNeeded = /as\s+needed|prn/i.test(indicationPrecursor);
+	const timing = findElement(instruction, 'TimingAndDuration');
+
+	// "1 per day", "2 per week" / "every 6 hours"
+	const frequency = findElement(timing, 'Frequency');
+	const interval = findElement(timing, 'Interval');
+	let dosesPerDay: number | undefined;
+	let intervalHours: number | undefined;
+	if (frequency) {
+		const count = toNumber(elementText(frequency, 'FrequencyNumericValue'));
+		const days = unitDays(findElement(frequency, 'FrequencyUnits'));
+		dosesPerDay = count && days ? count / days : undefined;
+	} else if (interval) {
+		const value = toNumber(elementText(interval, 'IntervalNumericValue'));
+		const days = unitDays(findElement(interval, 'IntervalUnits'));
+		dosesPerDay = value && days ? 1 / (value * days) : undefined;
+		intervalHours = value && days ? value * days * 24 : undefined;
+	}
+
+	const route = elementText(instruction, 'DoseAdministration', 'RouteOfAdministration', 'Text') ?? '';
+	const base = {
+		dosage: dose,
+		unit,
+		confidence: 1,  // Coded by the prescriber, not inferred from text
+		dosageForm: detectDosageForm(unit, `${sigText ?? ''} ${route}`),
+	};
+
+	if (asNeeded) {
+		return {
+			...base,
+			frequency: 0,
+			prnInterval: intervalHours ? { minHours: intervalHours, maxHours: intervalHours } : undefined,
+		};
+	}
+	if (!dosesPerDay) {
+		return undefined;
+	}
+
+	const rounded = Math.round(dosesPerDay * 10000) / 10000;
+	const schedule: DosingSchedule | undefined =
+		rounded < 1 ? { type: 'interval', intervalDays: Math.round((1 / dosesPerDay) * 100) / 100 } : undefined;
+	return { ...base, frequency: rounded, schedule };
+}
+
+/**
+ * Parses a NewRx message
+ * @param xml - NCPDP SCRIPT 2017071 Message XML
+ * @returns Extracted prescription fields
+ * @throws Error with a user-facing message when the XML is malformed or not a NewRx
+ */
+export function parseNewRx(xml: string): NewRxPrescription {
+	const message = parseXml(xml);
+	if (!message) {
+		throw new Error('Could not read the NCPDP message: the XML is not well-formed.');
+	}
+
+	const newRx = findElement(message, 'Body', 'NewRx');
+	if (message.name !== 'Message' || !newRx) {
+		throw new Error('Expected an NCPDP SCRIPT Message with a NewRx body.');
+	}
+
+	const medication = findElement(newRx, 'MedicationPrescribed');
+	if (!medication) {
+		throw new Error('NewRx is missing MedicationPrescribed.');
+	}
+
+	const drugCoded = findElement(medication, 'DrugCoded');
+	const productCode = findElement(drugCoded, 'ProductCode');
+	const ndcCode = elementText(productCode, 'Qualifier') === NCPDP_NDC_QUALIFIER ? elementText(productCode, 'Code') : undefined;
+	const drugDbCode = findElement(drugCoded, 'DrugDBCode');
+	const rxcui = NCPDP_RXNORM_QUALIFIERS.includes(elementText(drugDbCode, 'Qualifier') ?? '')
+		? elementText(drugDbCode, 'Code')
+		: undefined;
+
+	const sig = findElement(medication, 'Sig');
+	const sigText = elementText(sig, 'SigText');
+
+	const quantityValue = toNumber(elementText(medication, 'Quantity', 'Value'));
+	const writtenQuantity: WrittenQuantity | undefined =
+		quantityValue !== undefined
+			? { value: quantityValue, unit: normalizeUnit(findElement(medication, 'Quantity', 'QuantityUnitOfMeasure')) }
+			: undefined;
+
+	return {
+		messageId: elementText(message, 'Header', 'MessageID'),
+		drugDescription: elementText(medication, 'DrugDescription'),
+		ndc: ndcCode ? (normalizeNdc(ndcCode) ?? ndcCode) : undefined,
+		rxcui,
+		sigText,
+		structuredSig: parseStructuredSig(sig, sigText),
+		writtenQuantity,
+		daysSupply: toNumber(elementText(medication, 'DaysSupply')),
+	};
+}
+
+/**
+ * Maps a NewRx message to a calculation request
+ * @param xml - NCPDP SCRIPT NewRx XML
+ * @returns Calculation request and the extracted prescription
+ * @throws Error with a user-facing message when required fields are missing
+ */
+export function mapNewRx(xml: string): NcpdpMappedRequest {
+	const prescription = parseNewRx(xml);
+
+	// NDC is the most specific; the description resolves through RxNorm like a typed drug name
+	// (empty when only an RxNorm DrugDBCode is given; the caller passes the RxCUI through)
+	const drugInput = prescription.ndc ?? prescription.drugDescription ?? '';
+	if (!drugInput && !prescription.rxcui) {
+		throw new Error('MedicationPrescribed needs a DrugDescription, an NDC ProductCode or an RxNorm DrugDBCode.');
+	}
+
+	const structured = prescription.structuredSig;
+	const sig =
+		prescription.sigText ??
+		(structured
+			? `${structured.dosage} ${structured.unit} ${structured.frequency === 0 ? 'as needed' : `${structured.frequency} times daily`}`
+			: undefined);
+	if (!sig) {
+		throw new Error('MedicationPrescribed needs Sig text or a structured Sig instruction.');
+	}
+
+	if (!prescription.daysSupply) {
+		throw new Error('MedicationPrescribed is missing DaysSupply.');
+	}
+
+	return {
+		request: { drugInput, sig, daysSupply: prescription.daysSupply },
+		prescription,
+	};
+}
+
+/**
+ * Puts the prescriber's written quantity next to the calculated one.
+ * Inhaler/pen counts are compared against the whole devices to dispense.
+ * @param written - Written quantity from the prescription
+ * @param quantity - Calculated quantity
+ * @param tolerance - Fraction of the calculated quantity tolerated before flagging
+ */
+export function compareWrittenQuantity(
+	written: WrittenQuantity,
+	quantity: QuantityResult,
+	tolerance = DEFAULT_QUANTITY_DISCREPANCY_TOLERANCE
+): QuantityComparison {
+	const dispensable = quantity.dispensable && written.unit === quantity.dispensable.unit ? quantity.dispensable : undefined;
+	const calculated = dispensable ? dispensable.count : quantity.total;
+	const unit = dispensable ? dispensable.unit : quantity.unit;
+	const comparable = !written.unit || written.unit.toLowerCase() === unit.toLowerCase();
+	const difference = Math.round((written.value - calculated) * 100) / 100;
+
+	return {
+		written: written.value,
+		writtenUnit: written.unit,
+		calculated,
+		unit,
+		difference,
+		comparable,
+		discrepancy: comparable && Math.abs(difference) > calculated * tolerance,
+	};
+}
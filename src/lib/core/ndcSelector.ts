@@ -3,17 +3,25 @@
  * Selects optimal NDCs based on calculated quantity.
  */
 
-import { NdcInfo, NdcSelection } from '../types/ndc';
+import type { NdcInfo, NdcSelection, NdcSelectionComponent, PackagingType, RankingOptions, ScoreComponent } from '../types/ndc';
+import type { PayerProfile } from '../types/payer';
+import { checkPayerSelection } from './payerProfiles';
+import { RANKING_STRATEGIES, DEFAULT_RANKING_STRATEGY } from './rankingStrategies';
 import { parsePackageDescription, ParsedPackage } from './packageParser';
 import { logger } from '../utils/logger';
-import { normalizeUnitForMatching, convertLiquidVolume } from '../utils/unitConverter';
+import { normalizeUnitForMatching, convertLiquidVolume, isMassUnit, isLiquidUnit } from '../utils/unitConverter';
 import { normalizeNdc } from '../utils/ndcNormalizer';
+import { PACKAGING_TYPE_LABELS, PACKAGING_PREFERENCE_BONUS } from '../constants/packaging';
 
 /**
  * Parses package size from NDC info using package parser.
  * Returns both the quantity and the parsed package info.
  */
-function parsePackageSize(ndcInfo: NdcInfo): { quantity: number; parsed: ParsedPackage } | null {
+function parsePackageSize(
+	ndcInfo: NdcInfo,
+	targetUnit?: string,
+	dispenseAt?: string
+): { quantity: number; parsed: ParsedPackage } | null {
 	// Otherwise, try to parse from packageDescription
 	if (!ndcInfo.packageDescription) {
 		// Use packageSize if available (may already be parsed)
@@ -30,7 +38,7 @@ function parsePackageSize(ndcInfo: NdcInfo): { quantity: number; parsed: ParsedP
 		return null;
 	}
 
-	const parsed = parsePackageDescription(ndcInfo.packageDescription);
+	const parsed = parsePackageDescription(ndcInfo.packageDescription, { dispenseAt });
 	if (!parsed) {
 		// Fallback to packageSize if parsing fails
 		if (ndcInfo.packageSize && ndcInfo.packageSize > 0) {
@@ -46,6 +54,15 @@ function parsePackageSize(ndcInfo: NdcInfo): { quantity: number; parsed: ParsedP
 		return null;
 	}
 
+	// Insulin packages parse to units; compare by volume when the target is in mL (pens/vials)
+	const volume = parsed.metadata?.volume;
+	if (parsed.metadata?.dosageForm === 'insulin' && volume && targetUnit && isLiquidUnit(targetUnit)) {
+		return {
+			quantity: volume,
+			parsed: { ...parsed, quantity: volume, unit: 'mL', totalQuantity: volume },
+		};
+	}
+
 	// Return quantity per package (not totalQuantity for multi-packs)
 	return {
 		quantity: parsed.quantity,
@@ -54,25 +71,46 @@ function parsePackageSize(ndcInfo: NdcInfo): { quantity: number; parsed: ParsedP
 }
 
 /**
- * Calculates match score for NDC selection (0-100).
- * Now unit-aware: checks unit compatibility and converts if needed.
+ * Adds up a score breakdown
+ */
+function sumScore(breakdown: ScoreComponent[]): number {
+	return breakdown.reduce((sum, component) => sum + component.points, 0);
+}
+
+/**
+ * Product fields a package passes on to its selections: strength, and the source product
+ * when brand/generic equivalents were searched
+ */
+function productFields(ndcInfo: NdcInfo): Pick<NdcSelection, 'sourceRxcui' | 'productType' | 'strength'> {
+	return {
+		...(ndcInfo.sourceRxcui && { sourceRxcui: ndcInfo.sourceRxcui }),
+		...(ndcInfo.productType && { productType: ndcInfo.productType }),
+		...(ndcInfo.strength && { strength: ndcInfo.strength }),
+	};
+}
+
+/**
+ * Calculates the fill match score for NDC selection (0-100) as the lines that make it up.
+ * Unit-aware: checks unit compatibility and converts if needed.
+ * Bands: exact 100, within 5% 90-99, overfill 70-80, underfill 60-70; multiple packages -5.
  */
 function calculateMatchScore(
 	selection: NdcSelection,
 	targetQuantity: number,
 	targetUnit: string,
 	parsedPackage?: ParsedPackage
-): number {
+): ScoreComponent[] {
 	let { totalQuantity } = selection;
 	const { packageCount } = selection;
+	let targetAmount = targetQuantity;
 
 	// Check unit compatibility
 	if (parsedPackage) {
 		const unitMatch = normalizeUnitForMatching(parsedPackage.unit, targetUnit);
 		
-		// If units can't match, return 0 (filter out)
+		// If units can't match, score 0 (filter out)
 		if (!unitMatch.canMatch) {
-			return 0;
+			return [{ label: 'Unit does not match', points: 0 }];
 		}
 
 		// If conversion needed, convert the quantity
@@ -86,45 +124,53 @@ function calculateMatchScore(
 				totalQuantity = conversion.converted;
 			} else {
 				// Conversion failed, can't match
-				return 0;
+				return [{ label: 'Unit cannot be converted', points: 0 }];
 			}
 		}
 	}
 
-	// Exact match
-	if (totalQuantity === targetQuantity) {
-		// Single-pack exact match: 100
-		// Multi-pack exact match: 95
-		return packageCount && packageCount > 1 ? 95 : 100;
+	// Inhalers are dispensed in whole devices: score device counts, not leftover actuations
+	const capacity = parsedPackage?.metadata?.capacity;
+	if (capacity && capacity > 0) {
+		totalQuantity = Math.round(totalQuantity / capacity);
+		targetAmount = Math.ceil(targetQuantity / capacity);
+	}
+
+	const multiPack: ScoreComponent[] =
+		packageCount && packageCount > 1 ? [{ label: 'Multiple packages', points: -5 }] : [];
+
+	// Exact match: 100 (multi-pack 95)
+	if (totalQuantity === targetAmount) {
+		return [{ label: 'Exact match', points: 100 }, ...multiPack];
 	}
 
 	// Calculate difference percentage
-	const diff = Math.abs(totalQuantity - targetQuantity);
-	const diffPercent = diff / targetQuantity;
+	const diff = Math.abs(totalQuantity - targetAmount);
+	const diffPercent = diff / targetAmount;
 
-	// Near match (within 5%)
+	// Near match (within 5%): 90-99 proportional to closeness (multi-pack 85-94)
 	if (diffPercent <= 0.05) {
-		// Score: 90-99 (proportional to closeness)
 		const closeness = 1 - diffPercent / 0.05;
-		const baseScore = packageCount && packageCount > 1 ? 85 : 90;
-		return baseScore + Math.round(closeness * 9);
+		return [{ label: 'Within 5% of target', points: 90 + Math.round(closeness * 9) }, ...multiPack];
 	}
 
-	// Overfill (package > target)
-	if (totalQuantity > targetQuantity) {
-		const overfillPercent = (totalQuantity - targetQuantity) / targetQuantity;
-		// Score: 80-89 (penalized by overfill %)
-		// More overfill = lower score
-		const penalty = Math.min(overfillPercent, 1) * 10;
-		return Math.max(80 - Math.round(penalty), 70);
+	// Overfill (package > target): 70-80, more overfill = lower score
+	if (totalQuantity > targetAmount) {
+		const overfillPercent = (totalQuantity - targetAmount) / targetAmount;
+		const penalty = Math.round(Math.min(overfillPercent, 1) * 10);
+		return [
+			{ label: 'Covers target with overfill', points: 80 },
+			...(penalty > 0 ? [{ label: `${Math.round(overfillPercent * 100)}% overfill`, points: -penalty }] : []),
+		];
 	}
 
-	// Underfill (package < target)
-	const underfillPercent = (targetQuantity - totalQuantity) / targetQuantity;
-	// Score: 70-79 (penalized by underfill %)
-	// More underfill = lower score
-	const penalty = Math.min(underfillPercent, 1) * 10;
-	return Math.max(70 - Math.round(penalty), 60);
+	// Underfill (package < target): 60-70, more underfill = lower score
+	const underfillPercent = (targetAmount - totalQuantity) / targetAmount;
+	const penalty = Math.round(Math.min(underfillPercent, 1) * 10);
+	return [
+		{ label: 'Short of target', points: 70 },
+		...(penalty > 0 ? [{ label: `${Math.round(underfillPercent * 100)}% underfill`, points: -penalty }] : []),
+	];
 }
 
 /**
@@ -133,9 +179,10 @@ function calculateMatchScore(
 function generateSinglePackSelection(
 	ndcInfo: NdcInfo,
 	targetQuantity: number,
-	targetUnit: string
+	targetUnit: string,
+	dispenseAt?: string
 ): NdcSelection | null {
-	const packageInfo = parsePackageSize(ndcInfo);
+	const packageInfo = parsePackageSize(ndcInfo, targetUnit, dispenseAt);
 	if (!packageInfo || packageInfo.quantity <= 0) {
 		return null;
 	}
@@ -165,24 +212,31 @@ function generateSinglePackSelection(
 		matchScore: 0, // Will be calculated
 		packageDescription: ndcInfo.packageDescription,
 		manufacturer: ndcInfo.manufacturer,
+		...(parsed.packagingType && { packagingType: parsed.packagingType }),
+		...productFields(ndcInfo),
 	};
 
 	// Calculate match score with unit awareness
-	selection.matchScore = calculateMatchScore(selection, targetQuantity, targetUnit, parsed);
+	selection.scoreBreakdown = calculateMatchScore(selection, targetQuantity, targetUnit, parsed);
+	selection.matchScore = sumScore(selection.scoreBreakdown);
 
 	return selection;
 }
 
 /**
  * Generates multi-pack selection for an NDC.
+ * Rounds up to the packages that cover the target, or down to the packages that fit in it
+ * (payers that only pay for whole packages without overfill).
  */
 function generateMultiPackSelection(
 	ndcInfo: NdcInfo,
 	targetQuantity: number,
 	targetUnit: string,
-	maxPackages: number = 10
+	maxPackages: number = 10,
+	rounding: 'up' | 'down' = 'up',
+	dispenseAt?: string
 ): NdcSelection | null {
-	const packageInfo = parsePackageSize(ndcInfo);
+	const packageInfo = parsePackageSize(ndcInfo, targetUnit, dispenseAt);
 	if (!packageInfo || packageInfo.quantity <= 0) {
 		return null;
 	}
@@ -208,16 +262,22 @@ function generateMultiPackSelection(
 		}
 	}
 
-	const packageCount = Math.ceil(adjustedTargetQuantity / packageSize);
+	const packageCount =
+		rounding === 'down'
+			? Math.floor(adjustedTargetQuantity / packageSize)
+			: Math.ceil(adjustedTargetQuantity / packageSize);
 	
-	// Skip if too many packages needed
-	if (packageCount > maxPackages) {
+	// Skip if too many packages needed (or, rounding down, one package is already too much).
+	// Unit-dose packages are dispensed dose by dose, so any count is fine.
+	const packageLimit = parsed.packagingType === 'unit_dose' ? Infinity : maxPackages;
+	if (packageCount > packageLimit || packageCount === 0) {
 		return null;
 	}
 
 	const totalQuantity = packageCount * packageSize;
-	const overfill = totalQuantity - adjustedTargetQuantity; // Always >= 0 for multi-pack
-	const underfill = 0; // Multi-pack always meets or exceeds target
+	// Rounding up always meets or exceeds the target; rounding down never does
+	const overfill = Math.max(0, totalQuantity - adjustedTargetQuantity);
+	const underfill = Math.max(0, adjustedTargetQuantity - totalQuantity);
 
 	const selection: NdcSelection = {
 		ndc: ndcInfo.ndc,
@@ -229,14 +289,205 @@ function generateMultiPackSelection(
 		matchScore: 0, // Will be calculated
 		packageDescription: ndcInfo.packageDescription,
 		manufacturer: ndcInfo.manufacturer,
+		...(parsed.packagingType && { packagingType: parsed.packagingType }),
+		...productFields(ndcInfo),
 	};
 
 	// Calculate match score with unit awareness (use original targetQuantity for scoring)
-	selection.matchScore = calculateMatchScore(selection, targetQuantity, targetUnit, parsed);
+	selection.scoreBreakdown = calculateMatchScore(selection, targetQuantity, targetUnit, parsed);
+	selection.matchScore = sumScore(selection.scoreBreakdown);
 
 	return selection;
 }
 
+/** Most packages a multi-NDC fill may combine */
+const MAX_COMBINATION_PACKAGES = 10;
+
+/** Score deducted per package beyond the first in a multi-NDC fill */
+const COMBINATION_PACKAGE_PENALTY = 1;
+
+/** Score deducted per NDC beyond the first in a multi-NDC fill */
+const COMBINATION_NDC_PENALTY = 2;
+
+/**
+ * Package available to a multi-NDC fill, sized in the target unit
+ */
+interface CombinationItem {
+	ndcInfo: NdcInfo;
+	size: number;
+	packagingType?: PackagingType;
+}
+
+/**
+ * Package counts per item (parallel to the items) and their total
+ */
+interface Combination {
+	counts: number[];
+	total: number;
+}
+
+function roundQuantity(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Product NDC (labeler + product) a package NDC belongs to: same product, strength and form
+ */
+function productNdc(ndc: string): string {
+	const normalized = normalizeNdc(ndc);
+	return normalized ? normalized.slice(0, 10) : ndc.split('-').slice(0, 2).join('-');
+}
+
+/**
+ * Orders combinations: least waste, then fewest packages, then fewest distinct NDCs
+ */
+function compareCombinations(a: Combination, b: Combination): number {
+	const packages = (combination: Combination) => combination.counts.reduce((sum, count) => sum + count, 0);
+	const distinct = (combination: Combination) => combination.counts.filter((count) => count > 0).length;
+	return a.total - b.total || packages(a) - packages(b) || distinct(a) - distinct(b);
+}
+
+/**
+ * Bounded knapsack over package sizes: the cheapest combination covering the target.
+ * Items are searched largest first with each count bounded by what is still needed and the
+ * package cap, stopping a branch as soon as it covers the target (more packages only add waste).
+ * @param items - Packages, largest first
+ * @param targetQuantity - Quantity to cover, in the items' unit
+ * @param maxPackages - Most packages in one fill
+ * @returns Best covering combination, or null when none fits in maxPackages
+ */
+function findBestCombination(
+	items: CombinationItem[],
+	targetQuantity: number,
+	maxPackages: number
+): Combination | null {
+	let best = null as Combination | null;
+	const counts = items.map(() => 0);
+
+	const search = (index: number, total: number, packages: number) => {
+		if (roundQuantity(total) >= targetQuantity) {
+			const candidate = { counts: [...counts], total: roundQuantity(total) };
+			if (!best || compareCombinations(candidate, best) < 0) {
+				best = candidate;
+			}
+			return;
+		}
+		if (index >= items.length || packages >= maxPackages) {
+			return;
+		}
+
+		const { size } = items[index];
+		const needed = Math.ceil(roundQuantity((targetQuantity - total) / size));
+		for (let count = Math.min(needed, maxPackages - packages); count >= 0; count--) {
+			counts[index] = count;
+			search(index + 1, total + count * size, packages + count);
+		}
+		counts[index] = 0;
+	};
+
+	search(0, 0, 0);
+	return best;
+}
+
+/**
+ * Generates multi-NDC selections: per product, the package-size mix that covers the target
+ * with the least waste (e.g., 1 × 90 + 1 × 30 for 120 tablets).
+ * Only mixes of two or more NDCs are returned; single-NDC fills come from the multi-pack selections.
+ */
+function generateCombinationSelections(
+	ndcList: NdcInfo[],
+	targetQuantity: number,
+	targetUnit: string,
+	dispenseAt?: string
+): NdcSelection[] {
+	// Group compatible packages by product, sized in the target unit (one NDC per size)
+	const products = new Map<string, CombinationItem[]>();
+	for (const ndcInfo of ndcList) {
+		const packageInfo = parsePackageSize(ndcInfo, targetUnit, dispenseAt);
+		if (!packageInfo || packageInfo.quantity <= 0) {
+			continue;
+		}
+		const unitMatch = normalizeUnitForMatching(packageInfo.parsed.unit, targetUnit);
+		if (!unitMatch.canMatch) {
+			continue;
+		}
+		const size = unitMatch.conversionNeeded
+			? convertLiquidVolume(packageInfo.quantity, packageInfo.parsed.unit, targetUnit)?.converted
+			: packageInfo.quantity;
+		if (!size) {
+			continue;
+		}
+
+		const product = productNdc(ndcInfo.ndc);
+		const items = products.get(product) ?? [];
+		if (!items.some((item) => item.size === size)) {
+			items.push({ ndcInfo, size, packagingType: packageInfo.parsed.packagingType });
+		}
+		products.set(product, items);
+	}
+
+	const selections: NdcSelection[] = [];
+	for (const [product, items] of products) {
+		if (items.length < 2) {
+			continue;
+		}
+		items.sort((a, b) => b.size - a.size);
+
+		const combination = findBestCombination(items, targetQuantity, MAX_COMBINATION_PACKAGES);
+		const components: NdcSelectionComponent[] = (combination?.counts ?? [])
+			.map((count, index) => ({ count, item: items[index] }))
+			.filter(({ count }) => count > 0)
+			.map(({ count, item }) => ({
+				ndc: item.ndcInfo.ndc,
+				packageSize: item.size,
+				packageCount: count,
+				packageDescription: item.ndcInfo.packageDescription,
+				manufacturer: item.ndcInfo.manufacturer,
+			}));
+		if (!combination || components.length < 2) {
+			continue;
+		}
+
+		const packageCount = components.reduce((sum, component) => sum + component.packageCount, 0);
+		const packagingTypes = new Set(
+			(combination.counts ?? []).flatMap((count, index) => (count > 0 ? [items[index].packagingType] : []))
+		);
+		const [packagingType] = packagingTypes.size === 1 ? packagingTypes : [undefined];
+		const selection: NdcSelection = {
+			ndc: components[0].ndc,
+			packageSize: components[0].packageSize,
+			packageCount,
+			totalQuantity: combination.total,
+			overfill: roundQuantity(combination.total - targetQuantity),
+			underfill: 0,
+			matchScore: 0,
+			packageDescription: components[0].packageDescription,
+			manufacturer: components[0].manufacturer,
+			components,
+			...(packagingType && { packagingType }),
+			...productFields(items[0].ndcInfo),  // Components share a product NDC, so one product
+		};
+
+		// Scored on waste like a single package, less a little per extra package and extra NDC
+		selection.scoreBreakdown = [
+			...calculateMatchScore({ ...selection, packageCount: 1 }, targetQuantity, targetUnit),
+			{ label: `${packageCount - 1} extra package${packageCount > 2 ? 's' : ''}`, points: -(packageCount - 1) * COMBINATION_PACKAGE_PENALTY },
+			{ label: `${components.length} NDCs mixed`, points: -(components.length - 1) * COMBINATION_NDC_PENALTY },
+		];
+		selection.matchScore = sumScore(selection.scoreBreakdown);
+
+		logger.debug('Multi-NDC combination found', undefined, {
+			product,
+			components: components.map((component) => `${component.packageCount} × ${component.packageSize}`),
+			totalQuantity: selection.totalQuantity,
+			matchScore: selection.matchScore,
+		});
+		selections.push(selection);
+	}
+
+	return selections;
+}
+
 /**
  * Selects optimal NDCs based on target quantity.
  * @param ndcList - List of NDC information
@@ -244,14 +495,20 @@ function generateMultiPackSelection(
  * @param targetUnit - Target unit (e.g., 'tablet', 'mL', 'unit', 'actuation')
  * @param maxResults - Maximum number of results to return (default: 5)
  * @param preferredNdc - Optional NDC to prioritize (e.g., user-provided input NDC)
- * @returns Array of NDC selections ranked by match score
+ * @param payerProfile - Optional payer plan: candidates breaking its overfill/rounding rules are dropped
+ * (all are kept when none comply, so generateWarnings can flag the violation)
+ * @param ranking - Optional ranking strategy, whose score lines are added to each candidate's fill match,
+ * and the container to dispense from nested packages (ranking.dispenseAt)
+ * @returns Array of NDC selections ranked by match score, each with its scoreBreakdown
  */
 export function selectOptimal(
 	ndcList: NdcInfo[],
 	targetQuantity: number,
 	targetUnit: string,
 	maxResults: number = 5,
-	preferredNdc?: string
+	preferredNdc?: string,
+	payerProfile?: PayerProfile,
+	ranking: RankingOptions = {}
 ): NdcSelection[] {
 	console.error(`\n🎯 [NDC SELECTOR] START - Target: ${targetQuantity} ${targetUnit}, NDCs: ${ndcList.length}, Preferred: ${preferredNdc || 'none'}`);
 	
@@ -266,8 +523,10 @@ export function selectOptimal(
 		return [];
 	}
 
-	const candidates: NdcSelection[] = [];
+	let candidates: NdcSelection[] = [];
 	const inactiveNdcs: NdcInfo[] = [];
+	// Topical tubes/jars can't be topped up: gram targets only take packages that cover the full amount
+	const requiresFullCoverage = isMassUnit(targetUnit);
 
 	console.error(`📋 [NDC SELECTOR] Processing ${ndcList.length} NDCs:`);
 	console.error(`   Sample NDCs: ${ndcList.slice(0, 3).map(n => n.ndc).join(', ')}`);
@@ -283,8 +542,10 @@ export function selectOptimal(
 		}
 
 			// Generate single-pack selection
-		const singlePack = generateSinglePackSelection(ndcInfo, targetQuantity, targetUnit);
-		if (singlePack) {
+		const singlePack = generateSinglePackSelection(ndcInfo, targetQuantity, targetUnit, ranking.dispenseAt);
+		if (singlePack && requiresFullCoverage && singlePack.underfill > 0) {
+			console.error(`   ⏭️ [NDC SELECTOR] Skipping underfilled tube ${ndcInfo.ndc} (${singlePack.totalQuantity}${targetUnit} < ${targetQuantity}${targetUnit})`);
+		} else if (singlePack) {
 			console.error(`   📦 [NDC SELECTOR] Single-pack candidate: ${ndcInfo.ndc} → ${singlePack.totalQuantity}${targetUnit} (${singlePack.packageCount}×${singlePack.packageSize}, score=${singlePack.matchScore})`);
 			candidates.push(singlePack);
 		} else {
@@ -292,16 +553,34 @@ export function selectOptimal(
 		}
 
 		// Generate multi-pack selection
-		const multiPack = generateMultiPackSelection(ndcInfo, targetQuantity, targetUnit);
+		const multiPack = generateMultiPackSelection(ndcInfo, targetQuantity, targetUnit, 10, 'up', ranking.dispenseAt);
 		if (multiPack) {
 			console.error(`   📦 [NDC SELECTOR] Multi-pack candidate: ${ndcInfo.ndc} → ${multiPack.totalQuantity}${targetUnit} (${multiPack.packageCount}×${multiPack.packageSize}, score=${multiPack.matchScore})`);
 			candidates.push(multiPack);
 		} else {
 			console.error(`   ❌ [NDC SELECTOR] Multi-pack failed for ${ndcInfo.ndc} (package: ${ndcInfo.packageDescription})`);
 		}
+
+		// Payers that round down to whole packages: the most packages that fit in the target
+		if (payerProfile?.packageRounding === 'down' && !requiresFullCoverage) {
+			const roundedDown = generateMultiPackSelection(ndcInfo, targetQuantity, targetUnit, 10, 'down', ranking.dispenseAt);
+			if (roundedDown && (roundedDown.packageCount ?? 1) > 1 && roundedDown.packageCount !== multiPack?.packageCount) {
+				candidates.push(roundedDown);
+			}
+		}
 		
 		processedCount++;
 	}
+
+	// Mix package sizes of the same product (e.g., 90 + 30 for 120)
+	candidates.push(
+		...generateCombinationSelections(
+			ndcList.filter((ndcInfo) => ndcInfo.active),
+			targetQuantity,
+			targetUnit,
+			ranking.dispenseAt
+		)
+	);
 	
 	console.error(`📊 [NDC SELECTOR] Generated ${candidates.length} candidates from ${processedCount} active NDCs (${inactiveNdcs.length} inactive)`);
 	if (candidates.length === 0 && processedCount > 0) {
@@ -317,6 +596,53 @@ export function selectOptimal(
 		});
 	}
 
+	// Keep the candidates the payer accepts, if any
+	if (payerProfile) {
+		const accepted = candidates.filter(
+			(candidate) => checkPayerSelection(candidate, targetQuantity, payerProfile).length === 0
+		);
+		logger.debug('Applied payer profile to NDC candidates', undefined, {
+			payerProfile: payerProfile.id,
+			candidates: candidates.length,
+			accepted: accepted.length,
+		});
+		if (accepted.length > 0) {
+			candidates = accepted;
+		}
+	}
+
+	// Packaging preference: keep only that packaging when required (none left means no suitable NDC),
+	// otherwise rank it first
+	const { packaging } = ranking;
+	if (packaging) {
+		if (ranking.requirePackaging) {
+			candidates = candidates.filter((candidate) => candidate.packagingType === packaging);
+		} else {
+			for (const candidate of candidates.filter((candidate) => candidate.packagingType === packaging)) {
+				candidate.scoreBreakdown = [
+					...(candidate.scoreBreakdown ?? []),
+					{ label: `Preferred packaging (${PACKAGING_TYPE_LABELS[packaging]})`, points: PACKAGING_PREFERENCE_BONUS },
+				];
+				candidate.matchScore = sumScore(candidate.scoreBreakdown);
+			}
+		}
+		logger.debug('Applied packaging preference to NDC candidates', undefined, {
+			packaging,
+			required: !!ranking.requirePackaging,
+			matching: candidates.filter((candidate) => candidate.packagingType === packaging).length,
+		});
+	}
+
+	// Apply the ranking strategy on top of the fill match
+	const strategy = RANKING_STRATEGIES[ranking.strategy ?? DEFAULT_RANKING_STRATEGY];
+	for (const candidate of candidates) {
+		const adjustments = strategy.adjust(candidate, { targetQuantity, labeler: ranking.labeler });
+		if (adjustments.length > 0) {
+			candidate.scoreBreakdown = [...(candidate.scoreBreakdown ?? []), ...adjustments];
+			candidate.matchScore = sumScore(candidate.scoreBreakdown);
+		}
+	}
+
 	// If a preferred NDC is specified, boost its score significantly
 	// This ensures user-specified NDCs are strongly prioritized
 	if (preferredNdc && candidates.length > 0) {
@@ -339,6 +665,7 @@ export function selectOptimal(
 				const originalScore = candidate.matchScore;
 				// Boost by 20 points to ensure it's preferred over other similar options
 				// Remove score cap to allow scores > 100 for preferred NDCs
+				candidate.scoreBreakdown = [...(candidate.scoreBreakdown ?? []), { label: 'Requested NDC', points: 20 }];
 				candidate.matchScore = candidate.matchScore + 20;
 				boostedCount++;
 				console.error(`✅ [NDC SELECTOR] Boosted preferred NDC "${candidate.ndc}": ${originalScore} → ${candidate.matchScore}`);
@@ -368,6 +695,8 @@ export function selectOptimal(
 
 	logger.debug(`Selected ${results.length} optimal NDCs from ${candidates.length} candidates`, {
 		targetQuantity,
+		rankingStrategy: strategy.id,
+		packaging,
 		topScore: results[0]?.matchScore,
 	});
 
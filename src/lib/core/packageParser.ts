@@ -3,14 +3,19 @@
  * Parses FDA package descriptions to extract quantity information
  */
 
+import type { Concentration, InjectableDevice } from '../types/sig';
+import type { PackagingType } from '../types/ndc';
+import { convertVolumeToDrops } from '../utils/unitConverter';
+
 /**
  * Metadata for special dosage forms
  */
 export interface PackageMetadata {
-	dosageForm?: 'liquid' | 'insulin' | 'inhaler';
+	dosageForm?: 'liquid' | 'insulin' | 'inhaler' | 'drops' | 'transdermal';
 	insulinStrength?: number;  // U-100 = 100, U-200 = 200
 	volume?: number;           // Volume in mL/L
 	volumeUnit?: string;       // 'mL' or 'L'
+	capacity?: number;         // Inhalers: actuations per inhaler/canister (one dispensable device)
 	concentration?: string;    // e.g., "5mg/mL"
 }
 
@@ -22,12 +27,60 @@ export interface ParsedPackage {
 	unit: string;
 	packageCount?: number;
 	totalQuantity: number;
+	packagingType?: PackagingType;  // Innermost container (see detectPackagingType)
+	hierarchy?: PackageLevel;       // Containment tree of nested descriptions ("... / ... / ..."); for kits, the levels before the products
+	kitComponents?: KitComponent[]; // Kits (unit 'KIT'): the products packed in one kit
 	// Special dosage form metadata (optional for backward compatibility)
 	metadata?: PackageMetadata;
 }
 
+/**
+ * One level of a nested package description, outermost first
+ * @example
+ * // "2 CARTON in 1 CASE / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK"
+ * // CASE: 2 CARTON (200) → CARTON: 10 BLISTER PACK (100) → BLISTER PACK: 10 TABLET (10)
+ */
+export interface PackageLevel {
+	container: string;        // e.g., 'CASE', 'CARTON', 'BLISTER PACK' ('' when the description names none)
+	count: number;            // Items of the next level in per container (innermost: drug units)
+	content: string;          // What count counts: 'CARTON', 'BLISTER PACK', or the drug unit ('TABLET', 'mL')
+	totalQuantity: number;    // Drug units in one container at this level
+	contains?: PackageLevel;  // Next level in; absent at the innermost dispensable unit
+}
+
+/**
+ * One product packed in a kit
+ * @example
+ * // "1 KIT in 1 CARTON * 14 TABLET in 1 BLISTER PACK * 7 CAPSULE in 1 BLISTER PACK"
+ * // → { quantity: 14, unit: 'TABLET', ... }, { quantity: 7, unit: 'CAPSULE', ... }
+ */
+export interface KitComponent {
+	quantity: number;     // Drug units of this product in one kit (all nested levels multiplied)
+	unit: string;         // e.g., 'TABLET', 'CAPSULE', 'mL'
+	description: string;  // This product's part of the kit description
+}
+
+/**
+ * Options for parsePackageDescription
+ */
+export interface PackageParseOptions {
+	dispenseAt?: string;  // Container dispensed from a nested package (e.g., 'CARTON', 'CASE'); default: the innermost
+}
+
 const NUMBER_PATTERN = '(?:\\d+(?:\\.\\d+)?|\\.\\d+)';
 
+/**
+ * Container names by packaging type, checked in order against the innermost container
+ */
+const CONTAINER_PATTERNS: Array<[PackagingType, RegExp]> = [
+	['unit_dose', /\bunit[- ]dose\b/i],
+	['blister', /\b(?:blister|dose\s+pack)\b/i],
+	['pen', /\b(?:pen|syringe|injector|cartridge)\b/i],
+	['canister', /\b(?:canister|inhaler|aerosol)\b/i],
+	['vial', /\b(?:vial|ampule|ampoule)\b/i],
+	['bottle', /\b(?:bottle|jar)\b/i],
+];
+
 /**
  * Parses package description to extract quantity information
  * @param description - Package description from FDA API
@@ -38,8 +91,53 @@ const NUMBER_PATTERN = '(?:\\d+(?:\\.\\d+)?|\\.\\d+)';
  * 
  * parsePackageDescription('3 x 30 TABLET in 1 PACKAGE')
  * // Returns { quantity: 30, unit: 'TABLET', packageCount: 3, totalQuantity: 90 }
+ *
+ * parsePackageDescription('2 CARTON in 1 CASE / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK', { dispenseAt: 'CARTON' })
+ * // Returns { quantity: 100, unit: 'TABLET', packageCount: 2, totalQuantity: 200, hierarchy: {...}, ... }
  */
-export function parsePackageDescription(description: string): ParsedPackage | null {
+export function parsePackageDescription(description: string, options: PackageParseOptions = {}): ParsedPackage | null {
+	const parsed = parsePackageQuantity(description, options.dispenseAt);
+	if (!parsed) {
+		return null;
+	}
+
+	const packagingType = detectPackagingType(description);
+	return packagingType ? { ...parsed, packagingType } : parsed;
+}
+
+/**
+ * Detects how a package is presented from the container that directly holds the drug
+ * (the last level of the description chain). Kits win wherever they appear in the chain.
+ * @param description - Package description from FDA API
+ * @returns Packaging type, or undefined when the container is not recognized (e.g., pouch, tube)
+ * @example
+ * detectPackagingType('100 BLISTER PACK in 1 CARTON / 1 TABLET in 1 BLISTER PACK') // Returns 'unit_dose'
+ * detectPackagingType('1 BLISTER PACK in 1 CARTON / 21 TABLET in 1 BLISTER PACK') // Returns 'blister'
+ * detectPackagingType('30 TABLET in 1 BOTTLE') // Returns 'bottle'
+ */
+export function detectPackagingType(description: string): PackagingType | undefined {
+	if (!description || typeof description !== 'string') {
+		return undefined;
+	}
+	if (/\bkit\b/i.test(description)) {
+		return 'kit';
+	}
+
+	const inner = (description.split(' / ').pop() ?? '').replace(/\s*\([^)]+\)\s*$/, '').trim();
+	const match = inner.match(new RegExp(`^(${NUMBER_PATTERN})\\b.*\\bin\\s+\\d+\\s+(.+)$`, 'i'));
+	const container = match?.[2] ?? inner;
+
+	// One dose per blister is unit-dose packaging
+	if (match?.[1] === '1' && /\bblister\b/i.test(container)) {
+		return 'unit_dose';
+	}
+	return CONTAINER_PATTERNS.find(([, pattern]) => pattern.test(container))?.[0];
+}
+
+/**
+ * Quantity part of parsePackageDescription
+ */
+function parsePackageQuantity(description: string, dispenseAt?: string): ParsedPackage | null {
 	if (!description || typeof description !== 'string') {
 		return null;
 	}
@@ -49,36 +147,36 @@ export function parsePackageDescription(description: string): ParsedPackage | nu
 		return null;
 	}
 
-	// Handle multi-pack format: "1 BLISTER PACK in 1 CARTON ... / 21 TABLET in 1 BLISTER PACK"
-	// Extract the part after the "/" which contains the actual quantity
+	// Kits list their products after " * ": one kit is the dispensable unit
+	if (/\s\*\s/.test(trimmed)) {
+		const kitResult = parseKitFormat(trimmed);
+		if (kitResult) {
+			return withHierarchy(kitResult, trimmed.split(/\s\*\s/)[0]);
+		}
+	}
+
+	// Patches are often pouched individually inside the carton - count patches across pouches
+	const patchResult = parsePatchFormat(trimmed);
+	if (patchResult) {
+		return withHierarchy(patchResult, trimmed);
+	}
+
+	// Nested packages: "2 CARTON in 1 CASE / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK"
 	if (trimmed.includes(' / ')) {
-		const parts = trimmed.split(' / ');
-		if (parts.length >= 2) {
-			// Parse the second part (after /) which has the actual quantity
-			const innerPart = parts[1].trim();
-			const innerResult = parseSimpleFormat(innerPart);
-			if (innerResult) {
-				// Try to extract package count from first part
-				const outerPart = parts[0].trim();
-				const packageCountMatch = outerPart.match(/(\d+)\s+(?:BLISTER PACK|CARTON|VIAL|BOTTLE)/i);
-				if (packageCountMatch) {
-					const packageCount = parseInt(packageCountMatch[1], 10);
-					// Only add packageCount if it's > 1 (actual multi-pack)
-					if (packageCount > 1) {
-						return {
-							quantity: innerResult.quantity,
-							unit: innerResult.unit,
-							packageCount,
-							totalQuantity: innerResult.quantity * packageCount
-						};
-					}
-				}
-				return innerResult;
-			}
+		const segments = splitPackageLevels(trimmed);
+		const innerResult = parseInnerLevel(segments[segments.length - 1]);
+		if (innerResult) {
+			const hierarchy = parseLevels(segments);
+			return hierarchy ? dispenseFromHierarchy(hierarchy, innerResult, dispenseAt) : innerResult;
 		}
 	}
 
-	// Try special format parsers first (liquids, insulin, inhalers)
+	// Try special format parsers first (drops, liquids, insulin, inhalers)
+	const dropperResult = parseDropperFormat(trimmed);
+	if (dropperResult) {
+		return dropperResult;
+	}
+
 	const liquidResult = parseLiquidFormat(trimmed);
 	if (liquidResult) {
 		return liquidResult;
@@ -98,6 +196,98 @@ export function parsePackageDescription(description: string): ParsedPackage | nu
 	return parseSimpleFormat(trimmed);
 }
 
+/**
+ * Parses the containment tree of a nested package description
+ * @param description - Package description from FDA API (levels separated by " / ", outermost first)
+ * @returns Outermost level, or null if a level cannot be read
+ * @example
+ * parsePackageHierarchy('2 CARTON in 1 CASE / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK')
+ * // Returns { container: 'CASE', count: 2, content: 'CARTON', totalQuantity: 200, contains: { container: 'CARTON', ... } }
+ */
+export function parsePackageHierarchy(description: string): PackageLevel | null {
+	if (!description || typeof description !== 'string' || !description.trim()) {
+		return null;
+	}
+	return parseLevels(splitPackageLevels(description.trim()));
+}
+
+/**
+ * Adds the levels of a nested kit or patch package, which keeps its own dispensed quantity
+ */
+function withHierarchy(parsed: ParsedPackage, description: string): ParsedPackage {
+	const hierarchy = description.includes(' / ') ? parsePackageHierarchy(description) : null;
+	return hierarchy ? { ...parsed, hierarchy } : parsed;
+}
+
+/**
+ * Splits a description into its levels, dropping the NDC each level may end with
+ */
+function splitPackageLevels(description: string): string[] {
+	return description.split(' / ').map((segment) => segment.replace(/\s*\([^)]+\)\s*$/, '').trim());
+}
+
+/**
+ * Drug quantity in the innermost level (inhalers keep their capacity, dropper bottles count drops)
+ */
+function parseInnerLevel(segment: string): ParsedPackage | null {
+	const inhaler = /\b(?:inhaler|canister)\b/i.test(segment) ? parseInhalerFormat(segment) : null;
+	return parseDropperFormat(segment) ?? inhaler ?? parseSimpleFormat(segment);
+}
+
+/**
+ * Parses levels (outermost first) recursively: each level's total is its count times the total of the level inside
+ */
+function parseLevels(segments: string[]): PackageLevel | null {
+	const [segment, ...innerSegments] = segments;
+	if (!segment) {
+		return null;
+	}
+	const container = segment.match(/\bin\s+\d+\s+(.+)$/i)?.[1].trim() ?? '';
+
+	if (innerSegments.length === 0) {
+		const inner = parseInnerLevel(segment);
+		return inner ? { container, count: inner.quantity, content: inner.unit, totalQuantity: inner.quantity } : null;
+	}
+
+	const contains = parseLevels(innerSegments);
+	const match = segment.match(new RegExp(`^(${NUMBER_PATTERN})\\s+(.+?)\\s+in\\s+\\d+\\s`, 'i'));
+	if (!contains || !match) {
+		return null;
+	}
+	const count = parseFloat(match[1]);
+	return { container, count, content: match[2].trim(), totalQuantity: count * contains.totalQuantity, contains };
+}
+
+/**
+ * Package quantity when dispensing one level of a nested package: the level's total per package,
+ * with packageCount the number of those packages in the whole description
+ * @param dispenseAt - Container to dispense (e.g., 'CARTON'); the innermost level when absent or not found
+ */
+function dispenseFromHierarchy(hierarchy: PackageLevel, inner: ParsedPackage, dispenseAt?: string): ParsedPackage {
+	const levels: PackageLevel[] = [];
+	for (let level: PackageLevel | undefined = hierarchy; level; level = level.contains) {
+		levels.push(level);
+	}
+
+	const wanted = dispenseAt?.trim().toUpperCase();
+	const requested = wanted
+		? levels.findIndex((level) => level.container.split(',')[0].trim().toUpperCase() === wanted)
+		: -1;
+	const index = requested >= 0 ? requested : levels.length - 1;
+	const packageCount = levels.slice(0, index).reduce((product, level) => product * level.count, 1);
+	const innermost = index === levels.length - 1;
+
+	return {
+		quantity: levels[index].totalQuantity,
+		unit: inner.unit,
+		...(packageCount > 1 && { packageCount }),
+		totalQuantity: hierarchy.totalQuantity,
+		hierarchy,
+		// Device metadata (inhaler capacity, pen volume) describes one innermost unit
+		...(innermost && inner.metadata && { metadata: inner.metadata }),
+	};
+}
+
 /**
  * Parses simple package description formats
  */
@@ -220,6 +410,85 @@ function parseLiquidFormat(description: string): ParsedPackage | null {
 	return null;
 }
 
+/**
+ * Parses dropper bottle formats (ophthalmic/otic solutions) into drops
+ * Examples: "5 mL in 1 BOTTLE, DROPPER" (= 100 drops at 20 drops/mL), "15 mL in 1 BOTTLE, DROPPER"
+ */
+function parseDropperFormat(description: string): ParsedPackage | null {
+	const pattern = new RegExp(`(${NUMBER_PATTERN})\\s*(ml|milliliters?)\\s+in\\s+\\d+\\s+bottle\\s*,\\s*dropper`, 'i');
+	const match = description.match(pattern);
+	if (match) {
+		const volume = parseFloat(match[1]);
+		const drops = convertVolumeToDrops(volume).converted;
+
+		return {
+			quantity: drops,
+			unit: 'DROP',
+			totalQuantity: drops,
+			metadata: {
+				dosageForm: 'drops',
+				volume,
+				volumeUnit: 'mL',
+			},
+		};
+	}
+	return null;
+}
+
+/**
+ * Parses kit formats, where the kit itself comes first and each product follows " * "
+ * Examples: "1 KIT in 1 CARTON * 14 TABLET in 1 BLISTER PACK * 7 CAPSULE in 1 BLISTER PACK",
+ * "1 KIT in 1 KIT * 1 BLISTER PACK in 1 CARTON / 28 TABLET in 1 BLISTER PACK"
+ */
+function parseKitFormat(description: string): ParsedPackage | null {
+	const [kitPart, ...productParts] = description.split(/\s+\*\s+/);
+	const kitMatch = kitPart.match(/^(\d+)\s+kits?\b/i);
+	if (!kitMatch || productParts.length === 0) {
+		return null;
+	}
+
+	const kitComponents = productParts.flatMap((part): KitComponent[] => {
+		const product = parsePackageQuantity(part.trim());
+		return product ? [{ quantity: product.totalQuantity, unit: product.unit, description: part.trim() }] : [];
+	});
+	const kitCount = parseInt(kitMatch[1], 10);
+
+	return {
+		quantity: 1,
+		unit: 'KIT',
+		...(kitCount > 1 && { packageCount: kitCount }),
+		totalQuantity: kitCount,
+		kitComponents,
+	};
+}
+
+/**
+ * Parses transdermal patch formats
+ * Examples: "4 PATCH in 1 CARTON", "8 POUCH in 1 CARTON / 1 PATCH in 1 POUCH" (= 8 patches)
+ */
+function parsePatchFormat(description: string): ParsedPackage | null {
+	const patchMatch = description.match(/(\d+)\s+patch(?:es)?\b(?:[^/]*?\s+in\s+\d+\s+(\w+))?/i);
+	if (!patchMatch) {
+		return null;
+	}
+
+	const patchesPerContainer = parseInt(patchMatch[1], 10);
+	// Pouched patches: multiply by the number of pouches in the carton
+	const pouchMatch = description.match(/(\d+)\s+pouch(?:es)?\s+in\s+\d+\s+(?:carton|box|kit)/i);
+	const isPouched = patchMatch[2]?.toLowerCase().startsWith('pouch');
+	const pouchCount = pouchMatch && isPouched ? parseInt(pouchMatch[1], 10) : 1;
+	const totalPatches = patchesPerContainer * pouchCount;
+
+	return {
+		quantity: totalPatches,
+		unit: 'PATCH',
+		totalQuantity: totalPatches,
+		metadata: {
+			dosageForm: 'transdermal',
+		},
+	};
+}
+
 /**
  * Parses insulin package formats
  * Examples: "10 mL in 1 VIAL" (U-100 = 1000 units), "3 mL in 1 CARTRIDGE" (U-100 = 300 units)
@@ -274,24 +543,26 @@ function parseInsulinFormat(description: string): ParsedPackage | null {
 
 /**
  * Parses inhaler package formats
- * Examples: "72 SPRAY, METERED in 1 BOTTLE, SPRAY", "200 ACTUATION in 1 CANISTER"
+ * Examples: "72 SPRAY, METERED in 1 BOTTLE, SPRAY", "200 ACTUATION in 1 CANISTER", "200 ACTUATION in 1 INHALER"
  */
 function parseInhalerFormat(description: string): ParsedPackage | null {
 	// Patterns for inhalers
 	const patterns = [
-		/(\d+)\s+(?:spray|actuation|puff)(?:\s*,\s*metered)?\s+in\s+\d+\s+(?:bottle|canister|inhaler|device)/i,
+		/(\d+)\s+(?:spray|actuation|puff|inhalation)(?:\s*,\s*metered)?\s+in\s+\d+\s+(?:bottle|canister|inhaler|device)/i,
 		/(\d+)\s+(?:actuations?|puffs?|sprays?)\s+per\s+(?:canister|inhaler|device)/i,
 	];
 
 	for (const pattern of patterns) {
 		const match = description.match(pattern);
 		if (match) {
+			const capacity = parseInt(match[1], 10);
 			return {
-				quantity: parseInt(match[1], 10),
+				quantity: capacity,
 				unit: 'ACTUATION',
-				totalQuantity: parseInt(match[1], 10),
+				totalQuantity: capacity,
 				metadata: {
 					dosageForm: 'inhaler',
+					capacity,
 				},
 			};
 		}
@@ -300,3 +571,62 @@ function parseInhalerFormat(description: string): ParsedPackage | null {
 	return null;
 }
 
+
+/**
+ * Detects the injectable device (pen or vial) and its fill volume from a package description
+ * @param description - Package description from FDA API
+ * @returns Device with volume in mL, or null if the package is not a pen/vial
+ * @example
+ * parseInjectableDevice('5 SYRINGE in 1 CARTON / 3 mL in 1 SYRINGE') // Returns { type: 'pen', volume: 3 }
+ * parseInjectableDevice('10 mL in 1 VIAL, MULTI-DOSE') // Returns { type: 'vial', volume: 10 }
+ */
+export function parseInjectableDevice(description: string): InjectableDevice | null {
+	if (!description || typeof description !== 'string') {
+		return null;
+	}
+
+	const match = description.match(
+		new RegExp(`(${NUMBER_PATTERN})\\s*(?:ml|milliliters?)\\s+in\\s+\\d+\\s+(syringe|injector|pen|cartridge|vial)`, 'i')
+	);
+	if (!match) {
+		return null;
+	}
+
+	const volume = parseFloat(match[1]);
+	const type = match[2].toLowerCase() === 'vial' ? 'vial' : 'pen';
+	return volume > 0 ? { type, volume } : null;
+}
+
+/**
+ * Parses an FDA product strength into a liquid concentration
+ * @param strength - Strength from FDA active_ingredients (e.g., "250 mg/5mL")
+ * @returns Concentration, or null if the strength is not a per-volume amount (e.g., "10 mg/1" for tablets)
+ * @example
+ * parseStrengthConcentration('250 mg/5mL') // Returns { amount: 250, unit: 'mg', volume: 5, volumeUnit: 'mL' }
+ * parseStrengthConcentration('100 mg/mL') // Returns { amount: 100, unit: 'mg', volume: 1, volumeUnit: 'mL' }
+ */
+export function parseStrengthConcentration(strength: string): Concentration | null {
+	if (!strength || typeof strength !== 'string') {
+		return null;
+	}
+
+	const match = strength.match(
+		new RegExp(`^\\s*(${NUMBER_PATTERN})\\s*(mcg|ug|mg|g)\\s*\\/\\s*(${NUMBER_PATTERN})?\\s*(ml|l)\\b`, 'i')
+	);
+	if (!match) {
+		return null;
+	}
+
+	const amount = parseFloat(match[1]);
+	const volume = match[3] ? parseFloat(match[3]) : 1;
+	if (!(amount > 0) || !(volume > 0)) {
+		return null;
+	}
+
+	return {
+		amount,
+		unit: match[2].toLowerCase(),
+		volume,
+		volumeUnit: match[4].toLowerCase() === 'l' ? 'L' : 'mL',
+	};
+}
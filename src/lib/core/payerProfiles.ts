@@ -0,0 +1,99 @@
+/**
+ * Payer profiles: plan limits (max days' supply, allowed overfill, whole-package rounding)
+ * loaded from constants/payerProfiles.json. Edit the JSON to add or change a plan.
+ */
+
+import type { PayerProfile, PayerViolation } from '../types/payer';
+import type { NdcSelection } from '../types/ndc';
+import profiles from '../constants/payerProfiles.json';
+
+const PACKAGE_ROUNDINGS = ['none', 'up', 'down'];
+
+/**
+ * Checks one JSON entry
+ * @throws Error naming the entry and the field that is wrong
+ */
+function validateProfile(profile: PayerProfile, index: number): PayerProfile {
+	const label = `Payer profile ${profile?.id ?? `#${index + 1}`}`;
+	if (!profile?.id || typeof profile.id !== 'string' || !profile.name) {
+		throw new Error(`${label} needs an id and a name.`);
+	}
+	if (!Number.isInteger(profile.maxDaysSupply) || profile.maxDaysSupply <= 0) {
+		throw new Error(`${label}: maxDaysSupply must be a positive whole number of days.`);
+	}
+	if (typeof profile.maxOverfillPercent !== 'number' || profile.maxOverfillPercent < 0) {
+		throw new Error(`${label}: maxOverfillPercent must be 0 or more.`);
+	}
+	if (!PACKAGE_ROUNDINGS.includes(profile.packageRounding)) {
+		throw new Error(`${label}: packageRounding must be one of: ${PACKAGE_ROUNDINGS.join(', ')}.`);
+	}
+	return profile;
+}
+
+/**
+ * Validates a list of payer profiles (e.g., the JSON config)
+ * @param entries - Parsed JSON array
+ * @returns The profiles
+ * @throws Error when an entry is malformed or an id repeats
+ */
+export function loadPayerProfiles(entries: unknown): PayerProfile[] {
+	if (!Array.isArray(entries)) {
+		throw new Error('Payer profiles must be a JSON array.');
+	}
+	const loaded = entries.map((entry, index) => validateProfile(entry as PayerProfile, index));
+	const duplicate = loaded.find((profile, index) => loaded.findIndex((other) => other.id === profile.id) !== index);
+	if (duplicate) {
+		throw new Error(`Payer profile ${duplicate.id} is defined more than once.`);
+	}
+	return loaded;
+}
+
+/** Configured payer profiles */
+export const PAYER_PROFILES: PayerProfile[] = loadPayerProfiles(profiles);
+
+/**
+ * Looks up a payer profile by id
+ * @param id - Profile id from the request (e.g., 'medicare-102')
+ * @returns The profile, or undefined when no profile has that id
+ */
+export function getPayerProfile(id: string): PayerProfile | undefined {
+	return PAYER_PROFILES.find((profile) => profile.id === id);
+}
+
+/**
+ * Payer rules a package selection breaks (overfill allowance, whole-package rounding)
+ * @param selection - Candidate or recommended selection
+ * @param targetQuantity - Calculated quantity
+ * @param profile - Payer profile
+ * @returns Violations, empty when the selection is acceptable
+ */
+export function checkPayerSelection(
+	selection: NdcSelection,
+	targetQuantity: number,
+	profile: PayerProfile
+): PayerViolation[] {
+	const violations: PayerViolation[] = [];
+
+	if (profile.packageRounding === 'up' && selection.underfill > 0) {
+		violations.push({ profileId: profile.id, rule: 'package_rounding', limit: targetQuantity, actual: selection.totalQuantity });
+	} else if (profile.packageRounding === 'down' && selection.overfill > 0) {
+		violations.push({ profileId: profile.id, rule: 'package_rounding', limit: targetQuantity, actual: selection.totalQuantity });
+	}
+
+	const overfillPercent = Math.round((selection.overfill / targetQuantity) * 1000) / 10;
+	if (profile.packageRounding !== 'down' && overfillPercent > profile.maxOverfillPercent) {
+		violations.push({ profileId: profile.id, rule: 'max_overfill', limit: profile.maxOverfillPercent, actual: overfillPercent });
+	}
+
+	return violations;
+}
+
+/**
+ * Days' supply over the payer's maximum
+ * @returns The violation, or null when the days' supply is allowed
+ */
+export function checkPayerDaysSupply(daysSupply: number, profile: PayerProfile): PayerViolation | null {
+	return daysSupply > profile.maxDaysSupply
+		? { profileId: profile.id, rule: 'max_days_supply', limit: profile.maxDaysSupply, actual: daysSupply }
+		: null;
+}
@@ -3,7 +3,31 @@
  * Calculates total quantity from parsed SIG and days' supply.
  */
 
-import { ParsedSig, QuantityResult } from '../types/sig';
+import type {
+	ParsedSig,
+	QuantityResult,
+	QuantityOptions,
+	PhaseCalculation,
+	DosageRange,
+	DoseRangePolicy,
+	DosingSchedule,
+	InjectableDevice,
+	InsulinCalculation,
+	DispensableUnit,
+	WeightBasedDose,
+	WeightBasedCalculation,
+} from '../types/sig';
+import {
+	DEFAULT_DOSE_RANGE_POLICY,
+	DEFAULT_GRAMS_PER_APPLICATION,
+	DEFAULT_INSULIN_DEVICE,
+	DEFAULT_INSULIN_PRIMING_UNITS,
+	DEFAULT_INSULIN_VIAL_VOLUME,
+	INSULIN_DISCARD_DAYS,
+	DEFAULT_MAX_WEIGHT_BASED_DOSE_MG,
+	MAX_DAYS_SUPPLY,
+} from '../constants/quantityDefaults';
+import { convertDoseMass, convertInsulinUnitsToVolume } from '../utils/unitConverter';
 import { logger } from '../utils/logger';
 
 /**
@@ -17,6 +41,11 @@ function roundQuantity(quantity: number, unit: string): number {
 		return Math.round(quantity);
 	}
 
+	// Patches can't be split → always round up to whole patches
+	if (normalizedUnit === 'patch') {
+		return Math.ceil(quantity);
+	}
+
 	// Liquids (mL, L) → round to 2 decimal places
 	if (normalizedUnit === 'ml' || normalizedUnit === 'l') {
 		return Math.round(quantity * 100) / 100;
@@ -27,52 +56,78 @@ function roundQuantity(quantity: number, unit: string): number {
 }
 
 /**
- * Calculates total quantity from parsed SIG and days' supply.
- * @param parsedSig - Parsed prescription instruction
- * @param daysSupply - Days' supply
- * @returns Quantity result with total, unit, and calculation details
- * @throws Error if inputs are invalid
+ * Sums quantity across the phases of a tapering/multi-step SIG.
+ * Phases are applied in order and capped at daysSupply; an open-ended final phase
+ * fills whatever days remain. Days not covered by any phase are reported, not dosed.
  */
-export function calculate(parsedSig: ParsedSig, daysSupply: number): QuantityResult {
-	// Validate inputs
-	if (!parsedSig) {
-		throw new Error('parsedSig is required');
-	}
+function calculatePhases(
+	parsedSig: ParsedSig,
+	daysSupply: number
+): { total: number; phases: PhaseCalculation[]; remainingDays: number } {
+	const phases: PhaseCalculation[] = [];
+	let remainingDays = daysSupply;
+	let total = 0;
 
-	console.error(`🧮 [QUANTITY CALC] START:`, {
-		parsedSig: {
-			dosage: parsedSig.dosage,
-			frequency: parsedSig.frequency,
-			unit: parsedSig.unit,
-			dosageForm: parsedSig.dosageForm,
-			concentration: parsedSig.concentration
-		},
-		daysSupply
-	});
-	if (typeof daysSupply !== 'number' || daysSupply <= 0) {
-		throw new Error('daysSupply must be a positive number');
-	}
-	if (typeof parsedSig.dosage !== 'number' || parsedSig.dosage <= 0) {
-		throw new Error('parsedSig.dosage must be a positive number');
-	}
-	if (typeof parsedSig.frequency !== 'number' || parsedSig.frequency < 0) {
-		throw new Error('parsedSig.frequency must be a non-negative number');
+	for (const phase of parsedSig.phases ?? []) {
+		if (remainingDays <= 0) {
+			break;
+		}
+		const days = Math.min(phase.durationDays ?? remainingDays, remainingDays);
+		// PRN phases: assume once per day (same as single-phase PRN)
+		const frequency = phase.frequency === 0 ? 1 : phase.frequency;
+		const quantity = phase.dosage * frequency * days;
+
+		phases.push({ dosage: phase.dosage, frequency, days, quantity });
+		total += quantity;
+		remainingDays -= days;
 	}
 
-	// Handle special dosage forms
+	return { total, phases, remainingDays };
+}
+
+/**
+ * Computes the unrounded total for a parsed SIG, handling special dosage forms.
+ * A non-daily schedule's doseCount is the number of administrations as is (not rebuilt from a per-day rate).
+ */
+function computeTotal(
+	parsedSig: ParsedSig,
+	daysSupply: number,
+	doseCount?: number
+): {
+	total: number;
+	unit: string;
+	phaseResult: ReturnType<typeof calculatePhases> | null;
+	dispensable?: DispensableUnit;
+	volumePerDose?: number;
+} {
 	let total: number;
 	let unit = parsedSig.unit;
+	let phaseResult: ReturnType<typeof calculatePhases> | null = null;
+	let dispensable: DispensableUnit | undefined;
+	let volumePerDose: number | undefined;
 
+	// Handle tapering/multi-step SIGs
+	if (parsedSig.phases && parsedSig.phases.length > 1) {
+		phaseResult = calculatePhases(parsedSig, daysSupply);
+		total = phaseResult.total;
+		logger.debug('Multi-phase quantity calculated', undefined, {
+			phases: phaseResult.phases,
+			remainingDays: phaseResult.remainingDays,
+			total,
+		});
+	}
 	// Handle liquids with concentration
-	if (parsedSig.dosageForm === 'liquid' && parsedSig.concentration) {
+	else if (parsedSig.dosageForm === 'liquid' && parsedSig.concentration) {
 		// Calculate volume needed from concentration
 		// Example: "Take 5mg twice daily" with "5mg/mL" → need 2mL per day
-		const { amount, volume, volumeUnit } = parsedSig.concentration;
+		const { amount, unit: amountUnit, volume, volumeUnit } = parsedSig.concentration;
 		if (amount > 0 && volume > 0) {
+			// Express the dose in the concentration's unit first ("1 g" against "250 mg/5mL")
+			const dose = convertDoseMass(parsedSig.dosage, parsedSig.unit, amountUnit)?.converted ?? parsedSig.dosage;
 			// Calculate volume per dose: dosage (mg) / concentration (mg/mL) = mL per dose
-			const volumePerDose = (parsedSig.dosage / amount) * volume;
+			volumePerDose = (dose / amount) * volume;
 			const dailyVolume = volumePerDose * (parsedSig.frequency || 1);
-			total = dailyVolume * daysSupply;
+			total = doseCount !== undefined ? volumePerDose * doseCount : dailyVolume * daysSupply;
 			unit = volumeUnit; // Use volume unit from concentration
 			logger.debug('Liquid quantity calculated with concentration', {
 				dosage: parsedSig.dosage,
@@ -91,44 +146,387 @@ export function calculate(parsedSig: ParsedSig, daysSupply: number): QuantityRes
 	// Handle inhalers with capacity
 	else if (parsedSig.dosageForm === 'inhaler' && parsedSig.capacity) {
 		// Calculate total actuations needed
-		const totalActuations = parsedSig.frequency === 0
-			? parsedSig.dosage * daysSupply
-			: (parsedSig.dosage * parsedSig.frequency) * daysSupply;
+		const totalActuations = doseCount !== undefined
+			? parsedSig.dosage * doseCount
+			: parsedSig.frequency === 0
+				? parsedSig.dosage * daysSupply
+				: (parsedSig.dosage * parsedSig.frequency) * daysSupply;
 		
 		// Calculate canisters needed (always round up)
 		const canistersNeeded = Math.ceil(totalActuations / parsedSig.capacity);
 		
-		// Return actuations but note canister count in calculation
+		// Return actuations plus the whole inhalers to dispense
 		total = totalActuations;
+		dispensable = {
+			unit: 'inhaler',
+			count: canistersNeeded,
+			capacity: parsedSig.capacity,
+			capacityUnit: parsedSig.unit,
+		};
 		logger.debug('Inhaler quantity calculated with capacity', {
 			totalActuations,
 			capacity: parsedSig.capacity,
 			canistersNeeded,
 		});
 	}
-	// Handle PRN medications (frequency = 0)
-	else if (parsedSig.frequency === 0) {
-		// PRN: assume once per day
-		total = parsedSig.dosage * daysSupply;
-		logger.warn(`PRN medication detected: assuming once per day for quantity calculation`, {
-			dosage: parsedSig.dosage,
-			daysSupply,
-		});
-	} else {
+	else if (doseCount !== undefined) {
+		// Non-daily schedule: dosage × doses inside daysSupply
+		total = parsedSig.dosage * doseCount;
+	}
+	else {
 		// Normal calculation: (dosage × frequency) × daysSupply
 		total = (parsedSig.dosage * parsedSig.frequency) * daysSupply;
 		console.error(`🧮 [QUANTITY CALC] Normal calculation: (${parsedSig.dosage} × ${parsedSig.frequency}) × ${daysSupply} = ${total}`);
 	}
 
+	return { total, unit, phaseResult, dispensable, volumePerDose };
+}
+
+/**
+ * Counts doses that fall inside daysSupply for a non-daily schedule, with the first dose on day 1.
+ * e.g., 30 days of weekly dosing = days 1, 8, 15, 22, 29 = 5 doses (not 30 / 7 = 4.29)
+ */
+function countScheduledDoses(schedule: DosingSchedule, daysSupply: number): number {
+	switch (schedule.type) {
+		case 'interval': {
+			const intervalDays = schedule.intervalDays ?? 1;
+			return Math.ceil(daysSupply / intervalDays);
+		}
+		case 'weekdays': {
+			const weekdays = schedule.weekdays ?? [];
+			// Start day is unknown: use the start weekday that yields the most doses so the fill never runs short
+			let maxDoses = 0;
+			for (let startDay = 0; startDay < 7; startDay++) {
+				let doses = 0;
+				for (let day = 0; day < daysSupply; day++) {
+					if (weekdays.includes((startDay + day) % 7)) {
+						doses++;
+					}
+				}
+				maxDoses = Math.max(maxDoses, doses);
+			}
+			return maxDoses;
+		}
+		case 'cycle': {
+			const daysOn = schedule.daysOn ?? 0;
+			const cycleLength = daysOn + (schedule.daysOff ?? 0);
+			if (cycleLength <= 0) {
+				return 0;
+			}
+			const fullCycles = Math.floor(daysSupply / cycleLength);
+			return fullCycles * daysOn + Math.min(daysSupply % cycleLength, daysOn);
+		}
+		default:
+			return daysSupply;
+	}
+}
+
+/**
+ * Resolves doses per day for a given dose.
+ * Non-daily schedules are converted to exact dose counts over daysSupply. PRN SIGs (frequency = 0) use, in order: the pharmacist override, the stated maximum daily dose,
+ * the most frequent PRN interval, or one dose per day. Scheduled SIGs are capped at the stated maximum.
+ * Any assumption made is returned so it can be shown (and overridden) by the pharmacist.
+ */
+function resolveFrequency(
+	parsedSig: ParsedSig,
+	dosage: number,
+	daysSupply: number,
+	options: QuantityOptions
+): { frequency: number; assumption?: string; doseCount?: number } {
+	const { maxDailyDose, prnInterval, unit, schedule } = parsedSig;
+
+	// Non-daily schedules: count actual doses inside daysSupply
+	if (schedule) {
+		const doseCount = countScheduledDoses(schedule, daysSupply);
+		return { frequency: doseCount / daysSupply, doseCount };
+	}
+
+	if (parsedSig.frequency === 0) {
+		if (options.prnDosesPerDay && options.prnDosesPerDay > 0) {
+			return {
+				frequency: options.prnDosesPerDay,
+				assumption: `PRN: using ${options.prnDosesPerDay} doses per day (pharmacist override)`,
+			};
+		}
+		if (maxDailyDose) {
+			return {
+				frequency: maxDailyDose / dosage,
+				assumption: `PRN: quantity based on the stated maximum of ${maxDailyDose} ${unit} per day`,
+			};
+		}
+		if (prnInterval) {
+			const dosesPerDay = Math.floor(24 / prnInterval.minHours);
+			return {
+				frequency: dosesPerDay,
+				assumption: `PRN: assuming a dose every ${prnInterval.minHours} hours (${dosesPerDay} doses per day)`,
+			};
+		}
+		return {
+			frequency: 1,
+			assumption: 'PRN: no maximum or interval stated, assuming 1 dose per day',
+		};
+	}
+
+	if (maxDailyDose && dosage * parsedSig.frequency > maxDailyDose) {
+		return {
+			frequency: maxDailyDose / dosage,
+			assumption: `Capped at the stated maximum of ${maxDailyDose} ${unit} per day`,
+		};
+	}
+
+	return { frequency: parsedSig.frequency };
+}
+
+/**
+ * Resolves how one dose translates into dispensed units.
+ * Paired sites ("1 drop in each eye") double the dose; topical applications are converted to grams.
+ */
+function resolveAdministration(
+	parsedSig: ParsedSig,
+	options: QuantityOptions
+): { multiplier: number; unit: string; assumption?: string } {
+	const sites = parsedSig.sites && parsedSig.sites > 0 ? parsedSig.sites : 1;
+
+	if (parsedSig.unit === 'application') {
+		const gramsPerApplication = options.gramsPerApplication ?? DEFAULT_GRAMS_PER_APPLICATION;
+		return {
+			multiplier: sites * gramsPerApplication,
+			unit: 'g',
+			assumption: `Topical: assuming ${gramsPerApplication} g per application`,
+		};
+	}
+
+	return { multiplier: sites, unit: parsedSig.unit };
+}
+
+/**
+ * Converts an insulin total (units) into mL and whole pens/vials.
+ * Pens waste a priming dose on every injection, and each pen/vial is discarded INSULIN_DISCARD_DAYS
+ * after opening, so low-dose patients can need more devices than the volume alone suggests.
+ */
+function calculateInsulin(
+	parsedSig: ParsedSig,
+	doseUnits: number,
+	injections: number,
+	daysSupply: number,
+	options: QuantityOptions
+): { insulin: InsulinCalculation; assumption?: string } {
+	const strength = parsedSig.insulinStrength ?? 100;
+
+	let device: InjectableDevice;
+	let assumption: string | undefined;
+	if (options.insulinDevice) {
+		device = options.insulinDevice;
+	} else if (parsedSig.insulinDevice === 'vial') {
+		device = { type: 'vial', volume: DEFAULT_INSULIN_VIAL_VOLUME };
+	} else {
+		device = DEFAULT_INSULIN_DEVICE;
+		if (!parsedSig.insulinDevice) {
+			assumption = `Insulin: device not stated, assuming ${device.volume} mL pens`;
+		}
+	}
+
+	const primingPerInjection = device.type === 'pen' ? (options.primingUnits ?? DEFAULT_INSULIN_PRIMING_UNITS) : 0;
+	const primingUnits = primingPerInjection * injections;
+	const totalUnits = doseUnits + primingUnits;
+	const volume = convertInsulinUnitsToVolume(totalUnits, strength).converted;
+
+	// Each device lasts until it is empty or its discard window closes, whichever comes first
+	const dailyUnits = totalUnits / daysSupply;
+	const daysPerDevice = Math.min((device.volume * strength) / dailyUnits, INSULIN_DISCARD_DAYS);
+	const deviceCount = dailyUnits > 0 ? Math.ceil(daysSupply / daysPerDevice) : 0;
+
+	logger.debug('Insulin quantity calculated', undefined, {
+		doseUnits,
+		primingUnits,
+		volume,
+		device,
+		deviceCount,
+	});
+
+	return {
+		insulin: {
+			strength,
+			doseUnits,
+			primingUnits,
+			volume,
+			device,
+			deviceCount,
+			discardDays: INSULIN_DISCARD_DAYS,
+		},
+		assumption,
+	};
+}
+
+/**
+ * Works out the per-dose amount for a weight-based SIG
+ * e.g., "40 mg/kg/day divided bid" at 20 kg = 800 mg/day = 400 mg per dose
+ */
+function calculateWeightBasedDose(
+	weightBasedDose: WeightBasedDose,
+	amountPerKg: number,
+	dosesPerDay: number,
+	options: QuantityOptions
+): WeightBasedCalculation & { dose: number } {
+	const weightKg = options.patientWeightKg as number;
+	const dailyDoses = weightBasedDose.basis === 'day' ? dosesPerDay || 1 : 1;
+	const dose = Math.round(((amountPerKg * weightKg) / dailyDoses) * 100) / 100;
+
+	// Flag (don't cap) doses above the per-dose maximum; the prescriber decides
+	const maxDose = options.maxDosePerDoseMg ?? DEFAULT_MAX_WEIGHT_BASED_DOSE_MG;
+	const doseMg = convertDoseMass(dose, weightBasedDose.unit, 'mg')?.converted ?? dose;
+
+	return {
+		...weightBasedDose,
+		amount: amountPerKg,
+		weightKg,
+		maxDose,
+		exceedsMax: doseMg > maxDose,
+		dose,
+	};
+}
+
+/**
+ * Picks the dose used for a ranged SIG according to the configured policy.
+ */
+function selectRangeDosage(range: DosageRange, policy: DoseRangePolicy): number {
+	switch (policy) {
+		case 'min':
+			return range.min;
+		case 'average':
+			return (range.min + range.max) / 2;
+		case 'max':
+		default:
+			return range.max;
+	}
+}
+
+/**
+ * Calculates total quantity from parsed SIG and days' supply.
+ * @param parsedSig - Parsed prescription instruction
+ * @param daysSupply - Days' supply
+ * @param options - Calculation policies (e.g., which end of a dose range to use)
+ * @returns Quantity result with total, unit, and calculation details
+ * @throws Error if inputs are invalid
+ */
+export function calculate(
+	parsedSig: ParsedSig,
+	daysSupply: number,
+	options: QuantityOptions = {}
+): QuantityResult {
+	// Validate inputs
+	if (!parsedSig) {
+		throw new Error('parsedSig is required');
+	}
+
+	console.error(`🧮 [QUANTITY CALC] START:`, {
+		parsedSig: {
+			dosage: parsedSig.dosage,
+			frequency: parsedSig.frequency,
+			unit: parsedSig.unit,
+			dosageForm: parsedSig.dosageForm,
+			concentration: parsedSig.concentration
+		},
+		daysSupply
+	});
+	if (typeof daysSupply !== 'number' || daysSupply <= 0) {
+		throw new Error('daysSupply must be a positive number');
+	}
+	if (typeof parsedSig.dosage !== 'number' || parsedSig.dosage <= 0) {
+		throw new Error('parsedSig.dosage must be a positive number');
+	}
+	if (typeof parsedSig.frequency !== 'number' || parsedSig.frequency < 0) {
+		throw new Error('parsedSig.frequency must be a non-negative number');
+	}
+	if (parsedSig.weightBasedDose && !(typeof options.patientWeightKg === 'number' && options.patientWeightKg > 0)) {
+		throw new Error('patientWeightKg is required for weight-based doses');
+	}
+
+	// Resolve dose ranges ("1-2 tablets") according to policy; tapering phases carry their own doses
+	const isMultiPhase = !!(parsedSig.phases && parsedSig.phases.length > 1);
+	const range = parsedSig.dosageRange && !isMultiPhase ? parsedSig.dosageRange : undefined;
+	const rangePolicy = options.doseRangePolicy ?? DEFAULT_DOSE_RANGE_POLICY;
+	const dosage = range ? selectRangeDosage(range, rangePolicy) : parsedSig.dosage;
+
+	// Per-administration dose → dispensed units (paired sites, topical applications)
+	const administration = resolveAdministration(parsedSig, options);
+	const administeredSig: ParsedSig = {
+		...parsedSig,
+		unit: administration.unit,
+		capacity: parsedSig.capacity ?? options.inhalerCapacity,
+		phases: parsedSig.phases?.map((phase) => ({ ...phase, dosage: phase.dosage * administration.multiplier })),
+	};
+
+	// Insulin units are dispensed as mL in whole pens/vials
+	const isInsulin = parsedSig.dosageForm === 'insulin' && parsedSig.unit === 'unit' && !isMultiPhase;
+
+	// Resolve doses per day (PRN limits, maximum daily dose)
+	const computeForDosage = (dose: number) => {
+		const { frequency, assumption, doseCount } = isMultiPhase
+			? { frequency: parsedSig.frequency || 1, assumption: undefined, doseCount: undefined }
+			: resolveFrequency(parsedSig, dose, daysSupply, options);
+		// Weight-based SIGs: the parsed dose is per kg
+		const weightBased =
+			parsedSig.weightBasedDose && !isMultiPhase
+				? calculateWeightBasedDose(parsedSig.weightBasedDose, dose, frequency, options)
+				: undefined;
+		const administeredDose = weightBased?.dose ?? dose;
+		const computed = computeTotal(
+			{ ...administeredSig, dosage: administeredDose * administration.multiplier, frequency },
+			daysSupply,
+			doseCount
+		);
+		const insulinResult = isInsulin
+			? calculateInsulin(parsedSig, computed.total, doseCount ?? frequency * daysSupply, daysSupply, options)
+			: undefined;
+		return {
+			...computed,
+			...(insulinResult && {
+				total: insulinResult.insulin.deviceCount * insulinResult.insulin.device.volume,
+				unit: 'mL',
+				dispensable: {
+					unit: insulinResult.insulin.device.type,
+					count: insulinResult.insulin.deviceCount,
+					capacity: insulinResult.insulin.device.volume,
+					capacityUnit: 'mL',
+				},
+			}),
+			frequency,
+			assumption,
+			doseCount,
+			insulinResult,
+			weightBased,
+		};
+	};
+	const {
+		total,
+		unit,
+		phaseResult,
+		dispensable,
+		volumePerDose,
+		frequency,
+		assumption,
+		doseCount,
+		insulinResult,
+		weightBased,
+	} = computeForDosage(dosage);
+	const assumptions = [administration.assumption, assumption, insulinResult?.assumption].filter(
+		(note): note is string => !!note
+	);
+	for (const note of assumptions) {
+		logger.info(`Quantity assumption: ${note}`, undefined, { dosage, daysSupply });
+	}
+
 	// Round based on unit type
 	const roundedTotal = roundQuantity(total, unit);
+	const displayFrequency = Math.round(frequency * 100) / 100;
 	
 	console.error(`🧮 [QUANTITY CALC] RESULT:`, {
 		total: roundedTotal,
 		unit,
 		calculation: {
-			dosage: parsedSig.dosage,
-			frequency: parsedSig.frequency === 0 ? 1 : parsedSig.frequency,
+			dosage,
+			frequency: displayFrequency,
 			daysSupply
 		}
 	});
@@ -144,11 +542,69 @@ export function calculate(parsedSig: ParsedSig, daysSupply: number): QuantityRes
 	return {
 		total: roundedTotal,
 		unit: unit, // Use calculated unit (may differ from parsedSig.unit for liquids)
+		...(range && {
+			range: {
+				min: roundQuantity(computeForDosage(range.min).total, unit),
+				max: roundQuantity(computeForDosage(range.max).total, unit),
+				chosen: roundedTotal,
+				policy: rangePolicy,
+			},
+		}),
+		...(assumptions.length > 0 && { assumptions }),
+		...(insulinResult && { insulin: insulinResult.insulin }),
+		...(dispensable && { dispensable }),
 		calculation: {
-			dosage: parsedSig.dosage,
-			frequency: parsedSig.frequency === 0 ? 1 : parsedSig.frequency, // Show assumed frequency for PRN
+			dosage: (weightBased?.dose ?? dosage) * administration.multiplier, // Per administration, across all sites
+			frequency: displayFrequency, // Resolved doses per day (PRN assumptions applied)
 			daysSupply,
+			...(doseCount !== undefined && { doseCount }),
+			...(volumePerDose !== undefined && {
+				doseUnit: parsedSig.unit,
+				volumePerDose: Math.round(volumePerDose * 100) / 100,
+			}),
+			...(weightBased && {
+				weightBased: {
+					amount: weightBased.amount,
+					unit: weightBased.unit,
+					basis: weightBased.basis,
+					weightKg: weightBased.weightKg,
+					maxDose: weightBased.maxDose,
+					exceedsMax: weightBased.exceedsMax,
+				},
+			}),
+			...(phaseResult && {
+				phases: phaseResult.phases,
+				remainingDays: phaseResult.remainingDays,
+			}),
 		},
 	};
 }
 
+/**
+ * Days' supply a quantity covers: the longest whole number of days whose calculated total fits in it.
+ * Uses the same rules as calculate() (schedules, PRN assumptions, phases, whole pens/vials).
+ * @param parsedSig - Parsed prescription instruction
+ * @param quantity - Available quantity, in the unit calculate() returns for this SIG
+ * @param options - Calculation policies, as passed to calculate()
+ * @returns Days covered (0 when the quantity does not cover one day), at most MAX_DAYS_SUPPLY
+ */
+export function calculateDaysSupply(parsedSig: ParsedSig, quantity: number, options: QuantityOptions = {}): number {
+	if (typeof quantity !== 'number' || quantity <= 0) {
+		throw new Error('quantity must be a positive number');
+	}
+
+	// Totals never shrink as days grow, so binary search for the last day that fits
+	let low = 0;
+	let high = MAX_DAYS_SUPPLY;
+	while (low < high) {
+		const days = Math.ceil((low + high) / 2);
+		if (calculate(parsedSig, days, options).total <= quantity) {
+			low = days;
+		} else {
+			high = days - 1;
+		}
+	}
+
+	logger.debug('Days supply derived from quantity', undefined, { quantity, daysSupply: low });
+	return low;
+}
@@ -0,0 +1,127 @@
+/**
+ * NDC ranking strategies.
+ * Every candidate starts from its fill match (calculateMatchScore in the selector); a strategy adds
+ * score lines on top, so the breakdown shows why one package beat another.
+ */
+
+import type { NdcSelection, PackagingType, RankingStrategyId, ScoreComponent } from '../types/ndc';
+import { detectPackagingType } from './packageParser';
+import { normalizeNdc } from '../utils/ndcNormalizer';
+
+/**
+ * What a strategy may look at besides the selection
+ */
+export interface RankingContext {
+	targetQuantity: number;
+	labeler?: string;  // prefer_labeler: labeler code (e.g., '00002') or manufacturer name
+}
+
+/**
+ * Ranking strategy: extra score lines for a candidate
+ */
+export interface RankingStrategy {
+	id: RankingStrategyId;
+	name: string;
+	adjust(selection: NdcSelection, context: RankingContext): ScoreComponent[];
+}
+
+/** Strategy used when the request names none */
+export const DEFAULT_RANKING_STRATEGY: RankingStrategyId = 'minimize_waste';
+
+/** Points deducted per package beyond the first (minimize_packages) */
+const EXTRA_PACKAGE_PENALTY = 10;
+
+/** Points for a unit-of-use package, and deducted for bulk stock (prefer_unit_of_use) */
+const UNIT_OF_USE_BONUS = 15;
+
+/** Points for the preferred labeler (prefer_labeler); enough to outrank a closer fill from another labeler */
+const LABELER_BONUS = 30;
+
+/** Innermost containers dispensed to the patient as-is */
+const UNIT_OF_USE_PACKAGING: PackagingType[] = ['blister', 'unit_dose', 'kit', 'pen', 'canister'];
+
+/** Packages larger than this many times the target are bulk stock that must be repackaged */
+const BULK_PACKAGE_FACTOR = 3;
+
+function packageCount(selection: NdcSelection): number {
+	return selection.packageCount ?? 1;
+}
+
+/**
+ * NDCs dispensed in a selection (every component of a multi-NDC fill)
+ */
+function selectionNdcs(selection: NdcSelection): Array<{ ndc: string; manufacturer?: string; packageDescription?: string }> {
+	return selection.components ?? [selection];
+}
+
+/**
+ * Whether every NDC of a selection is unit-of-use, judged by the container that holds the drug
+ * (not an outer carton): the selection's packaging type, or each component's
+ */
+function isUnitOfUse(selection: NdcSelection): boolean {
+	if (selection.packagingType) {
+		return UNIT_OF_USE_PACKAGING.includes(selection.packagingType);
+	}
+	return selectionNdcs(selection).every((ndc) => {
+		const packagingType = detectPackagingType(ndc.packageDescription ?? '');
+		return !!packagingType && UNIT_OF_USE_PACKAGING.includes(packagingType);
+	});
+}
+
+/**
+ * Whether an NDC comes from a labeler, by 5-digit labeler code or manufacturer name
+ */
+function matchesLabeler(ndc: string, manufacturer: string | undefined, labeler: string): boolean {
+	const wanted = labeler.trim();
+	if (/^\d{4,5}$/.test(wanted)) {
+		return normalizeNdc(ndc)?.slice(0, 5) === wanted.padStart(5, '0');
+	}
+	return !!manufacturer && manufacturer.toLowerCase().includes(wanted.toLowerCase());
+}
+
+export const RANKING_STRATEGIES: Record<RankingStrategyId, RankingStrategy> = {
+	minimize_waste: {
+		id: 'minimize_waste',
+		name: 'Minimize waste',
+		// The fill match already rewards the closest quantity
+		adjust: () => [],
+	},
+	minimize_packages: {
+		id: 'minimize_packages',
+		name: 'Fewest packages',
+		adjust: (selection) => {
+			const extra = packageCount(selection) - 1;
+			return extra > 0
+				? [{ label: `${extra} extra package${extra > 1 ? 's' : ''}`, points: -extra * EXTRA_PACKAGE_PENALTY }]
+				: [];
+		},
+	},
+	prefer_unit_of_use: {
+		id: 'prefer_unit_of_use',
+		name: 'Prefer unit-of-use packages',
+		adjust: (selection, { targetQuantity }) => {
+			if (isUnitOfUse(selection)) {
+				return [{ label: 'Unit-of-use package', points: UNIT_OF_USE_BONUS }];
+			}
+			if (selection.packageSize > targetQuantity * BULK_PACKAGE_FACTOR) {
+				return [{ label: 'Bulk package (repackaging needed)', points: -UNIT_OF_USE_BONUS }];
+			}
+			return [];
+		},
+	},
+	prefer_labeler: {
+		id: 'prefer_labeler',
+		name: 'Prefer a labeler',
+		adjust: (selection, { labeler }) =>
+			labeler && selectionNdcs(selection).every((ndc) => matchesLabeler(ndc.ndc, ndc.manufacturer, labeler))
+				? [{ label: `Preferred labeler (${labeler})`, points: LABELER_BONUS }]
+				: [],
+	},
+};
+
+/**
+ * Whether a request value names a ranking strategy
+ */
+export function isRankingStrategyId(value: unknown): value is RankingStrategyId {
+	return typeof value === 'string' && Object.keys(RANKING_STRATEGIES).includes(value);
+}
@@ -3,14 +3,31 @@
  * Primary parser that handles 80%+ of common prescription patterns.
  */
 
-import { ParsedSig, Concentration } from '../types/sig';
+import type {
+	ParsedSig,
+	Concentration,
+	DosingPhase,
+	DosageRange,
+	DosingSchedule,
+	InjectableDevice,
+	WeightBasedDose,
+} from '../types/sig';
 import {
 	SIG_PATTERNS,
 	UNIT_PATTERNS,
 	FREQUENCY_PATTERNS,
 	CONFIDENCE_RULES,
+	PHASE_SEPARATOR_PATTERN,
+	DURATION_PATTERN,
+	MAX_DAILY_DOSE_PATTERN,
+	PRN_INTERVAL_PATTERN,
+	PAIRED_SITE_PATTERN,
+	WEIGHT_BASED_DOSE_PATTERN,
+	INSULIN_PEN_PATTERN,
+	INSULIN_VIAL_PATTERN,
 	type SigPattern,
 } from '../constants/sigPatterns';
+import { logger } from '../utils/logger';
 
 /**
  * Normalizes SIG text for parsing
@@ -31,11 +48,20 @@ function normalizeSig(sig: string): string {
  * Extracts dosage from SIG text using pattern match
  */
 function extractDosage(sig: string, match: RegExpMatchArray, dosageGroup?: number): number | null {
+	// Fixed single dose (e.g., "change patch twice weekly")
+	if (dosageGroup === 0) {
+		return 1;
+	}
 	if (!dosageGroup || !match[dosageGroup]) {
 		return null;
 	}
 
 	const dosageStr = match[dosageGroup].trim();
+
+	// Topicals without an amount ("apply a thin layer") are one application
+	if (/^(?:a\s+thin\s+(?:layer|film)|a\s+small\s+amount|thinly|sparingly)$/.test(dosageStr)) {
+		return 1;
+	}
 	
 	// Handle ranges (e.g., "1-2" → 1.5)
 	const rangeMatch = dosageStr.match(/(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/);
@@ -50,6 +76,24 @@ function extractDosage(sig: string, match: RegExpMatchArray, dosageGroup?: numbe
 	return isNaN(dosage) || dosage <= 0 ? null : dosage;
 }
 
+/**
+ * Extracts both ends of a dosage range (e.g., "1-2") from the dosage group
+ */
+function extractDosageRange(match: RegExpMatchArray, dosageGroup?: number): DosageRange | null {
+	if (!dosageGroup || !match[dosageGroup]) {
+		return null;
+	}
+
+	const rangeMatch = match[dosageGroup].trim().match(/(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/);
+	if (!rangeMatch) {
+		return null;
+	}
+
+	const min = parseFloat(rangeMatch[1]);
+	const max = parseFloat(rangeMatch[2]);
+	return min > 0 && max > min ? { min, max } : null;
+}
+
 /**
  * Extracts unit from SIG text
  * Handles patterns with fixed units (unitGroup: 0) and extracts from match groups (unitGroup > 0)
@@ -58,6 +102,12 @@ function extractUnit(sig: string, pattern?: SigPattern, match?: RegExpMatchArray
 	// Check if pattern has fixed unit (unitGroup: 0)
 	if (pattern && pattern.unitGroup === 0) {
 		// Extract from pattern name or use fixed unit based on pattern
+		if (pattern.name.includes('thin_layer')) {
+			return 'application';
+		}
+		if (pattern.name.includes('patch')) {
+			return 'patch';
+		}
 		if (pattern.name.includes('ml') || pattern.name.includes('liquid')) {
 			return 'mL';
 		}
@@ -97,6 +147,18 @@ function extractUnit(sig: string, pattern?: SigPattern, match?: RegExpMatchArray
 		if (unitLower === 'actuation' || unitLower === 'actuations' || unitLower === 'puff' || unitLower === 'puffs' || unitLower === 'spray' || unitLower === 'sprays') {
 			return 'actuation';
 		}
+		if (unitLower === 'drop' || unitLower === 'drops' || unitLower === 'gtt' || unitLower === 'gtts') {
+			return 'drop';
+		}
+		if (unitLower === 'g' || unitLower === 'gm' || unitLower === 'gram' || unitLower === 'grams') {
+			return 'g';
+		}
+		if (unitLower === 'application' || unitLower === 'applications') {
+			return 'application';
+		}
+		if (unitLower === 'patch' || unitLower === 'patches') {
+			return 'patch';
+		}
 		
 		// If no mapping found, return as-is (uppercase for consistency with other units)
 		return unitRaw.toUpperCase();
@@ -133,7 +195,7 @@ function extractUnit(sig: string, pattern?: SigPattern, match?: RegExpMatchArray
 /**
  * Detects dosage form from unit and SIG text
  */
-function detectDosageForm(unit: string, sig: string): 'tablet' | 'capsule' | 'liquid' | 'insulin' | 'inhaler' | 'other' {
+export function detectDosageForm(unit: string, sig: string): NonNullable<ParsedSig['dosageForm']> {
 	const normalizedUnit = unit.toLowerCase();
 	const normalizedSig = sig.toLowerCase();
 
@@ -154,6 +216,27 @@ function detectDosageForm(unit: string, sig: string): 'tablet' | 'capsule' | 'li
 		return 'inhaler';
 	}
 
+	// Drops - eye or ear by the administration site
+	if (normalizedUnit === 'drop') {
+		if (/\b(?:eyes?|ophthalmic|ou|od|os)\b/.test(normalizedSig)) {
+			return 'ophthalmic';
+		}
+		if (/\b(?:ears?|otic|au)\b/.test(normalizedSig)) {
+			return 'otic';
+		}
+		return 'other';
+	}
+
+	// Transdermal patches
+	if (normalizedUnit === 'patch') {
+		return 'transdermal';
+	}
+
+	// Topicals (creams, ointments, gels)
+	if (normalizedUnit === 'g' || normalizedUnit === 'application') {
+		return 'topical';
+	}
+
 	// Tablets
 	if (normalizedUnit === 'tablet' || normalizedUnit === 'tab') {
 		return 'tablet';
@@ -208,6 +291,19 @@ function extractInsulinStrength(sig: string): number | null {
 	return null;
 }
 
+/**
+ * Extracts the insulin device named in the SIG (e.g., "via FlexPen" → 'pen')
+ */
+function extractInsulinDevice(sig: string): InjectableDevice['type'] | null {
+	if (INSULIN_PEN_PATTERN.test(sig)) {
+		return 'pen';
+	}
+	if (INSULIN_VIAL_PATTERN.test(sig)) {
+		return 'vial';
+	}
+	return null;
+}
+
 /**
  * Extracts inhaler capacity from SIG text (e.g., "200 actuations per canister")
  */
@@ -228,6 +324,72 @@ function extractInhalerCapacity(sig: string): number | null {
 	return null;
 }
 
+/**
+ * Extracts the number of administration sites per dose ("1 drop in each eye" → 2)
+ */
+function extractAdministrationSites(sig: string): number | null {
+	return PAIRED_SITE_PATTERN.test(sig) ? 2 : null;
+}
+
+/**
+ * Extracts a per-kg dose (e.g., "40 mg/kg/day divided bid" → { amount: 40, unit: 'mg', basis: 'day' })
+ * The amount mirrors the parsed dosage so dose ranges ("10-15 mg/kg") stay consistent.
+ */
+function extractWeightBasedDose(sig: string, dosage: number): WeightBasedDose | null {
+	const match = sig.match(WEIGHT_BASED_DOSE_PATTERN);
+	if (!match) {
+		return null;
+	}
+	return {
+		amount: dosage,
+		unit: match[2].toLowerCase(),
+		basis: match[3] ? 'day' : 'dose',
+	};
+}
+
+/**
+ * Extracts a maximum daily dose (e.g., "max 6 per day", "not to exceed 4 doses in 24 hours")
+ * Returns the limit in SIG units, or null when absent or stated in mass units (mg, g, mcg)
+ * @param dosage - Largest dose ("1-2 tablets" → 2), so a limit in doses allows the full dose each time
+ */
+function extractMaxDailyDose(sig: string, dosage: number): number | null {
+	const match = sig.match(MAX_DAILY_DOSE_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	const amount = parseFloat(match[1]);
+	if (!(amount > 0)) {
+		return null;
+	}
+
+	const unitWord = match[2]?.toLowerCase();
+	if (!unitWord) {
+		return amount;
+	}
+	if (/^(?:mg|mcg|g|grams?|milligrams?|micrograms?)$/.test(unitWord)) {
+		return null; // Mass-based limits can't be compared to countable units
+	}
+	if (/^doses?$/.test(unitWord)) {
+		return amount * dosage;
+	}
+	return amount;
+}
+
+/**
+ * Extracts a PRN dosing interval (e.g., "every 4-6 hours" → { minHours: 4, maxHours: 6 })
+ */
+function extractPrnInterval(sig: string): { minHours: number; maxHours: number } | null {
+	const match = sig.match(PRN_INTERVAL_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	const minHours = parseFloat(match[1]);
+	const maxHours = match[2] ? parseFloat(match[2]) : minHours;
+	return minHours > 0 && maxHours >= minHours ? { minHours, maxHours } : null;
+}
+
 /**
  * Extracts frequency from SIG text
  */
@@ -296,6 +458,26 @@ function extractFrequency(
 	return null;
 }
 
+/**
+ * Extracts a non-daily schedule (weekly, every N days, weekdays, on/off cycles) from SIG text.
+ * Uses the same first-match-wins order as frequency extraction.
+ */
+function extractSchedule(sig: string, pattern: SigPattern): DosingSchedule | null {
+	// Patterns with fixed frequencies (frequencyGroup = 0) are always daily
+	if (pattern.frequencyGroup === 0) {
+		return null;
+	}
+
+	for (const freqPattern of FREQUENCY_PATTERNS) {
+		const freqMatch = sig.match(freqPattern.pattern);
+		if (freqMatch) {
+			return freqPattern.schedule?.(freqMatch) ?? null;
+		}
+	}
+
+	return null;
+}
+
 /**
  * Calculates confidence score for parsed SIG
  */
@@ -329,8 +511,77 @@ function calculateConfidence(
 	return Math.max(0, Math.min(1, confidence));
 }
 
+/**
+ * Extracts phase duration in days from SIG text (e.g., "for 3 days", "x 2 weeks")
+ */
+function extractDuration(sig: string): number | null {
+	const match = sig.match(DURATION_PATTERN);
+	if (!match) {
+		return null;
+	}
+	const count = parseInt(match[1], 10);
+	if (count <= 0) {
+		return null;
+	}
+	return match[2].startsWith('week') ? count * 7 : count;
+}
+
+/**
+ * Parses a tapering/multi-step SIG split into phase segments.
+ * Every phase except the last must state a duration; the last may be open-ended.
+ * @returns Parsed SIG with ordered phases, or null if any phase cannot be parsed
+ */
+function parsePhases(segments: string[]): ParsedSig | null {
+	const phases: DosingPhase[] = [];
+	let first: ParsedSig | null = null;
+	let confidence = 1;
+
+	for (let i = 0; i < segments.length; i++) {
+		const durationDays = extractDuration(segments[i]);
+		if (durationDays === null && i < segments.length - 1) {
+			return null;
+		}
+
+		const segment = segments[i].replace(DURATION_PATTERN, '').trim();
+		let parsed = parseSegment(segment);
+
+		// Later phases often omit the unit ("then 1 daily for 4 days") - reuse the first phase's unit
+		if (!parsed && first) {
+			parsed = parseSegment(segment.replace(/^(take\s+)?(\d+(?:\.\d+)?)\s+/, `$1$2 ${first.unit} `));
+		}
+		if (!parsed) {
+			return null;
+		}
+		if (first && parsed.unit !== first.unit) {
+			// Mixed units across phases are not supported
+			return null;
+		}
+
+		first = first ?? parsed;
+		confidence = Math.min(confidence, parsed.confidence);
+		phases.push({
+			dosage: parsed.dosage,
+			frequency: parsed.frequency,
+			durationDays: durationDays ?? undefined,
+		});
+	}
+
+	if (!first) {
+		return null;
+	}
+
+	logger.debug('Multi-phase SIG parsed', undefined, { phaseCount: phases.length });
+
+	return {
+		...first,
+		confidence,
+		phases,
+	};
+}
+
 /**
  * Parses SIG text using regex patterns
+ * Tapering SIGs ("2 tablets daily for 3 days then 1 tablet daily for 4 days") are parsed into phases.
  * @param sig - Prescription instruction text
  * @returns Parsed SIG or null if parsing fails
  */
@@ -344,6 +595,21 @@ export function parse(sig: string): ParsedSig | null {
 		return null;
 	}
 
+	const segments = normalized.split(PHASE_SEPARATOR_PATTERN).filter((segment) => segment.trim());
+	if (segments.length > 1) {
+		const multiPhase = parsePhases(segments);
+		if (multiPhase) {
+			return multiPhase;
+		}
+	}
+
+	return parseSegment(normalized);
+}
+
+/**
+ * Parses a single (already normalized) SIG segment using regex patterns
+ */
+function parseSegment(normalized: string): ParsedSig | null {
 	// Try each pattern in priority order
 	for (const pattern of SIG_PATTERNS) {
 		const match = normalized.match(pattern.pattern);
@@ -393,7 +659,14 @@ export function parse(sig: string): ParsedSig | null {
 		const dosageForm = detectDosageForm(unit, normalized);
 		const concentration = extractConcentration(normalized);
 		const insulinStrength = extractInsulinStrength(normalized);
+		const insulinDevice = dosageForm === 'insulin' ? extractInsulinDevice(normalized) : null;
 		const capacity = extractInhalerCapacity(normalized);
+		const sites = extractAdministrationSites(normalized);
+		const weightBasedDose = extractWeightBasedDose(normalized, dosage);
+		const dosageRange = extractDosageRange(match, pattern.dosageGroup);
+		const schedule = extractSchedule(normalized, pattern);
+		const maxDailyDose = extractMaxDailyDose(normalized, dosageRange?.max ?? dosage);
+		const prnInterval = frequency === 0 ? extractPrnInterval(normalized) : null;
 
 		const parsedResult = {
 			dosage,
@@ -403,7 +676,14 @@ export function parse(sig: string): ParsedSig | null {
 			dosageForm,
 			concentration: concentration || undefined,
 			insulinStrength: insulinStrength || undefined,
+			insulinDevice: insulinDevice || undefined,
 			capacity: capacity || undefined,
+			sites: sites || undefined,
+			dosageRange: dosageRange || undefined,
+			weightBasedDose: weightBasedDose || undefined,
+			schedule: schedule || undefined,
+			maxDailyDose: maxDailyDose || undefined,
+			prnInterval: prnInterval || undefined,
 		};
 
 		console.error(`✅ [SIG PARSER] Successfully parsed SIG:`, parsedResult);
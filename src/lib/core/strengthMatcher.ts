@@ -0,0 +1,203 @@
+/**
+ * Strength matching.
+ * Strengths come from FDA active ingredients ("10 mg/1", "250 mg/5mL"), RxNorm ("40 MG", "50 MG/ML")
+ * or the drug input ("atorvastatin 40 mg"). Only single-ingredient mcg/mg/g strengths are compared;
+ * a package whose strength can't be read is never filtered out.
+ */
+
+import type { DrugStrength, NdcInfo, StrengthSubstitute } from '../types/ndc';
+import { convertDoseMass, convertLiquidVolume, pluralizeUnit } from '../utils/unitConverter';
+
+/** Most tablets/capsules of a lower strength that may make up one dose */
+const MAX_UNITS_PER_DOSE = 4;
+
+/** Dose units a lower strength can be multiplied in */
+const SUBSTITUTABLE_UNITS = ['tablet', 'capsule'];
+
+const NUMBER_PATTERN = '(?:\\d+(?:\\.\\d+)?|\\.\\d+)';
+
+/** Amount, mass unit and optional per-volume part ("/5mL", " in 5 mL", "/ML") */
+const STRENGTH_PATTERN = new RegExp(
+	`(?<![\\d.])(${NUMBER_PATTERN})\\s*(mcg|ug|mg|g)\\b(?:\\s*(?:\\/|in)\\s*(${NUMBER_PATTERN})?\\s*(ml|l)\\b)?`,
+	'gi'
+);
+
+/**
+ * Packages to rank for a prescribed strength
+ */
+export interface StrengthMatch {
+	ndcs: NdcInfo[];
+	unitsPerDose: number;  // 1 for the prescribed strength, otherwise units of substitutes[0] per dose
+	substitutes: Array<{ strength: DrugStrength; unitsPerDose: number }>;  // Set when the strength is unavailable
+}
+
+/**
+ * Parses a single-ingredient strength
+ * @param text - FDA or RxNorm strength, or a drug name that includes one
+ * @returns Strength, or null when there is none or several (combination products)
+ * @example
+ * parseStrength('10 mg/1') // Returns { amount: 10, unit: 'mg' }
+ * parseStrength('amoxicillin 250 MG in 5 mL Oral Suspension') // Returns { amount: 250, unit: 'mg', volume: 5, volumeUnit: 'mL' }
+ */
+export function parseStrength(text: string | null | undefined): DrugStrength | null {
+	if (!text || typeof text !== 'string') {
+		return null;
+	}
+
+	const matches = [...text.matchAll(STRENGTH_PATTERN)];
+	if (matches.length !== 1) {
+		return null;
+	}
+
+	const [, amount, unit, volume, volumeUnit] = matches[0];
+	const strength: DrugStrength = { amount: parseFloat(amount), unit: unit.toLowerCase() };
+	if (!(strength.amount > 0)) {
+		return null;
+	}
+	if (volumeUnit) {
+		strength.volume = volume ? parseFloat(volume) : 1;
+		strength.volumeUnit = volumeUnit.toLowerCase() === 'l' ? 'L' : 'mL';
+		if (!(strength.volume > 0)) {
+			return null;
+		}
+	}
+	return strength;
+}
+
+/**
+ * Formats a strength for display
+ * @param strength - Parsed strength, or strength text (returned trimmed when it can't be parsed)
+ * @example
+ * formatStrength('250 mg/5mL') // Returns '250 mg/5 mL'
+ * formatStrength('10 mg/1') // Returns '10 mg'
+ */
+export function formatStrength(strength: DrugStrength | string): string {
+	const parsed = typeof strength === 'string' ? parseStrength(strength) : strength;
+	if (!parsed) {
+		return typeof strength === 'string' ? strength.trim() : '';
+	}
+	const amount = `${parsed.amount} ${parsed.unit}`;
+	if (!parsed.volumeUnit) {
+		return amount;
+	}
+	return parsed.volume === 1 ? `${amount}/${parsed.volumeUnit}` : `${amount}/${parsed.volume} ${parsed.volumeUnit}`;
+}
+
+/**
+ * Milligrams per dosage unit, or per mL for per-volume strengths
+ */
+function milligrams(strength: DrugStrength): number | null {
+	const mg = convertDoseMass(strength.amount, strength.unit, 'mg')?.converted;
+	if (mg === undefined) {
+		return null;
+	}
+	if (!strength.volumeUnit) {
+		return mg;
+	}
+	const ml = convertLiquidVolume(strength.volume ?? 1, strength.volumeUnit, 'mL')?.converted;
+	return ml ? mg / ml : null;
+}
+
+/**
+ * Whether two strengths are the same (10 mg = 10000 mcg; 250 mg/5 mL = 50 mg/mL)
+ */
+export function isSameStrength(a: DrugStrength, b: DrugStrength): boolean {
+	const mgA = milligrams(a);
+	const mgB = milligrams(b);
+	return mgA !== null && mgB !== null && !a.volumeUnit === !b.volumeUnit && Math.abs(mgA - mgB) < 1e-6 * Math.max(mgA, mgB);
+}
+
+/**
+ * Lower per-unit strengths that make up the prescribed one in whole units (2 × 10 mg for 20 mg)
+ * @param prescribed - Prescribed strength
+ * @param available - Strengths on offer
+ * @returns Substitutes, fewest units per dose first
+ */
+export function findStrengthSubstitutes(
+	prescribed: DrugStrength,
+	available: DrugStrength[]
+): Array<{ strength: DrugStrength; unitsPerDose: number }> {
+	const target = milligrams(prescribed);
+	if (target === null || prescribed.volumeUnit) {
+		return [];
+	}
+
+	const substitutes: Array<{ strength: DrugStrength; unitsPerDose: number }> = [];
+	for (const strength of available) {
+		const mg = milligrams(strength);
+		if (mg === null || strength.volumeUnit || substitutes.some((substitute) => isSameStrength(substitute.strength, strength))) {
+			continue;
+		}
+		const unitsPerDose = Math.round(target / mg);
+		if (unitsPerDose >= 2 && unitsPerDose <= MAX_UNITS_PER_DOSE && Math.abs(unitsPerDose * mg - target) < 1e-6 * target) {
+			substitutes.push({ strength, unitsPerDose });
+		}
+	}
+	return substitutes.sort((a, b) => a.unitsPerDose - b.unitsPerDose);
+}
+
+/**
+ * Keeps the packages of the prescribed strength; when none are on offer, the packages of the
+ * lower strength that makes up a dose in the fewest tablets/capsules
+ * @param ndcs - Active packages
+ * @param prescribed - Prescribed strength
+ * @param doseUnit - SIG dose unit (lower strengths only substitute for tablets and capsules)
+ * @returns Packages to rank, or null when neither the strength nor a substitute is available
+ */
+export function matchStrength(ndcs: NdcInfo[], prescribed: DrugStrength, doseUnit: string): StrengthMatch | null {
+	const strengths = ndcs.map((ndc) => parseStrength(ndc.strength));
+	if (strengths.every((strength) => strength === null)) {
+		return { ndcs, unitsPerDose: 1, substitutes: [] };
+	}
+
+	const exact = ndcs.filter((_, index) => {
+		const strength = strengths[index];
+		return !strength || isSameStrength(strength, prescribed);
+	});
+	if (strengths.some((strength) => strength && isSameStrength(strength, prescribed))) {
+		return { ndcs: exact, unitsPerDose: 1, substitutes: [] };
+	}
+
+	if (!SUBSTITUTABLE_UNITS.includes(doseUnit.toLowerCase())) {
+		return null;
+	}
+	const substitutes = findStrengthSubstitutes(
+		prescribed,
+		strengths.filter((strength): strength is DrugStrength => strength !== null)
+	);
+	if (substitutes.length === 0) {
+		return null;
+	}
+
+	const [best] = substitutes;
+	return {
+		ndcs: ndcs.filter((_, index) => {
+			const strength = strengths[index];
+			return !!strength && isSameStrength(strength, best.strength);
+		}),
+		unitsPerDose: best.unitsPerDose,
+		substitutes,
+	};
+}
+
+/**
+ * Describes substitutes for a quantity calculated in the prescribed strength
+ * @param substitutes - From matchStrength
+ * @param quantity - Quantity in the prescribed strength
+ * @param unit - Dose unit (e.g., 'tablet')
+ * @example
+ * // 30 × 20 mg tablets, 10 mg available → [{ strength: '10 mg', unitsPerDose: 2, quantity: 60, label: '2 × 10 mg tablets', ... }]
+ */
+export function describeStrengthSubstitutes(
+	substitutes: StrengthMatch['substitutes'],
+	quantity: number,
+	unit: string
+): StrengthSubstitute[] {
+	return substitutes.map(({ strength, unitsPerDose }) => ({
+		strength: formatStrength(strength),
+		unitsPerDose,
+		quantity: quantity * unitsPerDose,
+		unit,
+		label: `${unitsPerDose} × ${formatStrength(strength)} ${pluralizeUnit(unit, unitsPerDose)}`,
+	}));
+}
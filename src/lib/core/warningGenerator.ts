@@ -4,10 +4,15 @@
  */
 
 import { NdcSelection } from '../types/ndc';
-import { ParsedSig } from '../types/sig';
+import type { ParsedSig, QuantityResult } from '../types/sig';
 import { NdcInfo } from '../types/ndc';
-import { Warning } from '../types/warning';
+import type { Warning, QuantityDiscrepancy } from '../types/warning';
+import type { StrengthSubstitute } from '../types/ndc';
+import type { PayerProfile, PayerViolation } from '../types/payer';
+import { checkPayerSelection, checkPayerDaysSupply } from './payerProfiles';
+import { DEFAULT_QUANTITY_DISCREPANCY_TOLERANCE } from '../constants/quantityDefaults';
 import { logger } from '../utils/logger';
+import { pluralizeUnit } from '../utils/unitConverter';
 
 /**
  * Maps SIG units to dosage forms for comparison
@@ -20,6 +25,10 @@ const UNIT_TO_DOSAGE_FORMS: Record<string, string[]> = {
 	l: ['LIQUID', 'SOLUTION', 'SUSPENSION'],
 	unit: ['INJECTION', 'UNIT', 'VIAL'],
 	actuation: ['INHALATION', 'AEROSOL', 'SPRAY'],
+	drop: ['SOLUTION', 'SUSPENSION', 'EMULSION', 'DROPS'],
+	g: ['CREAM', 'OINTMENT', 'GEL', 'LOTION', 'PASTE'],
+	application: ['CREAM', 'OINTMENT', 'GEL', 'LOTION', 'PASTE'],
+	patch: ['PATCH'],
 };
 
 /**
@@ -116,19 +125,45 @@ function generateDosageFormMismatchWarning(
 	return null;
 }
 
+/**
+ * Generates a warning for a broken payer rule.
+ */
+function generatePayerWarning(violation: PayerViolation, profile: PayerProfile): Warning {
+	const { rule, limit, actual } = violation;
+	const message =
+		rule === 'max_days_supply'
+			? `${profile.name} allows at most a ${limit}-day supply; ${actual} days exceeds it`
+			: rule === 'max_overfill'
+				? `Recommended package overfills by ${actual}%, more than the ${limit}% ${profile.name} allows`
+				: profile.packageRounding === 'down'
+					? `${profile.name} rounds down to whole packages, but the recommended packages (${actual}) exceed the calculated quantity (${limit})`
+					: `${profile.name} requires whole packages covering the calculated quantity (${limit}); the recommended packages provide ${actual}`;
+
+	return {
+		type: 'payer_limit',
+		severity: rule === 'max_days_supply' ? 'error' : 'warning',
+		message,
+		payerViolation: violation,
+	};
+}
+
 /**
  * Generates all warnings for an NDC selection.
  * @param selection - NDC selection to check
  * @param targetQuantity - Target quantity
  * @param parsedSig - Parsed SIG (for dosage form matching)
  * @param ndcInfo - Original NDC info (for active status and dosage form)
+ * @param payerProfile - Optional payer plan whose limits the selection is checked against
+ * @param daysSupply - Days' supply, checked against the payer's maximum
  * @returns Array of warnings
  */
 export function generateWarnings(
 	selection: NdcSelection,
 	targetQuantity: number,
 	parsedSig: ParsedSig,
-	ndcInfo: NdcInfo
+	ndcInfo: NdcInfo,
+	payerProfile?: PayerProfile,
+	daysSupply?: number
 ): Warning[] {
 	const warnings: Warning[] = [];
 
@@ -143,8 +178,9 @@ export function generateWarnings(
 		warnings.push(overfillWarning);
 	}
 
-	// Check underfill (only for single-pack, multi-pack always meets target)
-	if (selection.packageCount === 1 && selection.underfill > 0) {
+	// Check underfill (only for single-pack, multi-pack always meets target;
+	// payers that round down expect the shortfall)
+	if (selection.packageCount === 1 && selection.underfill > 0 && payerProfile?.packageRounding !== 'down') {
 		const underfillWarning = generateUnderfillWarning(selection, targetQuantity);
 		if (underfillWarning) {
 			warnings.push(underfillWarning);
@@ -161,6 +197,128 @@ export function generateWarnings(
 		warnings.push(mismatchWarning);
 	}
 
+	// Check payer limits
+	if (payerProfile) {
+		const daysViolation = daysSupply !== undefined ? checkPayerDaysSupply(daysSupply, payerProfile) : null;
+		const violations = [
+			...(daysViolation ? [daysViolation] : []),
+			...checkPayerSelection(selection, targetQuantity, payerProfile),
+		];
+		warnings.push(...violations.map((violation) => generatePayerWarning(violation, payerProfile)));
+
+		// Rounded down to whole packages: the shortfall shortens the days' supply
+		if (payerProfile.packageRounding === 'down' && selection.underfill > 0 && daysSupply !== undefined) {
+			const coveredDays = Math.floor((daysSupply * selection.totalQuantity) / targetQuantity);
+			warnings.push({
+				type: 'payer_limit',
+				severity: 'info',
+				message: `Rounded down to whole packages for ${payerProfile.name}: ${selection.totalQuantity} of ${targetQuantity} covers about ${coveredDays} days`,
+			});
+		}
+	}
+
 	return warnings;
 }
 
+
+/**
+ * Generates warnings about the calculated quantity itself (independent of NDC selection).
+ * @param quantity - Calculated quantity result
+ * @returns Array of warnings
+ */
+export function generateQuantityWarnings(quantity: QuantityResult): Warning[] {
+	const warnings: Warning[] = [];
+	const { phases, remainingDays, daysSupply, weightBased, dosage } = quantity.calculation;
+
+	// Multi-step regimen shorter than the days' supply
+	if (phases && remainingDays && remainingDays > 0) {
+		const coveredDays = daysSupply - remainingDays;
+		warnings.push({
+			type: 'parse_warning',
+			severity: 'warning',
+			message: `Dosing schedule covers ${coveredDays} of ${daysSupply} days. The remaining ${remainingDays} day${remainingDays > 1 ? 's are' : ' is'} not included in the quantity.`,
+		});
+	}
+
+	// Weight-based dose above the per-dose maximum
+	if (weightBased?.exceedsMax) {
+		warnings.push({
+			type: 'max_dose_exceeded',
+			severity: 'warning',
+			message: `Weight-based dose of ${dosage} ${weightBased.unit} (${weightBased.amount} ${weightBased.unit}/kg${weightBased.basis === 'day' ? '/day' : ''} at ${weightBased.weightKg} kg) exceeds the ${weightBased.maxDose} mg per-dose maximum. Verify with the prescriber.`,
+		});
+	}
+
+	return warnings;
+}
+
+/**
+ * Generates a warning when the prescribed quantity doesn't match the SIG and days' supply.
+ * @param discrepancy - Prescribed vs calculated quantity and the days each covers
+ * @param tolerance - Fraction of the calculated quantity tolerated before warning
+ * @returns A 'quantity_mismatch' warning carrying the discrepancy, or none
+ */
+export function generateQuantityMismatchWarnings(
+	discrepancy: QuantityDiscrepancy,
+	tolerance = DEFAULT_QUANTITY_DISCREPANCY_TOLERANCE
+): Warning[] {
+	const { prescribedQuantity, calculatedQuantity, unit, daysSupply, impliedDaysSupply } = discrepancy;
+	if (Math.abs(prescribedQuantity - calculatedQuantity) <= calculatedQuantity * tolerance) {
+		return [];
+	}
+
+	const direction = prescribedQuantity > calculatedQuantity ? 'more' : 'less';
+	return [
+		{
+			type: 'quantity_mismatch',
+			severity: 'warning',
+			message: `Prescribed quantity of ${prescribedQuantity} ${unit} covers ${impliedDaysSupply} days, ${direction} than the ${daysSupply}-day supply (${calculatedQuantity} ${unit} needed). Verify with the prescriber.`,
+			discrepancy,
+		},
+	];
+}
+
+/**
+ * Generates a warning when the prescribed strength is unavailable and each dose is made up of a lower one.
+ * @param prescribedStrength - Prescribed strength (e.g., '40 mg')
+ * @param substitutes - Lower strengths that make up a dose, the dispensed one first
+ * @returns A 'strength_substitution' warning carrying the substitutes, or none
+ */
+export function generateStrengthSubstitutionWarnings(
+	prescribedStrength: string,
+	substitutes: StrengthSubstitute[]
+): Warning[] {
+	if (substitutes.length === 0) {
+		return [];
+	}
+
+	const [dispensed, ...others] = substitutes;
+	const otherOptions = others.length > 0
+		? ` Other options: ${others.map((other) => `${other.label} (${other.quantity} ${pluralizeUnit(other.unit, other.quantity)})`).join(', ')}.`
+		: '';
+	return [
+		{
+			type: 'strength_substitution',
+			severity: 'warning',
+			message: `${prescribedStrength} is not available. Each dose is ${dispensed.label} (${dispensed.quantity} ${pluralizeUnit(dispensed.unit, dispensed.quantity)} in total).${otherOptions} Verify with the prescriber.`,
+			strengthSubstitutes: substitutes,
+		},
+	];
+}
+
+/**
+ * Generates a warning when RxNorm's strength for the drug matches none of its packages, so none were filtered out.
+ * @param strength - RxNorm strength (e.g., '40 mg')
+ * @param availableStrengths - Strengths of the packages found
+ * @returns A 'strength_unmatched' warning
+ */
+export function generateStrengthUnmatchedWarnings(strength: string, availableStrengths: string[]): Warning[] {
+	const available = availableStrengths.length > 0 ? ` (available: ${availableStrengths.join(', ')})` : '';
+	return [
+		{
+			type: 'strength_unmatched',
+			severity: 'warning',
+			message: `No ${strength} packages found for this drug${available}, so packages of every strength are shown. Specify the prescribed strength to narrow them.`,
+		},
+	];
+}
@@ -0,0 +1,1036 @@
+/**
+ * Calculation flow shared by the single and batch calculate endpoints.
+ */
+
+import type { CalculationResponse, CalculationRequest } from '$lib/types/api.js';
+import { parse as parseSig } from '$lib/core/sigParser';
+import { calculate as calculateQuantity, calculateDaysSupply } from '$lib/core/quantityCalculator';
+import { selectOptimal } from '$lib/core/ndcSelector';
+import {
+	generateWarnings,
+	generateQuantityWarnings,
+	generateQuantityMismatchWarnings,
+	generateStrengthSubstitutionWarnings,
+	generateStrengthUnmatchedWarnings
+} from '$lib/core/warningGenerator';
+import { MAX_DAYS_SUPPLY } from '$lib/constants/quantityDefaults';
+import { getPayerProfile, PAYER_PROFILES } from '$lib/core/payerProfiles';
+import { isRankingStrategyId, RANKING_STRATEGIES } from '$lib/core/rankingStrategies';
+import { PACKAGING_TYPE_LABELS } from '$lib/constants/packaging';
+import {
+	searchByDrugName,
+	getSpellingSuggestions,
+	getRxcuiByNdc,
+	getDrugName,
+	getStrength,
+	getTermType,
+	getEquivalentProducts,
+	productTypeForTermType
+} from './rxnorm.js';
+import { getPackagesByRxcui, getPackageDetails, getAllPackages, type FdaPackageDetails } from './fda.js';
+import { validateSigRequest } from './requestValidation.js';
+import { parsePackageDescription, parseInjectableDevice, parseStrengthConcentration } from '$lib/core/packageParser';
+import { calculateKitDays, calculateKitQuantity } from '$lib/core/kitCalculator';
+import {
+	parseStrength,
+	formatStrength,
+	matchStrength,
+	describeStrengthSubstitutes,
+	type StrengthMatch
+} from '$lib/core/strengthMatcher';
+import { logger } from '$lib/utils/logger';
+import { detectInputType } from '$lib/utils/inputDetector.js';
+import { isDoseMassUnit, convertWeightToKg } from '$lib/utils/unitConverter';
+import { mapWithConcurrency } from '$lib/utils/concurrency';
+import type { DrugInfo } from '$lib/types/drug.js';
+import type { NdcInfo, ProductType } from '$lib/types/ndc.js';
+import type { NdcSelection } from '$lib/types/ndc.js';
+import type { Warning, QuantityDiscrepancy } from '$lib/types/warning.js';
+import type { ParsedSig, QuantityOptions } from '$lib/types/sig.js';
+
+/** Most brand/generic equivalents searched for packages when includeEquivalents is set */
+const MAX_EQUIVALENT_PRODUCTS = 10;
+
+/** Equivalents whose packages are fetched at once */
+const EQUIVALENT_LOOKUP_CONCURRENCY = 3;
+
+/**
+ * RxCUI a package was found under
+ */
+interface PackageSource {
+	sourceRxcui: string;
+	productType?: ProductType;
+}
+
+/**
+ * Adds the packages of an RxCUI's SCD/SBD equivalents to its own, so a brand search also
+ * finds AB-rated generics (and a generic search the brands).
+ * An NDC already found is kept under its first source. A failed RxNorm lookup only loses the equivalents.
+ * @param rxcui - Searched RxCUI
+ * @param packages - Packages found for the searched RxCUI
+ * @returns All packages, and the source of each by package NDC
+ */
+async function addEquivalentPackages(
+	rxcui: string,
+	packages: FdaPackageDetails[]
+): Promise<{ packages: FdaPackageDetails[]; sources: Map<string, PackageSource> }> {
+	const sources = new Map<string, PackageSource>();
+	const tag = (pkgs: FdaPackageDetails[], source: PackageSource): FdaPackageDetails[] =>
+		pkgs.filter((pkg) => {
+			if (sources.has(pkg.package_ndc)) {
+				return false;
+			}
+			sources.set(pkg.package_ndc, source);
+			return true;
+		});
+
+	try {
+		const [tty, equivalents] = await Promise.all([getTermType(rxcui), getEquivalentProducts(rxcui)]);
+		const searched = equivalents.slice(0, MAX_EQUIVALENT_PRODUCTS);
+		const found = await mapWithConcurrency(searched, EQUIVALENT_LOOKUP_CONCURRENCY, (product) =>
+			getPackagesByRxcui(product.rxcui)
+		);
+
+		const sourceType = productTypeForTermType(tty);
+		const own = tag(packages, { sourceRxcui: rxcui, ...(sourceType && { productType: sourceType }) });
+		const all = [...own];
+		searched.forEach((product, index) => {
+			all.push(...tag(found[index], { sourceRxcui: product.rxcui, productType: product.tty === 'SBD' ? 'brand' : 'generic' }));
+		});
+
+		logger.info('Equivalent packages added', undefined, {
+			rxcui,
+			equivalents: equivalents.length,
+			searched: searched.length,
+			addedPackages: all.length - own.length,
+		});
+		return { packages: all, sources };
+	} catch (error) {
+		logger.warn('Could not look up brand/generic equivalents', undefined, {
+			rxcui,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return { packages, sources: new Map() };
+	}
+}
+
+/**
+ * Complete calculation flow for one prescription:
+ * drug lookup → NDC retrieval → SIG parsing → calculation → NDC selection.
+ * Failures are returned as an unsuccessful CalculationResponse, never thrown.
+ * RxNorm/FDA lookups go through the shared cache and request deduplicator,
+ * so concurrent calculations for the same drug reuse them.
+ * @param body - Calculation request
+ * @param structuredSig - Already-structured dosage (e.g. FHIR doseAndRate/timing); skips SIG parsing
+ * @returns Calculation response (success with data, or error)
+ */
+export async function calculatePrescription(
+	body: CalculationRequest,
+	structuredSig?: ParsedSig
+): Promise<CalculationResponse> {
+	try {
+		process.stderr.write(`📝 [CALCULATE] Request body: ${JSON.stringify({ drugInput: body.drugInput, sig: body.sig, daysSupply: body.daysSupply })}\n`);
+		console.error('📝 [CALCULATE] Request body parsed:', {
+			drugInput: body.drugInput,
+			sig: body.sig,
+			daysSupply: body.daysSupply,
+		});
+
+		// Validate request
+		if (body.rxcui !== undefined && (typeof body.rxcui !== 'string' || !/^\d+$/.test(body.rxcui))) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'RxCUI must be a numeric RxNorm code.',
+				},
+			};
+		}
+
+		if (typeof body.drugInput !== 'string' || (!body.drugInput.trim() && !body.rxcui)) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Drug name or NDC is required.',
+				},
+			};
+		}
+
+		const sigError = validateSigRequest(body);
+		if (sigError) {
+			return { success: false, error: sigError };
+		}
+
+		if (
+			body.prescribedQuantity !== undefined &&
+			(typeof body.prescribedQuantity !== 'number' || body.prescribedQuantity <= 0)
+		) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Prescribed quantity must be a positive number.',
+				},
+			};
+		}
+
+		// Days supply may be omitted when a prescribed quantity is given (it is then derived from the SIG)
+		if (
+			(body.daysSupply !== undefined || body.prescribedQuantity === undefined) &&
+			(typeof body.daysSupply !== 'number' || body.daysSupply <= 0 || body.daysSupply > MAX_DAYS_SUPPLY)
+		) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: `Days supply must be between 1 and ${MAX_DAYS_SUPPLY}.`,
+				},
+			};
+		}
+
+		const payerProfile = body.payerProfile !== undefined ? getPayerProfile(body.payerProfile) : undefined;
+		if (body.payerProfile !== undefined && !payerProfile) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: `Unknown payer profile. Use one of: ${PAYER_PROFILES.map((profile) => profile.id).join(', ')}.`,
+				},
+			};
+		}
+
+		if (body.rankingStrategy !== undefined && !isRankingStrategyId(body.rankingStrategy)) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: `Unknown ranking strategy. Use one of: ${Object.keys(RANKING_STRATEGIES).join(', ')}.`,
+				},
+			};
+		}
+
+		if (
+			body.rankingStrategy === 'prefer_labeler' &&
+			(typeof body.preferredLabeler !== 'string' || !body.preferredLabeler.trim())
+		) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'A labeler code or manufacturer name is required to prefer a labeler.',
+				},
+			};
+		}
+
+		if (body.packagingPreference !== undefined && !Object.keys(PACKAGING_TYPE_LABELS).includes(body.packagingPreference)) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: `Unknown packaging. Use one of: ${Object.keys(PACKAGING_TYPE_LABELS).join(', ')}.`,
+				},
+			};
+		}
+
+		if (body.requirePackaging && !body.packagingPreference) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Choose the packaging to require.',
+				},
+			};
+		}
+
+		if (body.dispenseAt !== undefined && (typeof body.dispenseAt !== 'string' || !body.dispenseAt.trim())) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Choose the container to dispense at (e.g., CARTON or CASE).',
+				},
+			};
+		}
+
+		if (body.strength !== undefined && !parseStrength(body.strength)) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: "Strength must be one amount in mcg, mg or g (e.g., '10 mg' or '250 mg/5 mL').",
+				},
+			};
+		}
+
+		// Step 1: Detect input type and normalize to RxCUI
+		const trimmedInput = body.drugInput.trim();
+		const inputType = detectInputType(trimmedInput);
+		
+		console.log('🔍 [CALCULATE] Input type detection', { 
+			drugInput: trimmedInput,
+			inputType 
+		});
+		logger.debug('Input type detection', { drugInput: trimmedInput, inputType });
+
+		let rxcui: string | null = null;
+		let drugName: string | null = null;
+		let packageDetails: FdaPackageDetails | null = null; // Declare outside if block for later use
+		let isProductNdc = false;
+		let isPackageNdc = false;
+
+		if (inputType === 'ndc') {
+			// NOTE: The drug-name workflow begins by normalizing against RxNorm to obtain an RxCUI.
+			// Historically the NDC workflow bypassed that step and relied solely on FDA package metadata.
+			// To keep behaviour aligned (and improve resilience), we now fall back to an explicit
+			// RxNorm NDC→RxCUI lookup whenever the FDA path cannot provide the identifier.
+			// Input is an NDC code - detect if it's a product NDC (XXXXX-XXXX) or package NDC (XXXXX-XXXX-XX)
+			const ndcParts = trimmedInput.split('-');
+			isProductNdc = ndcParts.length === 2; // Product NDC: XXXXX-XXXX
+			isPackageNdc = ndcParts.length === 3; // Package NDC: XXXXX-XXXX-XX
+			
+			console.error('🔍 [CALCULATE] Detected NDC code', { 
+				ndc: trimmedInput,
+				inputType,
+				isProductNdc,
+				isPackageNdc,
+				parts: ndcParts.length
+			});
+			logger.debug('Detected NDC code', { ndc: trimmedInput, isProductNdc, isPackageNdc });
+			
+			if (isProductNdc) {
+				// Product NDC: Get all packages for this product
+				console.error('📦 [CALCULATE] Product NDC detected, fetching all packages', { productNdc: trimmedInput });
+				logger.info('Product NDC detected, fetching all packages', { productNdc: trimmedInput });
+				try {
+					const allPackages = await getAllPackages(trimmedInput);
+					if (allPackages && allPackages.length > 0) {
+						// Use first package to get metadata
+						packageDetails = allPackages[0];
+						console.error('✅ [CALCULATE] Got packages for product NDC', {
+							productNdc: trimmedInput,
+							packageCount: allPackages.length,
+							firstPackageNdc: packageDetails.package_ndc
+						});
+					}
+				} catch (error) {
+					console.error('❌ [CALCULATE] Error fetching packages for product NDC:', {
+						productNdc: trimmedInput,
+						error: error instanceof Error ? error.message : String(error)
+					});
+					logger.error('Error fetching packages for product NDC', error as Error, { productNdc: trimmedInput });
+				}
+			} else if (isPackageNdc) {
+				// Package NDC: Get specific package details
+				console.error('📦 [CALCULATE] Package NDC detected, fetching package details', { packageNdc: trimmedInput });
+				logger.debug('Package NDC detected, fetching package details', { packageNdc: trimmedInput });
+				try {
+					console.error('📞 [CALCULATE] Calling getPackageDetails() for NDC:', trimmedInput);
+					packageDetails = await getPackageDetails(trimmedInput);
+					console.error('📥 [CALCULATE] getPackageDetails() returned:', {
+						found: !!packageDetails,
+						packageNdc: packageDetails?.package_ndc,
+						productNdc: packageDetails?.product_ndc,
+						hasRxcui: packageDetails?.rxcui?.length ? true : false,
+						rxcui: packageDetails?.rxcui
+					});
+				} catch (error) {
+					console.error('❌ [CALCULATE] Error fetching package details for NDC:', {
+						ndc: trimmedInput,
+						error: error instanceof Error ? error.message : String(error),
+						stack: error instanceof Error ? error.stack : undefined
+					});
+					logger.error('Error fetching package details for NDC', error as Error, { ndc: trimmedInput });
+				}
+			} else {
+				console.error('⚠️ [CALCULATE] Invalid NDC format', { ndc: trimmedInput, parts: ndcParts.length });
+				logger.warn('Invalid NDC format', { ndc: trimmedInput, parts: ndcParts.length });
+			}
+
+			if (packageDetails) {
+				logger.info(
+					'FDA package lookup succeeded for NDC',
+					undefined,
+					{
+						ndc: trimmedInput,
+						productNdc: packageDetails.product_ndc,
+						hasRxcui: packageDetails.rxcui?.length ? true : false
+					}
+				);
+			} else {
+				logger.warn('FDA package lookup returned no result for NDC', undefined, { ndc: trimmedInput });
+			}
+
+			// For NDC inputs, prioritize RxNorm NDC→RxCUI lookup (more specific)
+			// FDA's RxCUI array may contain multiple RxCUIs for different strengths/formulations
+			console.log('🔍 [CALCULATE] Attempting RxNorm NDC→RxCUI lookup first', { ndc: trimmedInput });
+			logger.info('Attempting RxNorm NDC→RxCUI lookup', undefined, { ndc: trimmedInput });
+			rxcui = await getRxcuiByNdc(trimmedInput);
+			
+			if (rxcui) {
+				console.log('✅ [CALCULATE] RxNorm returned RxCUI for NDC', {
+					ndc: trimmedInput,
+					rxcui
+				});
+				drugName = packageDetails?.generic_name || trimmedInput;
+			} else {
+				console.warn('⚠️ [CALCULATE] RxNorm NDC lookup failed, trying FDA RxCUI array', {
+					ndc: trimmedInput,
+					hasFdaRxcui: !!packageDetails?.rxcui?.length
+				});
+				
+				// Fallback to FDA's RxCUI array (may be less specific)
+				if (packageDetails?.rxcui && packageDetails.rxcui.length > 0) {
+					rxcui = packageDetails.rxcui[0];
+					drugName = trimmedInput;
+					console.log('✅ [CALCULATE] Using FDA RxCUI from package details', {
+						ndc: trimmedInput,
+						rxcui,
+						packageNdc: packageDetails.package_ndc,
+						totalRxcuis: packageDetails.rxcui.length
+					});
+					logger.info('Using FDA RxCUI from package details', undefined, {
+						ndc: trimmedInput,
+						rxcui,
+						totalRxcuis: packageDetails.rxcui.length
+					});
+				} else if (packageDetails?.generic_name) {
+					// If FDA doesn't have RxCUI, try looking up by generic name
+					console.error('⚠️ [CALCULATE] No RxCUI in FDA package, trying generic name lookup', {
+						genericName: packageDetails.generic_name
+					});
+					logger.info('Fallback: RxNorm drug name lookup using FDA generic name', undefined, {
+						genericName: packageDetails.generic_name
+					});
+					rxcui = await searchByDrugName(packageDetails.generic_name);
+					if (rxcui) {
+						console.log('✅ [CALCULATE] Found RxCUI via generic name lookup', {
+							genericName: packageDetails.generic_name,
+							rxcui
+						});
+						drugName = packageDetails.generic_name;
+					}
+				}
+			}
+
+			if (!rxcui) {
+				// If we have package details but no RxCUI, we can still proceed using the product NDC
+				if (packageDetails && packageDetails.product_ndc) {
+					console.error('⚠️ [CALCULATE] No RxCUI found, but we have package details. Will use product NDC to fetch all packages', {
+						ndc: trimmedInput,
+						productNdc: packageDetails.product_ndc
+					});
+					logger.info('No RxCUI found, but proceeding with product NDC', undefined, {
+						ndc: trimmedInput,
+						productNdc: packageDetails.product_ndc
+					});
+					// Set a flag to use product NDC instead of RxCUI
+					// We'll handle this in the next step
+				} else {
+					console.error('❌ [CALCULATE] Unable to resolve RxCUI for NDC after FDA and RxNorm fallback, and no package details', {
+						ndc: trimmedInput
+					});
+					logger.warn('NDC not linked to any RxCUI and no package details', undefined, { ndc: trimmedInput });
+					return {
+						success: false,
+						error: {
+							code: 'DRUG_NOT_FOUND',
+							message:
+								'NDC code not found in FDA or RxNorm data sources. Please verify the code or try a different NDC.'
+						}
+					};
+				}
+			}
+		} else {
+			// Input is a drug name - lookup RxCUI
+			console.log('🔍 [CALCULATE] Detected drug name, starting drug normalization', { drugInput: trimmedInput });
+			logger.debug('Starting drug normalization', { drugInput: trimmedInput });
+			// A coded prescription's RxCUI is used as is
+			rxcui = body.rxcui ?? (await searchByDrugName(trimmedInput));
+			drugName = trimmedInput;
+
+			console.log('🔍 [CALCULATE] RxCUI lookup result', { 
+				drugInput: trimmedInput,
+				rxcui: rxcui || 'NOT FOUND',
+			});
+
+			if (!rxcui) {
+				console.warn('⚠️ [CALCULATE] Drug not found, getting spelling suggestions');
+				// Try to get spelling suggestions
+				const suggestions = await getSpellingSuggestions(trimmedInput);
+				console.warn('⚠️ [CALCULATE] Spelling suggestions', { suggestions });
+				return {
+					success: false,
+					error: {
+						code: 'DRUG_NOT_FOUND',
+						message: 'Drug not found. Please check the spelling or try a different name.',
+						details: {
+							suggestions: suggestions || [],
+						},
+					},
+				};
+			}
+		}
+
+		// Step 2: Get NDCs from FDA API
+		// If we have an RxCUI, use it. Otherwise, if we have package details with product NDC, use that.
+		let fdaPackages: FdaPackageDetails[] = [];
+		let packageSources = new Map<string, PackageSource>();
+		
+		if (rxcui) {
+			console.log('🔍 [CALCULATE] Fetching NDCs from FDA API by RxCUI', { 
+				rxcui, 
+				drugInput: body.drugInput.trim() 
+			});
+			logger.info('Fetching NDCs from FDA API by RxCUI', { 
+				rxcui, 
+				drugInput: body.drugInput.trim() 
+			});
+			fdaPackages = await getPackagesByRxcui(rxcui);
+			if (body.includeEquivalents) {
+				({ packages: fdaPackages, sources: packageSources } = await addEquivalentPackages(rxcui, fdaPackages));
+			}
+		} else if (inputType === 'ndc') {
+			// No RxCUI, but we have an NDC input - determine product NDC
+			const productNdc = isProductNdc ? trimmedInput : (packageDetails?.product_ndc || null);
+			
+			if (productNdc) {
+				// Fetch all packages for this product NDC
+				console.error('🔍 [CALCULATE] Fetching NDCs from FDA API by product NDC (no RxCUI available)', {
+					productNdc,
+					drugInput: body.drugInput.trim(),
+					wasProductNdc: isProductNdc
+				});
+				logger.info('Fetching NDCs from FDA API by product NDC', {
+					productNdc,
+					drugInput: body.drugInput.trim()
+				});
+				fdaPackages = await getAllPackages(productNdc);
+				
+				// If we got packages, we can extract drug name from the first package
+				if (fdaPackages.length > 0 && !drugName) {
+					// Try to get drug name from package metadata or use NDC as fallback
+					drugName = trimmedInput;
+				}
+			} else if (isPackageNdc && packageDetails) {
+				// We have a package NDC but no product NDC - use the single package we found
+				fdaPackages = [packageDetails];
+			}
+		}
+
+		console.log('📦 [CALCULATE] FDA packages retrieved', {
+			rxcui,
+			totalPackages: fdaPackages?.length || 0,
+			activePackages: fdaPackages?.filter((p) => p.active).length || 0,
+			inactivePackages: fdaPackages?.filter((p) => !p.active).length || 0,
+		});
+		logger.info('FDA packages retrieved', {
+			rxcui,
+			totalPackages: fdaPackages?.length || 0,
+			activePackages: fdaPackages?.filter((p) => p.active).length || 0,
+			inactivePackages: fdaPackages?.filter((p) => !p.active).length || 0,
+		});
+
+		if (!fdaPackages || fdaPackages.length === 0) {
+			console.error('❌ [CALCULATE] No FDA packages found', {
+				rxcui,
+				drugInput: body.drugInput.trim(),
+			});
+			logger.warn('No FDA packages found', {
+				rxcui,
+				drugInput: body.drugInput.trim(),
+			});
+			return {
+				success: false,
+				error: {
+					code: 'NO_NDCS_FOUND',
+					message: inputType === 'drug' 
+						? `"${body.drugInput.trim()}" is recognized but has no NDCs available in the FDA database. This drug may be very new, discontinued, or not available in the US market.`
+						: 'No active NDCs found for this drug. The drug may be discontinued or unavailable.',
+					details: {
+						rxcui,
+						drugInput: body.drugInput.trim(),
+						reason: 'FDA API returned no packages for this RxCUI',
+					},
+				},
+			};
+		}
+
+		// Convert FDA package details to NdcInfo format
+		const ndcList: NdcInfo[] = [];
+		let parseFailures = 0;
+
+		for (const pkg of fdaPackages) {
+				// Parse package description to get package size
+				const parsed = parsePackageDescription(pkg.package_description, { dispenseAt: body.dispenseAt?.trim() });
+				if (!parsed) {
+				logger.warn(`Could not parse package description: ${pkg.package_description}`, {
+					packageNdc: pkg.package_ndc,
+					productNdc: pkg.product_ndc,
+				});
+				parseFailures++;
+				continue;
+				}
+
+			ndcList.push({
+					ndc: pkg.package_ndc,
+					packageSize: parsed.quantity,
+					packageDescription: pkg.package_description,
+					manufacturer: pkg.manufacturer_name,
+					dosageForm: pkg.dosage_form,
+					active: pkg.active,
+					...packageSources.get(pkg.package_ndc),
+					...(pkg.strength && { strength: formatStrength(pkg.strength) }),
+			});
+		}
+
+		console.log('📊 [CALCULATE] Package parsing complete', {
+			rxcui,
+			totalFdaPackages: fdaPackages.length,
+			successfullyParsed: ndcList.length,
+			parseFailures,
+		});
+		logger.info('Package parsing complete', {
+			rxcui,
+			totalFdaPackages: fdaPackages.length,
+			successfullyParsed: ndcList.length,
+			parseFailures,
+		});
+
+		if (ndcList.length === 0) {
+			console.warn('⚠️ [CALCULATE] No valid NDCs after parsing', {
+				rxcui,
+				totalFdaPackages: fdaPackages.length,
+				parseFailures,
+			});
+			logger.warn('No valid NDCs after parsing', {
+				rxcui,
+				totalFdaPackages: fdaPackages.length,
+				parseFailures,
+			});
+			return {
+				success: false,
+				error: {
+					code: 'NO_NDCS_FOUND',
+					message: 'No valid NDCs found after parsing package descriptions.',
+				},
+			};
+		}
+
+		// Filter out inactive NDCs
+		let activeNdcs = ndcList.filter((ndc) => ndc.active);
+		const inactiveNdcs = ndcList.filter((ndc) => !ndc.active);
+
+		console.log('🔍 [CALCULATE] NDC filtering complete', {
+			rxcui,
+			totalNdcs: ndcList.length,
+			activeNdcs: activeNdcs.length,
+			inactiveNdcs: inactiveNdcs.length,
+			inactiveNdcList: inactiveNdcs.map((n) => ({ ndc: n.ndc, description: n.packageDescription })),
+		});
+		logger.info('NDC filtering complete', {
+			rxcui,
+			totalNdcs: ndcList.length,
+			activeNdcs: activeNdcs.length,
+			inactiveNdcs: inactiveNdcs.length,
+			inactiveNdcList: inactiveNdcs.map((n) => ({ ndc: n.ndc, description: n.packageDescription })),
+		});
+
+		if (activeNdcs.length === 0) {
+			const debugInfo = {
+				rxcui,
+				totalNdcs: ndcList.length,
+				inactiveNdcs: inactiveNdcs.length,
+				inactiveDetails: inactiveNdcs.map((n) => ({
+					ndc: n.ndc,
+					description: n.packageDescription,
+				})),
+				totalFdaPackages: fdaPackages.length,
+				activeFdaPackages: fdaPackages.filter((p) => p.active).length,
+			};
+			console.error('❌ [CALCULATE] No active NDCs found after filtering', debugInfo);
+			logger.warn('No active NDCs found after filtering', debugInfo);
+			return {
+				success: false,
+				error: {
+					code: 'NO_NDCS_FOUND',
+					message: 'No active NDCs found for this drug.',
+					details: {
+						rxcui,
+						totalNdcs: ndcList.length,
+						inactiveNdcs: inactiveNdcs.length,
+						inactiveNdcList: inactiveNdcs.map((ndc) => ({
+							ndc: ndc.ndc,
+							description: ndc.packageDescription,
+							reason: 'NDC is inactive',
+						})),
+					},
+				},
+			};
+		}
+
+		// Step 3: Parse SIG (parallel with NDC fetch, but we already have NDCs)
+		logger.debug('Parsing SIG', { sig: body.sig, structured: !!structuredSig });
+		let parsedSig = structuredSig ?? (await parseSig(body.sig));
+
+		if (!parsedSig) {
+			return {
+				success: false,
+				error: {
+					code: 'SIG_PARSE_FAILED',
+					message:
+						'Could not parse the prescription instructions. Please use a format like "Take 1 tablet twice daily".',
+				},
+			};
+		}
+
+		if (parsedSig.weightBasedDose && !body.patientWeight) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Patient weight is required for weight-based (mg/kg) instructions.',
+				},
+			};
+		}
+
+		// Strength: the request's, the drug input's, the entered package's, or RxNorm's for the RxCUI.
+		// FDA fallbacks search by ingredient, so other strengths are dropped (or substitute for an unavailable one).
+		// A strength only RxNorm gives is not enforced when no package matches it
+		const requestedStrength =
+			parseStrength(body.strength) ??
+			(inputType === 'drug' ? parseStrength(trimmedInput) : null) ??
+			parseStrength(packageDetails?.strength);
+		let prescribedStrength = requestedStrength;
+		if (!prescribedStrength && rxcui) {
+			try {
+				prescribedStrength = parseStrength(await getStrength(rxcui));
+			} catch (error) {
+				logger.debug('Could not get strength from RxNorm', undefined, {
+					rxcui,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+		let strengthMatch: StrengthMatch | null = null;
+		let strengthUnmatchedWarnings: Warning[] = [];
+		if (prescribedStrength) {
+			strengthMatch = matchStrength(activeNdcs, prescribedStrength, parsedSig.unit);
+			if (!strengthMatch) {
+				const available = [...new Set(activeNdcs.flatMap((ndc) => (ndc.strength ? [ndc.strength] : [])))];
+				if (requestedStrength) {
+					return {
+						success: false,
+						error: {
+							code: 'NO_NDCS_FOUND',
+							message: `No ${formatStrength(prescribedStrength)} packages found for this drug (available: ${available.join(', ')}).`,
+							details: { strength: formatStrength(prescribedStrength), availableStrengths: available },
+						},
+					};
+				}
+				// Only RxNorm named this strength (its text or the SIG's unit may not line up with FDA's): keep every package
+				logger.warn('RxNorm strength matches no package; not filtering by strength', undefined, {
+					rxcui,
+					strength: formatStrength(prescribedStrength),
+					availableStrengths: available,
+				});
+				strengthUnmatchedWarnings = generateStrengthUnmatchedWarnings(formatStrength(prescribedStrength), available);
+				prescribedStrength = null;
+			} else {
+				logger.info('Packages matched to the prescribed strength', undefined, {
+					strength: formatStrength(prescribedStrength),
+					activeNdcs: activeNdcs.length,
+					matchingNdcs: strengthMatch.ndcs.length,
+					unitsPerDose: strengthMatch.unitsPerDose,
+				});
+				activeNdcs = strengthMatch.ndcs;
+			}
+		}
+
+		// Liquids: SIGs dose by drug amount ("250 mg") while the concentration lives in the product strength
+		if (
+			!parsedSig.concentration &&
+			isDoseMassUnit(parsedSig.unit) &&
+			(!parsedSig.dosageForm || parsedSig.dosageForm === 'liquid' || parsedSig.dosageForm === 'other')
+		) {
+			const activeNdcCodes = new Set(activeNdcs.map((ndc) => ndc.ndc));
+			// Prefer the product the user entered, then any active package of the drug
+			const concentration = [packageDetails, ...fdaPackages.filter((pkg) => activeNdcCodes.has(pkg.package_ndc))]
+				.map((pkg) => (pkg?.strength ? parseStrengthConcentration(pkg.strength) : null))
+				.find((candidate) => candidate !== null);
+			if (concentration) {
+				logger.info('Using product strength as liquid concentration', undefined, {
+					sig: body.sig,
+					concentration: `${concentration.amount} ${concentration.unit}/${concentration.volume} ${concentration.volumeUnit}`,
+				});
+				parsedSig = { ...parsedSig, dosageForm: 'liquid', concentration };
+			}
+		}
+
+		// Step 4: Calculate quantity
+		logger.debug('Calculating quantity', { parsedSig, daysSupply: body.daysSupply });
+		// Insulin: size pens/vials from the product's own packages
+		const insulinDevice =
+			parsedSig.dosageForm === 'insulin'
+				? activeNdcs
+						.map((ndc) => parseInjectableDevice(ndc.packageDescription))
+						.find((device) => device !== null) ?? undefined
+				: undefined;
+		// Inhalers: actuations per device from package metadata when the SIG doesn't state one
+		const inhalerCapacity =
+			parsedSig.dosageForm === 'inhaler' && !parsedSig.capacity
+				? activeNdcs
+						.map((ndc) => parsePackageDescription(ndc.packageDescription)?.metadata?.capacity)
+						.find((capacity) => !!capacity)
+				: undefined;
+		// Kits: when every active package is a kit, whole kits are dispensed, each covering a fixed number of days
+		const activeKits = activeNdcs.flatMap((ndc) => {
+			const parsed = parsePackageDescription(ndc.packageDescription);
+			return parsed?.unit === 'KIT' ? [parsed] : [];
+		});
+		const kitPackage =
+			activeKits.length === activeNdcs.length
+				? (activeKits.find((kit) => kit.kitComponents?.length) ?? activeKits[0])
+				: undefined;
+		const quantityOptions: QuantityOptions = {
+			doseRangePolicy: body.doseRangePolicy,
+			prnDosesPerDay: body.prnDosesPerDay,
+			insulinDevice,
+			inhalerCapacity,
+			patientWeightKg: body.patientWeight ? convertWeightToKg(body.patientWeight) : undefined,
+			maxDosePerDoseMg: body.maxDosePerDoseMg,
+		};
+		let quantity;
+		let discrepancy: QuantityDiscrepancy | undefined;
+		try {
+			// Prescribed quantity: the days it covers per the SIG, or the days supply itself when omitted
+			// (kits: the prescribed number of kits times the days one kit covers)
+			const kitDays = kitPackage ? calculateKitDays(parsedSig, kitPackage, quantityOptions)?.days : undefined;
+			const impliedDaysSupply =
+				body.prescribedQuantity === undefined
+					? undefined
+					: kitPackage
+						? kitDays && body.prescribedQuantity * kitDays
+						: calculateDaysSupply(parsedSig, body.prescribedQuantity, quantityOptions);
+			const daysSupply = body.daysSupply ?? impliedDaysSupply;
+			if (!daysSupply) {
+				return {
+					success: false,
+					error: {
+						code: 'INVALID_INPUT',
+						message:
+							kitPackage && !kitDays
+								? "Days supply is required: the instructions do not dose the kit's products."
+								: 'Prescribed quantity does not cover one day of the prescription instructions.',
+					},
+				};
+			}
+
+			quantity = kitPackage
+				? calculateKitQuantity(parsedSig, daysSupply, kitPackage, quantityOptions)
+				: calculateQuantity(parsedSig, daysSupply, quantityOptions);
+			if (body.daysSupply === undefined) {
+				quantity = {
+					...quantity,
+					assumptions: [
+						...(quantity.assumptions ?? []),
+						`Days supply derived from the prescribed quantity of ${body.prescribedQuantity} ${quantity.unit}: ${daysSupply} days`,
+					],
+				};
+			} else if (body.prescribedQuantity !== undefined && impliedDaysSupply !== undefined) {
+				discrepancy = {
+					prescribedQuantity: body.prescribedQuantity,
+					calculatedQuantity: quantity.total,
+					unit: quantity.unit,
+					daysSupply,
+					impliedDaysSupply,
+				};
+			}
+		} catch (error) {
+			logger.error('Quantity calculation failed', error as Error);
+			return {
+				success: false,
+				error: {
+					code: 'CALCULATION_ERROR',
+					// Kit coverage errors are written for the user
+					message:
+						kitPackage && error instanceof Error
+							? error.message
+							: 'An error occurred during quantity calculation.',
+				},
+			};
+		}
+
+		// Unavailable strength: each dose takes several units of a lower one
+		const strengthSubstitutes = strengthMatch
+			? describeStrengthSubstitutes(strengthMatch.substitutes, quantity.total, quantity.unit)
+			: [];
+		if (strengthMatch && strengthMatch.unitsPerDose > 1) {
+			quantity = {
+				...quantity,
+				total: strengthSubstitutes[0].quantity,
+				calculation: { ...quantity.calculation, dosage: quantity.calculation.dosage * strengthMatch.unitsPerDose },
+			};
+		}
+
+		// Step 5: Select optimal NDCs
+		// If input was an NDC, prioritize that NDC in the selection
+		const preferredNdc = inputType === 'ndc' ? trimmedInput : undefined;
+		logger.debug('Selecting optimal NDCs', { 
+			targetQuantity: quantity.total, 
+			ndcCount: activeNdcs.length,
+			preferredNdc,
+			rankingStrategy: body.rankingStrategy,
+		});
+		const selections = selectOptimal(activeNdcs, quantity.total, quantity.unit, 5, preferredNdc, payerProfile, {
+			strategy: body.rankingStrategy,
+			labeler: body.preferredLabeler?.trim(),
+			packaging: body.packagingPreference,
+			requirePackaging: body.requirePackaging,
+			dispenseAt: body.dispenseAt?.trim(),
+		});
+
+		if (selections.length === 0) {
+			return {
+				success: false,
+				error: {
+					code: 'NO_NDCS_FOUND',
+					message:
+						body.requirePackaging && body.packagingPreference
+							? `No ${PACKAGING_TYPE_LABELS[body.packagingPreference].toLowerCase()} packages found for this drug.`
+							: 'No suitable NDCs found for the calculated quantity.',
+				},
+			};
+		}
+
+		// Step 6: Generate warnings and format response
+		const recommendedNdc: NdcSelection = selections[0];
+		const alternatives: NdcSelection[] = selections.slice(1);
+
+		// Generate warnings for recommended NDC
+		const recommendedNdcInfo = activeNdcs.find((n) => n.ndc === recommendedNdc.ndc);
+		const warnings: Warning[] = [
+			...generateQuantityWarnings(quantity),
+			...(discrepancy ? generateQuantityMismatchWarnings(discrepancy) : []),
+			...(prescribedStrength ? generateStrengthSubstitutionWarnings(formatStrength(prescribedStrength), strengthSubstitutes) : []),
+			...strengthUnmatchedWarnings,
+			...(recommendedNdcInfo
+				? generateWarnings(
+						recommendedNdc,
+						quantity.total,
+						parsedSig,
+						recommendedNdcInfo,
+						payerProfile,
+						quantity.calculation.daysSupply
+					)
+				: []),
+		];
+
+		// Build drug info - get drug name from RxNorm if we have RxCUI
+		// If input was NDC, we need to get the drug name from RxNorm or FDA package
+		let finalDrugName = drugName;
+		if ((inputType === 'ndc' || !drugName) && rxcui) {
+			// Try to get drug name from RxNorm using RxCUI (NDC input, or a coded RxCUI without a name)
+			try {
+				const rxnormName = await getDrugName(rxcui);
+				if (rxnormName) {
+					finalDrugName = rxnormName;
+					console.log('✅ [CALCULATE] Got drug name from RxNorm', { 
+						rxcui, 
+						drugName: finalDrugName 
+					});
+				}
+			} catch (error) {
+				logger.debug('Could not get drug name from RxNorm, using NDC as fallback', { rxcui, error });
+			}
+		} else if (inputType === 'ndc' && !rxcui && packageDetails) {
+			// No RxCUI, but we have package details - try to extract drug name from FDA data
+			// The package details might have generic_name or brand_name in the original FDA response
+			// For now, use the NDC as the name, but we could enhance this later
+			finalDrugName = packageDetails.package_ndc || body.drugInput.trim();
+			console.error('⚠️ [CALCULATE] No RxCUI, using NDC as drug name', {
+				finalDrugName
+			});
+		}
+
+		const firstPackage = fdaPackages[0] || packageDetails;
+		const drugInfo: DrugInfo = {
+			name: finalDrugName || body.drugInput.trim() || rxcui || '',
+			rxcui: rxcui || undefined, // Allow undefined RxCUI
+			strength: prescribedStrength ? formatStrength(prescribedStrength) : firstPackage?.strength,
+			dosageForm: firstPackage?.dosage_form,
+		};
+
+		// Format response
+		const response: CalculationResponse = {
+			success: true,
+			data: {
+				drug: drugInfo,
+				quantity: quantity,
+				recommendedNdc: {
+					...recommendedNdc,
+					packageDescription: recommendedNdc.packageDescription || recommendedNdcInfo?.packageDescription,
+					manufacturer: recommendedNdc.manufacturer || recommendedNdcInfo?.manufacturer,
+				},
+				alternatives: alternatives.map((alt) => {
+					const altInfo = activeNdcs.find((n) => n.ndc === alt.ndc);
+					return {
+						...alt,
+						packageDescription: alt.packageDescription || altInfo?.packageDescription,
+						manufacturer: alt.manufacturer || altInfo?.manufacturer,
+					};
+				}),
+				warnings: warnings,
+				inactiveNdcs:
+					inactiveNdcs.length > 0
+						? inactiveNdcs.map((ndc) => ({
+								ndc: ndc.ndc,
+								reason: 'NDC is inactive',
+							}))
+						: undefined,
+			},
+		};
+
+		logger.info('Calculation completed successfully', {
+			drug: body.drugInput,
+			rxcui,
+			quantity: quantity.total,
+			selectionsCount: selections.length,
+		});
+
+		return response;
+	} catch (error) {
+		logger.error('Calculation flow error', error as Error);
+
+		// Check if it's a known error type
+		if (error instanceof Error) {
+			if (error.message.includes('timeout') || error.message.includes('TIMEOUT')) {
+				return {
+					success: false,
+					error: {
+						code: 'TIMEOUT_ERROR',
+						message: 'The request took too long. Please try again.',
+					},
+				};
+			}
+
+			if (error.message.includes('rate limit') || error.message.includes('429')) {
+				return {
+					success: false,
+					error: {
+						code: 'RATE_LIMIT_ERROR',
+						message: 'Too many requests. Please wait a moment before trying again.',
+					},
+				};
+			}
+		}
+
+		return {
+			success: false,
+			error: {
+				code: 'API_ERROR',
+				message: 'An unexpected error occurred. Please try again.',
+			},
+		};
+	}
+}
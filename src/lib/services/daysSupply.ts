@@ -0,0 +1,147 @@
+/**
+ * Days-supply flow: the days a dispensed package NDC covers for a SIG.
+ */
+
+import type { DaysSupplyRequest, DaysSupplyResponse } from '$lib/types/api.js';
+import type { DaysSupplyCalculation } from '$lib/types/sig.js';
+import { parse as parseSig } from '$lib/core/sigParser';
+import { calculateDaysSupplyFromPackage } from '$lib/core/daysSupplyCalculator';
+import { parseStrengthConcentration } from '$lib/core/packageParser';
+import { getPackageDetails } from './fda.js';
+import { validateSigRequest } from './requestValidation.js';
+import { normalizeNdc } from '$lib/utils/ndcNormalizer';
+import { isDoseMassUnit, convertWeightToKg } from '$lib/utils/unitConverter';
+import { logger } from '$lib/utils/logger';
+
+/**
+ * Complete days-supply flow for one dispensed package:
+ * package lookup → package quantity → SIG parsing → days' supply.
+ * Failures are returned as an unsuccessful DaysSupplyResponse, never thrown.
+ * @param body - Days-supply request
+ * @returns Days-supply response (success with data, or error)
+ */
+export async function calculateDaysSupplyForNdc(body: DaysSupplyRequest): Promise<DaysSupplyResponse> {
+	try {
+		const ndc = typeof body.ndc === 'string' ? normalizeNdc(body.ndc.trim()) : null;
+		if (!ndc) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'A package NDC (e.g., 12345-6789-01) is required.',
+				},
+			};
+		}
+
+		if (typeof body.packageCount !== 'number' || body.packageCount <= 0) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Package count must be a positive number.',
+				},
+			};
+		}
+
+		const sigError = validateSigRequest(body);
+		if (sigError) {
+			return { success: false, error: sigError };
+		}
+
+		// Step 1: Package quantity from the FDA package description
+		const packageDetails = await getPackageDetails(ndc);
+		if (!packageDetails) {
+			return {
+				success: false,
+				error: {
+					code: 'DRUG_NOT_FOUND',
+					message: 'NDC code not found in the FDA database. Please verify the package NDC.',
+				},
+			};
+		}
+
+		// Step 2: Parse SIG
+		let parsedSig = await parseSig(body.sig);
+		if (!parsedSig) {
+			return {
+				success: false,
+				error: {
+					code: 'SIG_PARSE_FAILED',
+					message:
+						'Could not parse the prescription instructions. Please use a format like "Take 1 tablet twice daily".',
+				},
+			};
+		}
+
+		if (parsedSig.weightBasedDose && !body.patientWeight) {
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: 'Patient weight is required for weight-based (mg/kg) instructions.',
+				},
+			};
+		}
+
+		// Liquids dosed by drug amount ("250 mg"): the concentration is the product strength
+		const concentration =
+			!parsedSig.concentration && isDoseMassUnit(parsedSig.unit) && packageDetails.strength
+				? parseStrengthConcentration(packageDetails.strength)
+				: null;
+		if (concentration) {
+			parsedSig = { ...parsedSig, dosageForm: 'liquid', concentration };
+		}
+
+		// Step 3: Days' supply
+		let calculation: DaysSupplyCalculation;
+		try {
+			calculation = calculateDaysSupplyFromPackage(parsedSig, packageDetails.package_description, body.packageCount, {
+				doseRangePolicy: body.doseRangePolicy,
+				prnDosesPerDay: body.prnDosesPerDay,
+				patientWeightKg: body.patientWeight ? convertWeightToKg(body.patientWeight) : undefined,
+				maxDosePerDoseMg: body.maxDosePerDoseMg,
+			});
+		} catch (error) {
+			logger.warn('Days supply calculation failed', undefined, {
+				ndc,
+				packageDescription: packageDetails.package_description,
+				reason: error instanceof Error ? error.message : String(error),
+			});
+			return {
+				success: false,
+				error: {
+					code: 'INVALID_INPUT',
+					message: error instanceof Error ? error.message : 'An error occurred during days supply calculation.',
+				},
+			};
+		}
+
+		logger.info('Days supply calculated', undefined, {
+			ndc,
+			packageCount: body.packageCount,
+			daysSupply: calculation.daysSupply,
+			rounding: calculation.rounding,
+		});
+
+		return {
+			success: true,
+			data: {
+				...calculation,
+				ndc: packageDetails.package_ndc || ndc,
+				packageDescription: packageDetails.package_description,
+				packageCount: body.packageCount,
+				drugName: packageDetails.brand_name || packageDetails.generic_name,
+				parsedSig,
+			},
+		};
+	} catch (error) {
+		logger.error('Days supply flow error', error as Error);
+		return {
+			success: false,
+			error: {
+				code: 'API_ERROR',
+				message: 'An unexpected error occurred. Please try again.',
+			},
+		};
+	}
+}
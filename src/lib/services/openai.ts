@@ -34,6 +34,9 @@ Special dosage forms to recognize:
 - Liquids: Extract volume (mL/L) and concentration if present (e.g., "5mg/mL")
 - Insulin: Extract units and strength (U-100, U-200) if mentioned
 - Inhalers: Extract actuations/puffs and canister capacity if mentioned
+- Eye/ear drops: Use unit "drop"; count drops per eye/ear (e.g., "1 drop in each eye" = 2)
+- Topicals: Use unit "g" for a stated amount, otherwise "application"
+- Transdermal patches: Use unit "patch"; "every 72 hours" = 0.333 per day, "twice weekly" = 0.286 per day
 
 Return JSON format:
 {
@@ -41,7 +44,7 @@ Return JSON format:
   "frequency": number,
   "unit": string,
   "confidence": number,
-  "dosageForm": "tablet" | "capsule" | "liquid" | "insulin" | "inhaler" | "other" (optional),
+  "dosageForm": "tablet" | "capsule" | "liquid" | "insulin" | "inhaler" | "topical" | "ophthalmic" | "otic" | "transdermal" | "other" (optional),
   "concentration": { "amount": number, "unit": string, "volume": number, "volumeUnit": string } | null (optional),
   "capacity": number | null (optional, for inhalers: actuations per canister),
   "insulinStrength": number | null (optional, for insulin: U-100 = 100)
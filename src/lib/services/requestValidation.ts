@@ -0,0 +1,68 @@
+/**
+ * Request validation shared by the calculate and days-supply flows.
+ */
+
+import type { ApiError, CalculationRequest } from '$lib/types/api.js';
+
+/**
+ * SIG and the options that change how it is dosed
+ */
+export type SigRequestFields = Pick<
+	CalculationRequest,
+	'sig' | 'doseRangePolicy' | 'prnDosesPerDay' | 'patientWeight' | 'maxDosePerDoseMg'
+>;
+
+/**
+ * Validates the SIG and its dosing options
+ * @param body - Calculate or days-supply request
+ * @returns INVALID_INPUT error for the first invalid field, or null when all are valid
+ */
+export function validateSigRequest(body: SigRequestFields): ApiError | null {
+	if (!body.sig || typeof body.sig !== 'string') {
+		return {
+			code: 'INVALID_INPUT',
+			message: 'SIG (prescription instructions) is required.',
+		};
+	}
+
+	if (body.doseRangePolicy !== undefined && !['min', 'max', 'average'].includes(body.doseRangePolicy)) {
+		return {
+			code: 'INVALID_INPUT',
+			message: 'Dose range policy must be one of: min, max, average.',
+		};
+	}
+
+	if (
+		body.prnDosesPerDay !== undefined &&
+		(typeof body.prnDosesPerDay !== 'number' || body.prnDosesPerDay <= 0 || body.prnDosesPerDay > 24)
+	) {
+		return {
+			code: 'INVALID_INPUT',
+			message: 'PRN doses per day must be between 1 and 24.',
+		};
+	}
+
+	if (
+		body.patientWeight !== undefined &&
+		(typeof body.patientWeight?.value !== 'number' ||
+			body.patientWeight.value <= 0 ||
+			!['kg', 'lb'].includes(body.patientWeight.unit))
+	) {
+		return {
+			code: 'INVALID_INPUT',
+			message: 'Patient weight must be a positive number in kg or lb.',
+		};
+	}
+
+	if (
+		body.maxDosePerDoseMg !== undefined &&
+		(typeof body.maxDosePerDoseMg !== 'number' || body.maxDosePerDoseMg <= 0)
+	) {
+		return {
+			code: 'INVALID_INPUT',
+			message: 'Maximum dose per dose must be a positive number of mg.',
+		};
+	}
+
+	return null;
+}
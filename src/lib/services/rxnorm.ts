@@ -7,13 +7,22 @@ import { logger } from '$lib/utils/logger.js';
 import { withRetry } from '$lib/utils/retry.js';
 import { cache } from './cache.js';
 import { deduplicate } from '$lib/utils/requestDeduplicator.js';
-import { rxnormNameKey, rxnormNdcsKey, rxnormNdcKey } from '$lib/constants/cacheKeys.js';
+import {
+	rxnormNameKey,
+	rxnormNdcsKey,
+	rxnormNdcKey,
+	rxnormPropertiesKey,
+	rxnormRelatedKey
+} from '$lib/constants/cacheKeys.js';
 import {
 	RXNORM_NAME_TTL as NAME_TTL,
 	RXNORM_NDCS_TTL as NDC_TTL,
-	RXNORM_NDC_TTL as NDC_TO_RXCUI_TTL
+	RXNORM_NDC_TTL as NDC_TO_RXCUI_TTL,
+	RXNORM_RELATED_TTL as RELATED_TTL
 } from '$lib/constants/cacheTtl.js';
 import { normalizeNdc } from '$lib/utils/ndcNormalizer.js';
+import type { RelatedProduct } from '$lib/types/drug.js';
+import type { ProductType } from '$lib/types/ndc.js';
 
 const BASE_URL = 'https://rxnav.nlm.nih.gov/REST';
 const TIMEOUT_MS = 10000; // 10 seconds
@@ -42,6 +51,45 @@ interface RxNormPropertyResponse {
 	};
 }
 
+interface RxNormPropertiesResponse {
+	properties?: {
+		rxcui?: string;
+		name?: string;
+		tty?: string;
+	};
+}
+
+/**
+ * Cached RxCUI properties (name and term type share one lookup).
+ */
+interface RxCuiProperties {
+	name: string | null;
+	tty: string | null;
+}
+
+interface RxNormRelatedResponse {
+	relatedGroup?: {
+		conceptGroup?: Array<{
+			tty?: string;
+			conceptProperties?: Array<{
+				rxcui?: string;
+				name?: string;
+				tty?: string;
+			}>;
+		}>;
+	};
+}
+
+/**
+ * RxNorm term types of branded products (branded drug, brand name, branded pack)
+ */
+const BRAND_TERM_TYPES = ['SBD', 'BN', 'SBDF', 'SBDG', 'BPCK'];
+
+/**
+ * RxNorm term types of generic products (clinical drug, its form/group, generic pack)
+ */
+const GENERIC_TERM_TYPES = ['SCD', 'SCDF', 'SCDG', 'GPCK'];
+
 interface RxNormSuggestionResponse {
 	suggestionGroup?: {
 		suggestionList?: {
@@ -240,6 +288,123 @@ export async function getRxcuiByNdc(ndc: string): Promise<string | null> {
 	});
 }
 
+/**
+ * Get the name and term type of an RxCUI from one /properties.json call.
+ * @param rxcui - RxCUI identifier
+ * @returns Properties, or null if the RxCUI is not found
+ */
+async function getProperties(rxcui: string): Promise<RxCuiProperties | null> {
+	const cacheKey = rxnormPropertiesKey(rxcui);
+
+	return deduplicate(cacheKey, async () => {
+		// Check cache
+		const cached = await cache.get<RxCuiProperties>(cacheKey);
+		if (cached) {
+			logger.debug(`RxNorm properties cache hit: ${rxcui}`);
+			return cached;
+		}
+
+		// Make API call
+		try {
+			const response = await makeRequest<RxNormPropertiesResponse>(`/rxcui/${rxcui}/properties.json`);
+			if (!response.properties) {
+				return null;
+			}
+
+			const properties: RxCuiProperties = {
+				name: response.properties.name || null,
+				tty: response.properties.tty || null,
+			};
+			await cache.set(cacheKey, properties, NAME_TTL);
+
+			return properties;
+		} catch (error) {
+			logger.error(`Error getting properties for RxCUI: ${rxcui}`, error as Error);
+			throw error;
+		}
+	});
+}
+
+/**
+ * Get the RxNorm drug name for an RxCUI.
+ * @param rxcui - RxCUI identifier
+ * @returns Drug name (e.g., "amoxicillin 250 MG in 5 mL Oral Suspension") or null if not found
+ */
+export async function getDrugName(rxcui: string): Promise<string | null> {
+	return (await getProperties(rxcui))?.name ?? null;
+}
+
+/**
+ * Whether an RxNorm term type names a branded or a generic product.
+ * @param tty - Term type (e.g., "SBD", "SCD")
+ * @returns 'brand', 'generic', or null for term types that are neither (e.g., ingredients)
+ */
+export function productTypeForTermType(tty: string | null | undefined): ProductType | null {
+	if (tty && BRAND_TERM_TYPES.includes(tty)) {
+		return 'brand';
+	}
+	if (tty && GENERIC_TERM_TYPES.includes(tty)) {
+		return 'generic';
+	}
+	return null;
+}
+
+/**
+ * Get the RxNorm term type (TTY) of an RxCUI.
+ * @param rxcui - RxCUI identifier
+ * @returns Term type (e.g., "SBD", "SCD", "BN", "IN") or null if not found
+ */
+export async function getTermType(rxcui: string): Promise<string | null> {
+	return (await getProperties(rxcui))?.tty ?? null;
+}
+
+/**
+ * Get the clinical (SCD) and branded (SBD) drugs related to an RxCUI.
+ * For a brand this includes its generic equivalents, and for a generic the brands marketed under it.
+ * @param rxcui - RxCUI identifier
+ * @returns Related products, excluding the RxCUI itself (may be empty)
+ */
+export async function getEquivalentProducts(rxcui: string): Promise<RelatedProduct[]> {
+	const cacheKey = rxnormRelatedKey(rxcui);
+
+	return deduplicate(cacheKey, async () => {
+		// Check cache
+		const cached = await cache.get<RelatedProduct[]>(cacheKey);
+		if (cached) {
+			logger.debug(`RxNorm related cache hit: ${rxcui}`);
+			return cached;
+		}
+
+		// Make API call
+		try {
+			const response = await makeRequest<RxNormRelatedResponse>(`/rxcui/${rxcui}/related.json?tty=SCD+SBD`);
+			const products: RelatedProduct[] = [];
+
+			for (const group of response.relatedGroup?.conceptGroup ?? []) {
+				for (const concept of group.conceptProperties ?? []) {
+					const tty = concept.tty ?? group.tty;
+					if (!concept.rxcui || concept.rxcui === rxcui || (tty !== 'SCD' && tty !== 'SBD')) {
+						continue;
+					}
+					if (!products.some((product) => product.rxcui === concept.rxcui)) {
+						products.push({ rxcui: concept.rxcui, name: concept.name ?? '', tty });
+					}
+				}
+			}
+
+			logger.info(`Found ${products.length} SCD/SBD equivalents for RxCUI ${rxcui}`);
+
+			// Cache result (even if empty)
+			await cache.set(cacheKey, products, RELATED_TTL);
+
+			return products;
+		} catch (error) {
+			logger.error(`Error getting equivalents for RxCUI: ${rxcui}`, error as Error);
+			throw error;
+		}
+	});
+}
+
 /**
  * Get strength information for an RxCUI.
  * Note: This endpoint is unreliable per Phase 0 findings, but we implement it for completeness.
@@ -1,16 +1,30 @@
 // Import types that are defined in other files
 import type { DrugInfo } from './drug.js';
-import type { QuantityResult } from './sig.js';
-import type { NdcSelection } from './ndc.js';
+import type { QuantityResult, DoseRangePolicy, PatientWeight, DaysSupplyCalculation, ParsedSig } from './sig.js';
+import type { NdcSelection, PackagingType, RankingStrategyId } from './ndc.js';
 import type { Warning } from './warning.js';
 
 /**
  * Request payload for calculation endpoint
  */
 export interface CalculationRequest {
-	drugInput: string;
+	drugInput: string;                  // May be empty when rxcui is given
+	rxcui?: string;                     // RxNorm code from a coded prescription; used instead of looking drugInput up
 	sig: string;
-	daysSupply: number;
+	daysSupply?: number;                // Derived from prescribedQuantity when omitted
+	prescribedQuantity?: number;        // Prescriber-written quantity, in the calculated unit; checked against the SIG
+	doseRangePolicy?: DoseRangePolicy;  // Which end of "1-2 tablets" to dispense for (default: max)
+	prnDosesPerDay?: number;            // Overrides the PRN doses-per-day assumption
+	patientWeight?: PatientWeight;      // Required for weight-based (mg/kg) SIGs
+	maxDosePerDoseMg?: number;          // Per-dose cap for weight-based doses (default: DEFAULT_MAX_WEIGHT_BASED_DOSE_MG)
+	payerProfile?: string;              // Payer profile id (constants/payerProfiles.json) whose limits apply
+	rankingStrategy?: RankingStrategyId; // How candidate packages are ranked (default: minimize_waste)
+	preferredLabeler?: string;          // Labeler code or manufacturer name; required for prefer_labeler
+	packagingPreference?: PackagingType; // Packaging to rank first (e.g., unit_dose for hospitals, bottle for retail)
+	requirePackaging?: boolean;         // Only recommend packagingPreference packages
+	dispenseAt?: string;                // Container dispensed from nested packages (e.g., 'CARTON', 'CASE'); default: the innermost
+	includeEquivalents?: boolean;       // Also search the RxCUI's brand/generic equivalents (RxNorm SCD/SBD)
+	strength?: string;                  // Prescribed strength (e.g., '10 mg'); otherwise read from the drug input or RxNorm
 }
 
 /**
@@ -22,6 +36,61 @@ export interface CalculationResponse {
 	error?: ApiError;
 }
 
+/**
+ * Request payload for batch calculation endpoint
+ */
+export interface BatchCalculationRequest {
+	items: CalculationRequest[];
+}
+
+/**
+ * Response payload for batch calculation endpoint.
+ * results[i] answers items[i]; a failed item does not fail the batch.
+ */
+export interface BatchCalculationResponse {
+	success: boolean;
+	results?: CalculationResponse[];
+	summary?: {
+		total: number;
+		succeeded: number;
+		failed: number;
+	};
+	error?: ApiError;
+}
+
+/**
+ * Request payload for the days-supply endpoint: what was dispensed instead of a days' supply
+ */
+export interface DaysSupplyRequest {
+	ndc: string;                        // Package NDC (XXXXX-XXXX-XX) whose description gives the package quantity
+	packageCount: number;               // Packages dispensed
+	sig: string;
+	doseRangePolicy?: DoseRangePolicy;
+	prnDosesPerDay?: number;
+	patientWeight?: PatientWeight;
+	maxDosePerDoseMg?: number;
+}
+
+/**
+ * Response payload for the days-supply endpoint
+ */
+export interface DaysSupplyResponse {
+	success: boolean;
+	data?: DaysSupplyResult;
+	error?: ApiError;
+}
+
+/**
+ * Days' supply for a dispensed package
+ */
+export interface DaysSupplyResult extends DaysSupplyCalculation {
+	ndc: string;
+	packageDescription: string;
+	packageCount: number;
+	drugName?: string;
+	parsedSig: ParsedSig;
+}
+
 /**
  * Successful calculation result
  */
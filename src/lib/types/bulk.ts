@@ -0,0 +1,53 @@
+import type { CalculationRequest } from './api.js';
+
+/**
+ * CSV column index for each calculation field (-1 = not mapped)
+ */
+export interface BulkColumnMapping {
+	drugInput: number;
+	sig: number;
+	daysSupply: number;
+}
+
+/**
+ * One CSV row turned into a calculation request, or the reason it could not be
+ */
+export interface BulkRequestRow {
+	rowNumber: number;  // 1-based line in the uploaded file (header = 1)
+	drugInput: string;
+	sig: string;
+	daysSupply: string;
+	request?: CalculationRequest;
+	errorCode?: string;  // Set when the row could not be turned into a request
+}
+
+/**
+ * One row of the bulk results table / CSV export
+ */
+export interface BulkResultRow {
+	rowNumber: number;
+	drugInput: string;
+	sig: string;
+	daysSupply: string;
+	status: 'success' | 'failed';
+	recommendedNdc?: string;
+	packageCount?: number;
+	totalQuantity?: number;
+	unit?: string;
+	overfill?: number;
+	warnings: string[];
+	errorCode?: string;
+	errorMessage?: string;  // From getErrorMessage(errorCode)
+}
+
+/**
+ * Sortable columns of the bulk results table
+ */
+export type BulkSortKey =
+	| 'rowNumber'
+	| 'drugInput'
+	| 'status'
+	| 'recommendedNdc'
+	| 'packageCount'
+	| 'overfill'
+	| 'warnings';
@@ -8,6 +8,15 @@ export interface DrugInfo {
 	dosageForm?: string;
 }
 
+/**
+ * Clinical (SCD) or branded (SBD) drug related to an RxCUI
+ */
+export interface RelatedProduct {
+	rxcui: string;
+	name: string;        // e.g., "atorvastatin 20 MG Oral Tablet [Lipitor]"
+	tty: 'SCD' | 'SBD';
+}
+
 /**
  * RxNorm API response structure
  * Note: This will be refined based on Phase 0 findings
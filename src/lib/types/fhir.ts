@@ -0,0 +1,132 @@
+/**
+ * FHIR R4 resource subset used by the FHIR adapters.
+ * Only the elements the calculator reads are modeled; everything else passes through untyped.
+ */
+
+import type { CalculationRequest } from './api.js';
+import type { ParsedSig } from './sig.js';
+
+export interface FhirCoding {
+	system?: string;
+	code?: string;
+	display?: string;
+}
+
+export interface FhirCodeableConcept {
+	coding?: FhirCoding[];
+	text?: string;
+}
+
+export interface FhirQuantity {
+	value?: number;
+	unit?: string;
+	system?: string;
+	code?: string;
+}
+
+/**
+ * Duration (e.g. dispenseRequest.expectedSupplyDuration): UCUM time units 'd', 'wk', 'mo', ...
+ */
+export type FhirDuration = FhirQuantity;
+
+export interface FhirRange {
+	low?: FhirQuantity;
+	high?: FhirQuantity;
+}
+
+export interface FhirRatio {
+	numerator?: FhirQuantity;
+	denominator?: FhirQuantity;
+}
+
+/**
+ * UCUM time units used by Timing.repeat
+ */
+export type FhirTimeUnit = 's' | 'min' | 'h' | 'd' | 'wk' | 'mo' | 'a';
+
+export interface FhirTimingRepeat {
+	boundsDuration?: FhirDuration;
+	frequency?: number;
+	frequencyMax?: number;
+	period?: number;
+	periodMax?: number;
+	periodUnit?: FhirTimeUnit;
+	dayOfWeek?: Array<'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'>;
+	timeOfDay?: string[];
+	when?: string[];
+}
+
+export interface FhirTiming {
+	repeat?: FhirTimingRepeat;
+	code?: FhirCodeableConcept;  // e.g. BID, TID, QID, QD, Q4H
+}
+
+export interface FhirDosage {
+	sequence?: number;
+	text?: string;
+	timing?: FhirTiming;
+	asNeededBoolean?: boolean;
+	asNeededCodeableConcept?: FhirCodeableConcept;
+	route?: FhirCodeableConcept;
+	doseAndRate?: Array<{
+		type?: FhirCodeableConcept;
+		doseQuantity?: FhirQuantity;
+		doseRange?: FhirRange;
+	}>;
+	maxDosePerPeriod?: FhirRatio;
+}
+
+export interface FhirMedicationRequest {
+	resourceType: 'MedicationRequest';
+	id?: string;
+	status?: string;
+	intent?: string;
+	medicationCodeableConcept?: FhirCodeableConcept;
+	subject?: { reference?: string; display?: string };
+	dosageInstruction?: FhirDosage[];
+	dispenseRequest?: {
+		quantity?: FhirQuantity;
+		expectedSupplyDuration?: FhirDuration;
+		numberOfRepeatsAllowed?: number;
+	};
+}
+
+/**
+ * A MedicationRequest mapped onto the calculate pipeline
+ */
+export interface FhirMappedRequest {
+	request: CalculationRequest;  // drugInput is '' when only an RxNorm code without a display name is given
+	rxcui?: string;               // From an RxNorm coding
+	parsedSig?: ParsedSig;        // Present when dosageInstruction is structured; sigParser.parse is skipped
+}
+
+export interface FhirAnnotation {
+	text: string;
+}
+
+export interface FhirMedicationDispense {
+	resourceType: 'MedicationDispense';
+	id?: string;
+	status: 'preparation' | 'in-progress' | 'completed';
+	medicationCodeableConcept: FhirCodeableConcept;
+	quantity: FhirQuantity;
+	daysSupply: FhirQuantity;
+	note?: FhirAnnotation[];
+}
+
+export interface FhirOperationOutcome {
+	resourceType: 'OperationOutcome';
+	issue: Array<{
+		severity: 'fatal' | 'error' | 'warning' | 'information';
+		code: string;                  // FHIR IssueType, e.g. 'invalid', 'not-found'
+		details?: FhirCodeableConcept; // Calculator error code
+		diagnostics?: string;
+	}>;
+}
+
+export interface FhirBundle {
+	resourceType: 'Bundle';
+	type: 'collection';
+	timestamp?: string;
+	entry: Array<{ resource: FhirMedicationDispense }>;
+}
@@ -0,0 +1,57 @@
+/**
+ * NCPDP SCRIPT (2017071) NewRx types
+ */
+
+import type { CalculationRequest, CalculationResponse } from './api.js';
+import type { ParsedSig } from './sig.js';
+
+/**
+ * Quantity as written by the prescriber
+ */
+export interface WrittenQuantity {
+	value: number;
+	unit?: string;  // Calculator unit ('tablet', 'mL', ...) when the unit of measure code is recognized
+}
+
+/**
+ * Fields extracted from a NewRx MedicationPrescribed segment
+ */
+export interface NewRxPrescription {
+	messageId?: string;
+	drugDescription?: string;
+	ndc?: string;                     // ProductCode with qualifier ND
+	rxcui?: string;                   // DrugDBCode with an RxNorm qualifier (SCD, SBD, GPCK, BPCK)
+	sigText?: string;
+	structuredSig?: ParsedSig;        // From Sig/Instruction when dose and timing are coded
+	writtenQuantity?: WrittenQuantity;
+	daysSupply?: number;
+}
+
+/**
+ * A NewRx mapped onto the calculate pipeline
+ */
+export interface NcpdpMappedRequest {
+	request: CalculationRequest;
+	prescription: NewRxPrescription;
+}
+
+/**
+ * Prescriber's written quantity next to the calculated quantity
+ */
+export interface QuantityComparison {
+	written: number;
+	writtenUnit?: string;
+	calculated: number;
+	unit: string;
+	difference: number;      // written - calculated
+	comparable: boolean;     // Units match (otherwise no discrepancy is judged)
+	discrepancy: boolean;    // Difference beyond DEFAULT_QUANTITY_DISCREPANCY_TOLERANCE
+}
+
+/**
+ * Response payload for the NCPDP NewRx endpoint
+ */
+export interface NcpdpCalculationResponse extends CalculationResponse {
+	prescription?: NewRxPrescription;
+	quantityComparison?: QuantityComparison;
+}
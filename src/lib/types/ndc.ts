@@ -8,10 +8,68 @@ export interface NdcInfo {
 	manufacturer: string;
 	dosageForm: string;
 	active: boolean;
+	sourceRxcui?: string;       // RxCUI the package was found under (the searched drug or an equivalent)
+	productType?: ProductType;  // From the source RxCUI's term type
+	strength?: string;          // Product strength (e.g., '10 mg', '250 mg/5 mL')
 }
 
 /**
- * NDC selection recommendation
+ * Whether a package belongs to a branded (RxNorm SBD) or generic (SCD) product
+ */
+export type ProductType = 'brand' | 'generic';
+
+/**
+ * How a package is presented, from the innermost container of its description
+ * - unit_dose: one dose per blister/cup (hospital and long-term-care dispensing)
+ * - blister: several doses per blister card
+ * - pen: pens, prefilled syringes, injectors and cartridges
+ * - canister: inhaler canisters and aerosols
+ */
+export type PackagingType = 'bottle' | 'blister' | 'unit_dose' | 'kit' | 'vial' | 'pen' | 'canister';
+
+/**
+ * One NDC's share of a fill that mixes package sizes
+ */
+export interface NdcSelectionComponent {
+	ndc: string;
+	packageSize: number;
+	packageCount: number;
+	packageDescription?: string;
+	manufacturer?: string;
+}
+
+/**
+ * How NDC candidates are ranked
+ * - minimize_waste: closest fill to the target quantity (default)
+ * - minimize_packages: fewest packages, accepting some waste
+ * - prefer_unit_of_use: packages dispensed as-is (blisters, cartons, devices) over bulk stock
+ * - prefer_labeler: packages from a given labeler
+ */
+export type RankingStrategyId = 'minimize_waste' | 'minimize_packages' | 'prefer_unit_of_use' | 'prefer_labeler';
+
+/**
+ * Ranking requested for NDC selection
+ */
+export interface RankingOptions {
+	strategy?: RankingStrategyId;  // Defaults to DEFAULT_RANKING_STRATEGY ('minimize_waste')
+	labeler?: string;              // prefer_labeler: labeler code (e.g., '00002') or manufacturer name
+	packaging?: PackagingType;     // Packaging to rank first (or, with requirePackaging, the only packaging kept)
+	requirePackaging?: boolean;
+	dispenseAt?: string;           // Container dispensed from nested packages (e.g., 'CARTON', 'CASE'); default: the innermost
+}
+
+/**
+ * One line of a match score: why a selection gained or lost points
+ */
+export interface ScoreComponent {
+	label: string;   // e.g., 'Exact match', 'Multiple packages'
+	points: number;  // Signed; a selection's components sum to its matchScore
+}
+
+/**
+ * NDC selection recommendation.
+ * A multi-NDC fill (e.g., 1 × 90-count + 1 × 30-count) lists its packages in components;
+ * ndc, packageSize and packageDescription are then the largest package's and packageCount is the total.
  */
 export interface NdcSelection {
 	ndc: string;
@@ -23,5 +81,32 @@ export interface NdcSelection {
 	matchScore: number;
 	packageDescription?: string;
 	manufacturer?: string;
+	components?: NdcSelectionComponent[];
+	packagingType?: PackagingType;
+	scoreBreakdown?: ScoreComponent[];  // How matchScore was reached
+	sourceRxcui?: string;
+	productType?: ProductType;
+	strength?: string;
+}
+
+/**
+ * Drug strength per dosage unit (10 mg tablet) or per volume (250 mg/5 mL)
+ */
+export interface DrugStrength {
+	amount: number;
+	unit: string;         // mcg, mg or g
+	volume?: number;      // Per-volume strengths only
+	volumeUnit?: string;  // mL or L
+}
+
+/**
+ * Lower strength that makes up a dose of an unavailable one (e.g., 2 × 10 mg for 20 mg)
+ */
+export interface StrengthSubstitute {
+	strength: string;      // e.g., '10 mg'
+	unitsPerDose: number;  // e.g., 2
+	quantity: number;      // Quantity to dispense in this strength
+	unit: string;          // e.g., 'tablet'
+	label: string;         // e.g., '2 × 10 mg tablets'
 }
 
@@ -0,0 +1,28 @@
+/**
+ * How a payer wants the dispensed quantity rounded to whole packages
+ * - none: any package combination (the selector's default ranking)
+ * - up: whole packages that cover the full quantity
+ * - down: whole packages that do not exceed the quantity (days' supply shortens to match)
+ */
+export type PackageRounding = 'none' | 'up' | 'down';
+
+/**
+ * Payer plan limits applied to NDC selection and warnings (defined in constants/payerProfiles.json)
+ */
+export interface PayerProfile {
+	id: string;
+	name: string;
+	maxDaysSupply: number;        // e.g., 30, 34, 90 or 102
+	maxOverfillPercent: number;   // Dispensed quantity allowed above the calculated quantity, in percent
+	packageRounding: PackageRounding;
+}
+
+/**
+ * Payer rule a recommendation breaks
+ */
+export interface PayerViolation {
+	profileId: string;
+	rule: 'max_days_supply' | 'max_overfill' | 'package_rounding';
+	limit: number;   // Days for max_days_supply, percent for max_overfill, calculated quantity for package_rounding
+	actual: number;  // Same unit as limit
+}
@@ -9,18 +9,147 @@ export interface Concentration {
 }
 
 /**
- * Parsed SIG (prescription instructions)
+ * Dose range from SIGs like "1-2 tablets"
  */
-export interface ParsedSig {
+export interface DosageRange {
+	min: number;
+	max: number;
+}
+
+/**
+ * Weight-based dose from SIGs like "15 mg/kg every 8 hours" or "40 mg/kg/day divided BID"
+ */
+export interface WeightBasedDose {
+	amount: number;          // Drug amount per kg (ParsedSig.dosage mirrors it)
+	unit: string;            // Drug amount unit, e.g. 'mg'
+	basis: 'dose' | 'day';   // "mg/kg" per dose vs "mg/kg/day" split across the day's doses
+}
+
+/**
+ * Patient weight as entered (kg or lb)
+ */
+export interface PatientWeight {
+	value: number;
+	unit: 'kg' | 'lb';
+}
+
+/**
+ * Which end of a dose range drives the dispensed quantity
+ */
+export type DoseRangePolicy = 'min' | 'max' | 'average';
+
+/**
+ * Non-daily dosing schedule (weekly, every N days, named weekdays, on/off cycles).
+ * One dose is given on each scheduled day.
+ */
+export interface DosingSchedule {
+	type: 'interval' | 'weekdays' | 'cycle';
+	intervalDays?: number;  // 'interval': every N days (weekly = 7, every other day = 2, twice weekly = 3.5)
+	weekdays?: number[];    // 'weekdays': 0 = Sunday ... 6 = Saturday
+	daysOn?: number;        // 'cycle': N days on ...
+	daysOff?: number;       // ... then M days off
+}
+
+/**
+ * Injectable device (pen or vial) an insulin quantity is dispensed in
+ */
+export interface InjectableDevice {
+	type: 'pen' | 'vial';
+	volume: number;  // mL per pen/vial
+}
+
+/**
+ * Insulin breakdown: units → mL → whole pens/vials
+ */
+export interface InsulinCalculation {
+	strength: number;         // Units per mL (U-100 = 100)
+	doseUnits: number;        // Units injected over daysSupply
+	primingUnits: number;     // Units wasted priming pens over daysSupply
+	volume: number;           // mL needed (doses + priming) before rounding to whole devices
+	device: InjectableDevice;
+	deviceCount: number;      // Whole pens/vials, honoring the in-use discard window
+	discardDays: number;      // Days a pen/vial may be used after opening
+}
+
+/**
+ * Whole devices a quantity is dispensed in (inhalers, pens, vials)
+ */
+export interface DispensableUnit {
+	unit: string;          // e.g., 'inhaler', 'pen', 'vial'
+	count: number;         // Whole devices needed
+	capacity: number;      // Per device, in capacityUnit
+	capacityUnit: string;  // e.g., 'actuation', 'mL'
+}
+
+/**
+ * Per-dose amount worked out from a weight-based SIG
+ */
+export interface WeightBasedCalculation extends WeightBasedDose {
+	weightKg: number;
+	maxDose: number;         // Per-dose cap in mg
+	exceedsMax: boolean;     // Computed dose is above maxDose (not capped; flagged for review)
+}
+
+/**
+ * One step of a multi-step (tapering) regimen,
+ * e.g. "2 tablets daily for 3 days" in "... then 1 tablet daily for 4 days"
+ */
+export interface DosingPhase {
 	dosage: number;
 	frequency: number;
+	durationDays?: number;  // Omitted for an open-ended final phase
+}
+
+/**
+ * Parsed SIG (prescription instructions)
+ */
+export interface ParsedSig {
+	dosage: number;                  // Average of dosageRange when a range is given
+	frequency: number;               // Doses per day; fractional for non-daily schedules (weekly = 1/7)
 	unit: string;
 	confidence: number;
 	// Special dosage form metadata (optional for backward compatibility)
-	dosageForm?: 'tablet' | 'capsule' | 'liquid' | 'insulin' | 'inhaler' | 'other';
+	dosageForm?: 'tablet' | 'capsule' | 'liquid' | 'insulin' | 'inhaler' | 'topical' | 'ophthalmic' | 'otic' | 'transdermal' | 'other';
 	concentration?: Concentration;  // For liquids: e.g., "5mg/mL"
 	capacity?: number;               // For inhalers: actuations per canister
 	insulinStrength?: number;        // For insulin: U-100 = 100, U-200 = 200
+	insulinDevice?: InjectableDevice['type'];  // For insulin: "pen"/"vial" stated in the SIG
+	sites?: number;                  // Administration sites per dose: "each eye"/"both ears" = 2
+	dosageRange?: DosageRange;       // Both ends of "1-2 tablets"
+	weightBasedDose?: WeightBasedDose;  // Per-kg dose; needs QuantityOptions.patientWeightKg
+	// PRN limits: "every 4-6 hours as needed, max 6 per day"
+	maxDailyDose?: number;           // In SIG units (e.g., 6 tablets per day)
+	prnInterval?: {
+		minHours: number;
+		maxHours: number;
+	};
+	schedule?: DosingSchedule;       // Exact pattern for non-daily SIGs
+	// Ordered dosing phases for tapering/multi-step SIGs (dosage/frequency mirror the first phase)
+	phases?: DosingPhase[];
+}
+
+/**
+ * Quantity contributed by one dosing phase
+ */
+export interface PhaseCalculation {
+	dosage: number;
+	frequency: number;
+	days: number;
+	quantity: number;
+}
+
+/**
+ * Options for quantity calculation
+ */
+export interface QuantityOptions {
+	doseRangePolicy?: DoseRangePolicy;  // Defaults to DEFAULT_DOSE_RANGE_POLICY ('max')
+	prnDosesPerDay?: number;            // Pharmacist override for PRN doses per day
+	gramsPerApplication?: number;       // Defaults to DEFAULT_GRAMS_PER_APPLICATION for "apply a thin layer"
+	insulinDevice?: InjectableDevice;   // Pen/vial from the package; defaults by ParsedSig.insulinDevice
+	primingUnits?: number;              // Units primed per pen injection (DEFAULT_INSULIN_PRIMING_UNITS)
+	inhalerCapacity?: number;           // Actuations per inhaler from package metadata when the SIG states none
+	patientWeightKg?: number;           // Required for weight-based (mg/kg) SIGs
+	maxDosePerDoseMg?: number;          // Per-dose cap for weight-based doses (DEFAULT_MAX_WEIGHT_BASED_DOSE_MG)
 }
 
 /**
@@ -29,10 +158,49 @@ export interface ParsedSig {
 export interface QuantityResult {
 	total: number;
 	unit: string;
+	// Totals at both ends of a dose range and the one chosen by policy
+	range?: {
+		min: number;
+		max: number;
+		chosen: number;
+		policy: DoseRangePolicy;
+	};
+	assumptions?: string[];  // Assumptions made (e.g., PRN doses per day) that the pharmacist may override
+	insulin?: InsulinCalculation;  // Present for insulin: total is then mL in whole pens/vials
+	dispensable?: DispensableUnit; // Whole devices to dispense (inhalers, insulin pens/vials)
 	calculation: {
 		dosage: number;
 		frequency: number;
 		daysSupply: number;
+		doseCount?: number;           // Doses falling inside daysSupply for non-daily schedules
+		doseUnit?: string;            // Prescribed dose unit when converted through a concentration (e.g., 'mg')
+		volumePerDose?: number;       // Volume per dose in the result unit (e.g., 250 mg at 250 mg/5mL = 5 mL)
+		weightBased?: WeightBasedCalculation;  // Present for mg/kg SIGs: dosage is then the computed per-dose amount
+		phases?: PhaseCalculation[];  // Present for multi-step SIGs
+		remainingDays?: number;       // Days of daysSupply not covered by any phase
 	};
 }
 
+
+/**
+ * How a derived days' supply was rounded
+ * - whole_days: the last whole day the quantity fully covers
+ * - whole_devices: insulin pens/vials are used whole and discarded after their in-use window
+ * - max_days_supply: the quantity covers more than MAX_DAYS_SUPPLY days
+ */
+export type DaysSupplyRounding = 'whole_days' | 'whole_devices' | 'max_days_supply';
+
+/**
+ * Days' supply a dispensed quantity covers
+ */
+export interface DaysSupplyCalculation {
+	daysSupply: number;
+	quantity: number;              // Dispensed, in unit
+	unit: string;                  // Unit the SIG is calculated in (e.g., 'tablet', 'actuation', 'mL')
+	used: number;                  // Quantity the SIG uses over daysSupply
+	remaining: number;             // Left over after daysSupply
+	rounding: DaysSupplyRounding;
+	roundingRule: string;          // Human-readable rule, e.g. for claim notes
+	dispensable?: DispensableUnit; // Whole devices dispensed (inhalers, insulin pens/vials)
+	assumptions?: string[];
+}
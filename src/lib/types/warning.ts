@@ -1,9 +1,36 @@
+import type { PayerViolation } from './payer';
+import type { StrengthSubstitute } from './ndc';
+
 /**
  * Warning or error message
  */
 export interface Warning {
-	type: 'inactive_ndc' | 'overfill' | 'underfill' | 'dosage_form_mismatch' | 'parse_warning';
+	type:
+		| 'inactive_ndc'
+		| 'overfill'
+		| 'underfill'
+		| 'dosage_form_mismatch'
+		| 'parse_warning'
+		| 'max_dose_exceeded'
+		| 'quantity_mismatch'
+		| 'payer_limit'
+		| 'strength_substitution'
+		| 'strength_unmatched';
 	message: string;
 	severity: 'error' | 'warning' | 'info';
+	discrepancy?: QuantityDiscrepancy;  // Present for 'quantity_mismatch'
+	payerViolation?: PayerViolation;    // Present for 'payer_limit'
+	strengthSubstitutes?: StrengthSubstitute[];  // Present for 'strength_substitution'; the first is dispensed
+}
+
+/**
+ * Prescribed quantity vs the quantity the SIG needs for the days' supply
+ */
+export interface QuantityDiscrepancy {
+	prescribedQuantity: number;
+	calculatedQuantity: number;  // Needed for daysSupply per the SIG
+	unit: string;
+	daysSupply: number;
+	impliedDaysSupply: number;   // Days the prescribed quantity covers per the SIG
 }
 
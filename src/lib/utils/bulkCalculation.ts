@@ -0,0 +1,172 @@
+/**
+ * Helpers for bulk (CSV) calculations: column mapping, request building, result rows and export
+ */
+
+import type { CalculationResponse } from '../types/api.js';
+import type { BulkColumnMapping, BulkRequestRow, BulkResultRow, BulkSortKey } from '../types/bulk.js';
+import { getErrorMessage } from './errorMessages.js';
+import { toCsv, type CsvRow } from './csv.js';
+import { MAX_DAYS_SUPPLY } from '../constants/quantityDefaults.js';
+
+const HEADER_HINTS: Record<keyof BulkColumnMapping, RegExp> = {
+	drugInput: /\b(?:drug|ndc|medication|med|product|name)\b/i,
+	sig: /\b(?:sig|instructions?|directions?|dosing)\b/i,
+	daysSupply: /\bdays?\b|\bsupply\b|\bds\b/i,
+};
+
+/**
+ * Guesses which column holds each field from the header row
+ * @param headers - First CSV row
+ * @returns Column index per field (-1 when no header matches)
+ * @example
+ * guessColumnMapping(['Drug', 'SIG', 'Days Supply']) // Returns { drugInput: 0, sig: 1, daysSupply: 2 }
+ */
+export function guessColumnMapping(headers: string[]): BulkColumnMapping {
+	const used = new Set<number>();
+	const find = (field: keyof BulkColumnMapping): number => {
+		const index = headers.findIndex((header, i) => !used.has(i) && HEADER_HINTS[field].test(header));
+		if (index >= 0) {
+			used.add(index);
+		}
+		return index;
+	};
+
+	// SIG and days first: "Drug" hints are the loosest
+	const sig = find('sig');
+	const daysSupply = find('daysSupply');
+	const drugInput = find('drugInput');
+	return { drugInput, sig, daysSupply };
+}
+
+/**
+ * Turns data rows into calculation requests; rows missing a value or with invalid days get INVALID_INPUT
+ * @param rows - CSV rows after the header, from parseCsvRows
+ * @param mapping - Column index per field
+ * @returns One entry per row, in order, numbered by file line
+ */
+export function buildBulkRequests(rows: CsvRow[], mapping: BulkColumnMapping): BulkRequestRow[] {
+	return rows.map(({ lineNumber, cells }) => {
+		const cell = (column: number) => (column >= 0 ? (cells[column] ?? '').trim() : '');
+		const drugInput = cell(mapping.drugInput);
+		const sig = cell(mapping.sig);
+		const daysSupply = cell(mapping.daysSupply);
+		const days = Number(daysSupply);
+		const base = { rowNumber: lineNumber, drugInput, sig, daysSupply };
+
+		if (!drugInput || !sig || !Number.isFinite(days) || days < 1 || days > MAX_DAYS_SUPPLY) {
+			return { ...base, errorCode: 'INVALID_INPUT' };
+		}
+		return { ...base, request: { drugInput, sig, daysSupply: days } };
+	});
+}
+
+/**
+ * Builds a results-table row from a request row and its calculation response
+ * @param row - Request row (rows that failed to build carry their own errorCode)
+ * @param response - Calculation response, if the row was sent
+ */
+export function toBulkResultRow(row: BulkRequestRow, response?: CalculationResponse): BulkResultRow {
+	const base = {
+		rowNumber: row.rowNumber,
+		drugInput: row.drugInput,
+		sig: row.sig,
+		daysSupply: row.daysSupply,
+	};
+
+	if (response?.success && response.data) {
+		const { recommendedNdc, quantity, warnings } = response.data;
+		return {
+			...base,
+			status: 'success',
+			// Multi-NDC fills list every NDC dispensed
+			recommendedNdc: recommendedNdc.components?.map((component) => component.ndc).join(' + ') ?? recommendedNdc.ndc,
+			packageCount: recommendedNdc.packageCount ?? 1,
+			totalQuantity: quantity.total,
+			unit: quantity.unit,
+			overfill: recommendedNdc.overfill,
+			warnings: warnings.map((warning) => warning.message),
+		};
+	}
+
+	const errorCode = row.errorCode ?? response?.error?.code ?? 'API_ERROR';
+	return {
+		...base,
+		status: 'failed',
+		warnings: [],
+		errorCode,
+		errorMessage: getErrorMessage(errorCode),
+	};
+}
+
+/**
+ * Sorts result rows by a column (returns a new array)
+ * @param rows - Result rows
+ * @param key - Column to sort by
+ * @param direction - 'asc' or 'desc'
+ */
+export function sortBulkResults(
+	rows: BulkResultRow[],
+	key: BulkSortKey,
+	direction: 'asc' | 'desc'
+): BulkResultRow[] {
+	const value = (row: BulkResultRow): string | number => {
+		if (key === 'warnings') {
+			return row.warnings.length;
+		}
+		return row[key] ?? '';
+	};
+	const sign = direction === 'asc' ? 1 : -1;
+
+	return [...rows].sort((a, b) => {
+		const left = value(a);
+		const right = value(b);
+		// Missing values (failed rows) go last in either direction
+		if (left === '' || right === '') {
+			return left === right ? 0 : left === '' ? 1 : -1;
+		}
+		if (typeof left === 'number' && typeof right === 'number') {
+			return (left - right) * sign;
+		}
+		return String(left).localeCompare(String(right)) * sign;
+	});
+}
+
+/**
+ * Formats result rows as CSV; failed rows keep their error code and message
+ * @param rows - Result rows
+ * @returns CSV text with a header row
+ */
+export function bulkResultsToCsv(rows: BulkResultRow[]): string {
+	return toCsv([
+		[
+			'Row',
+			'Drug',
+			'SIG',
+			'Days Supply',
+			'Status',
+			'Recommended NDC',
+			'Package Count',
+			'Total Quantity',
+			'Unit',
+			'Overfill',
+			'Warnings',
+			'Error Code',
+			'Error Message',
+		],
+		...rows.map((row) => [
+			row.rowNumber,
+			row.drugInput,
+			row.sig,
+			row.daysSupply,
+			row.status,
+			row.recommendedNdc,
+			row.packageCount,
+			row.totalQuantity,
+			row.unit,
+			row.overfill,
+			row.warnings.join('; '),
+			row.errorCode,
+			row.errorMessage,
+		]),
+	]);
+}
@@ -0,0 +1,30 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the input order.
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls (at least 1)
+ * @param fn - Async mapper, called with the item and its index
+ * @returns Results in input order
+ * @example
+ * await mapWithConcurrency(requests, 4, (request) => calculatePrescription(request))
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let nextIndex = 0;
+
+	const worker = async (): Promise<void> => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+	await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+	return results;
+}
@@ -0,0 +1,121 @@
+/**
+ * CSV parsing and generation for bulk calculations
+ */
+
+/**
+ * One CSV row and the file line it starts on
+ */
+export interface CsvRow {
+	lineNumber: number;  // 1-based; rows after a blank line or a multi-line quoted cell keep their real line
+	cells: string[];
+}
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180: quoted cells, escaped quotes, CRLF)
+ * Blank lines are skipped.
+ * @param text - CSV file contents
+ * @returns Rows of trimmed cell values
+ * @example
+ * parseCsv('drug,sig\n"Amoxicillin, 500 mg","Take 1 capsule, twice daily"')
+ * // Returns [['drug', 'sig'], ['Amoxicillin, 500 mg', 'Take 1 capsule, twice daily']]
+ */
+export function parseCsv(text: string): string[][] {
+	return parseCsvRows(text).map((row) => row.cells);
+}
+
+/**
+ * Parses CSV text like parseCsv, keeping the file line each row starts on
+ * @param text - CSV file contents
+ * @returns Rows with their line numbers
+ * @example
+ * parseCsvRows('drug,sig\n\nLisinopril,Take 1 tablet daily')
+ * // Returns [{ lineNumber: 1, cells: ['drug', 'sig'] }, { lineNumber: 3, cells: ['Lisinopril', 'Take 1 tablet daily'] }]
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+	const rows: CsvRow[] = [];
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+	let line = 1;
+	let rowLine = 1;
+
+	const endRow = () => {
+		row.push(cell.trim());
+		if (row.some((value) => value !== '')) {
+			rows.push({ lineNumber: rowLine, cells: row });
+		}
+		row = [];
+		cell = '';
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+			line++;
+		}
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			row.push(cell.trim());
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+				line++;
+			}
+			endRow();
+			rowLine = line;
+		} else {
+			cell += char;
+		}
+	}
+	endRow();
+
+	return rows;
+}
+
+/**
+ * Formats rows as CSV, quoting cells that contain commas, quotes or line breaks
+ * @param rows - Rows of cell values (null/undefined become empty cells)
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+	return rows
+		.map((row) =>
+			row
+				.map((value) => {
+					const text = value === null || value === undefined ? '' : String(value);
+					return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+				})
+				.join(',')
+		)
+		.join('\r\n');
+}
+
+/**
+ * Downloads CSV text as a file (browser only)
+ * @param content - CSV text
+ * @param filename - File name for the download
+ */
+export function downloadCsv(content: string, filename: string): void {
+	const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+}
@@ -0,0 +1,30 @@
+/**
+ * Package and score breakdown text for NDC selections (results, copy text, PDF)
+ */
+
+import type { NdcSelection } from '../types/ndc.js';
+
+/**
+ * Describes the packages in a selection
+ * @param selection - NDC selection
+ * @returns e.g. '30', '3 × 30' or, for a multi-NDC fill, '1 × 90 (12345-6789-01) + 1 × 30 (12345-6789-02)'
+ */
+export function formatPackageBreakdown(selection: NdcSelection): string {
+	if (selection.components?.length) {
+		return selection.components
+			.map((component) => `${component.packageCount} × ${component.packageSize} (${component.ndc})`)
+			.join(' + ');
+	}
+	const packageCount = selection.packageCount ?? 1;
+	return packageCount > 1 ? `${packageCount} × ${selection.packageSize}` : `${selection.packageSize}`;
+}
+
+/**
+ * Signed points for one score breakdown line
+ * @param points - Points a ScoreComponent adds or deducts
+ * @returns e.g. '+90', '-4.5', '0'
+ */
+export function formatScorePoints(points: number): string {
+	const rounded = Math.round(points * 10) / 10;
+	return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
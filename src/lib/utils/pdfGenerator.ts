@@ -4,6 +4,7 @@
 
 import { jsPDF } from 'jspdf';
 import type { CalculationResult } from '../types/api.js';
+import { formatPackageBreakdown } from './packageBreakdown.js';
 
 /**
  * Helper function to sanitize text for PDF (ensure it's a string and handle special characters)
@@ -346,7 +347,15 @@ export function downloadResultsAsPdf(results: CalculationResult): void {
 			doc.setFont('helvetica', 'normal');
 			doc.text(`Package Size:`, margin + 5, contentY);
 			doc.setFont('helvetica', 'bold');
-			doc.text(sanitizeText(results.recommendedNdc.packageSize), margin + 40, contentY);
+			doc.text(
+				sanitizeText(
+					results.recommendedNdc.components
+						? formatPackageBreakdown(results.recommendedNdc)
+						: results.recommendedNdc.packageSize
+				),
+				margin + 40,
+				contentY
+			);
 			
 			if (results.recommendedNdc.packageCount) {
 				doc.setFont('helvetica', 'normal');
@@ -418,7 +427,8 @@ export function downloadResultsAsPdf(results: CalculationResult): void {
 					doc.setFont('helvetica', 'bold');
 					doc.text(sanitizeText(alt.ndc), margin + 12, altY);
 					doc.setFont('helvetica', 'normal');
-					doc.text(`- ${sanitizeText(alt.packageSize)} (Total: ${sanitizeText(alt.totalQuantity)})`, margin + 50, altY);
+					const altPackages = alt.components ? formatPackageBreakdown(alt) : alt.packageSize;
+					doc.text(`- ${sanitizeText(altPackages)} (Total: ${sanitizeText(alt.totalQuantity)})`, margin + 50, altY);
 					altY += 5;
 				}
 				
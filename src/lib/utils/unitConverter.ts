@@ -2,6 +2,9 @@
  * Unit conversion utilities for special dosage forms
  */
 
+import type { PatientWeight } from '../types/sig';
+import { DEFAULT_DROPS_PER_ML } from '../constants/quantityDefaults';
+
 /**
  * Result of a unit conversion operation
  */
@@ -20,20 +23,173 @@ export interface UnitMatchResult {
 	conversionNeeded: boolean;
 }
 
+const DROP_UNITS = ['drop', 'drops', 'gtt', 'gtts'];
+const MASS_UNITS = ['g', 'gm', 'gram', 'grams'];
+const KG_PER_LB = 0.45359237;
+// Milligrams per unit for drug-amount doses ("250 mg", "1 g")
+const DOSE_MASS_IN_MG: Record<string, number> = {
+	mcg: 0.001,
+	ug: 0.001,
+	mg: 1,
+	g: 1000,
+	gm: 1000,
+};
+
+/**
+ * Checks whether a unit is a liquid volume unit (mL or L)
+ * @example
+ * isLiquidUnit('mL') // Returns true
+ * isLiquidUnit('unit') // Returns false
+ */
+export function isLiquidUnit(unit: string): boolean {
+	return !!unit && ['ml', 'milliliter', 'milliliters', 'l', 'liter', 'liters'].includes(unit.toLowerCase().trim());
+}
+
+/**
+ * Checks whether a unit is a mass unit (grams) used for topicals
+ * @example
+ * isMassUnit('G') // Returns true
+ * isMassUnit('mL') // Returns false
+ */
+export function isMassUnit(unit: string): boolean {
+	return !!unit && MASS_UNITS.includes(unit.toLowerCase().trim());
+}
+
+/**
+ * Checks whether a unit is a drug-amount unit (mcg, mg, g) that a liquid concentration can convert
+ * @example
+ * isDoseMassUnit('MG') // Returns true
+ * isDoseMassUnit('tablet') // Returns false
+ */
+export function isDoseMassUnit(unit: string): boolean {
+	return !!unit && Object.keys(DOSE_MASS_IN_MG).includes(unit.toLowerCase().trim());
+}
+
+/**
+ * Unit for a count: countable units are pluralized, volumes and masses are not
+ * @example
+ * pluralizeUnit('tablet', 2) // Returns 'tablets'
+ * pluralizeUnit('tablet', 1) // Returns 'tablet'
+ * pluralizeUnit('patch', 3) // Returns 'patches'
+ * pluralizeUnit('mL', 60) // Returns 'mL'
+ */
+export function pluralizeUnit(unit: string, count: number): string {
+	if (count === 1 || !unit || isLiquidUnit(unit) || isMassUnit(unit) || isDoseMassUnit(unit) || /s$/i.test(unit)) {
+		return unit;
+	}
+	return /(ch|sh|x)$/i.test(unit) ? `${unit}es` : `${unit}s`;
+}
+
+/**
+ * Converts a drug amount between mcg, mg and g
+ * @param value - Amount to convert
+ * @param fromUnit - Source unit ('mcg', 'mg', 'g')
+ * @param toUnit - Target unit ('mcg', 'mg', 'g')
+ * @returns Conversion result or null if conversion not possible
+ * @example
+ * convertDoseMass(1, 'g', 'mg') // Returns { converted: 1000, unit: 'mg', original: 1, originalUnit: 'g' }
+ */
+export function convertDoseMass(value: number, fromUnit: string, toUnit: string): ConversionResult | null {
+	if (typeof value !== 'number' || isNaN(value) || value < 0) {
+		return null;
+	}
+	if (!isDoseMassUnit(fromUnit) || !isDoseMassUnit(toUnit)) {
+		return null;
+	}
+
+	const fromFactor = DOSE_MASS_IN_MG[fromUnit.toLowerCase().trim()];
+	const toFactor = DOSE_MASS_IN_MG[toUnit.toLowerCase().trim()];
+	return {
+		converted: (value * fromFactor) / toFactor,
+		unit: toUnit,
+		original: value,
+		originalUnit: fromUnit,
+	};
+}
+
+/**
+ * Converts a patient weight to kilograms
+ * @param weight - Weight in kg or lb
+ * @returns Weight in kg, rounded to 2 decimal places
+ * @example
+ * convertWeightToKg({ value: 44, unit: 'lb' }) // Returns 19.96
+ */
+export function convertWeightToKg(weight: PatientWeight): number {
+	const kg = weight.unit === 'lb' ? weight.value * KG_PER_LB : weight.value;
+	return Math.round(kg * 100) / 100;
+}
+
+/**
+ * Converts drops to volume (mL)
+ * @param drops - Number of drops
+ * @param dropsPerMl - Drops per mL. Defaults to DEFAULT_DROPS_PER_ML (20)
+ * @returns Conversion result with volume in mL
+ * @example
+ * convertDropsToVolume(100) // Returns { converted: 5, unit: 'mL', original: 100, originalUnit: 'drop' }
+ */
+export function convertDropsToVolume(
+	drops: number,
+	dropsPerMl: number = DEFAULT_DROPS_PER_ML
+): ConversionResult {
+	if (typeof drops !== 'number' || isNaN(drops) || drops < 0) {
+		throw new Error('Invalid drops value');
+	}
+	if (typeof dropsPerMl !== 'number' || isNaN(dropsPerMl) || dropsPerMl <= 0) {
+		throw new Error('Invalid drops per mL');
+	}
+
+	return {
+		converted: Math.round((drops / dropsPerMl) * 100) / 100,
+		unit: 'mL',
+		original: drops,
+		originalUnit: 'drop',
+	};
+}
+
 /**
- * Converts liquid volumes (mL ↔ L)
+ * Converts volume (mL) to drops
+ * @param volume - Volume in mL
+ * @param dropsPerMl - Drops per mL. Defaults to DEFAULT_DROPS_PER_ML (20)
+ * @returns Conversion result with whole drops (rounded down - a partial drop can't be dispensed)
+ * @example
+ * convertVolumeToDrops(5) // Returns { converted: 100, unit: 'drop', original: 5, originalUnit: 'mL' }
+ */
+export function convertVolumeToDrops(
+	volume: number,
+	dropsPerMl: number = DEFAULT_DROPS_PER_ML
+): ConversionResult {
+	if (typeof volume !== 'number' || isNaN(volume) || volume < 0) {
+		throw new Error('Invalid volume value');
+	}
+	if (typeof dropsPerMl !== 'number' || isNaN(dropsPerMl) || dropsPerMl <= 0) {
+		throw new Error('Invalid drops per mL');
+	}
+
+	return {
+		converted: Math.floor(volume * dropsPerMl),
+		unit: 'drop',
+		original: volume,
+		originalUnit: 'mL',
+	};
+}
+
+/**
+ * Converts liquid volumes (mL ↔ L, drops ↔ mL)
  * @param value - Volume value to convert
- * @param fromUnit - Source unit ('mL', 'L', 'milliliter', 'liter')
- * @param toUnit - Target unit ('mL', 'L', 'milliliter', 'liter')
+ * @param fromUnit - Source unit ('mL', 'L', 'milliliter', 'liter', 'drop')
+ * @param toUnit - Target unit ('mL', 'L', 'milliliter', 'liter', 'drop')
+ * @param dropsPerMl - Drops per mL for drop conversions. Defaults to DEFAULT_DROPS_PER_ML (20)
  * @returns Conversion result or null if conversion not possible
  * @example
  * convertLiquidVolume(1000, 'mL', 'L') // Returns { converted: 1, unit: 'L', original: 1000, originalUnit: 'mL' }
  * convertLiquidVolume(1, 'L', 'mL') // Returns { converted: 1000, unit: 'mL', original: 1, originalUnit: 'L' }
+ * convertLiquidVolume(60, 'drop', 'mL') // Returns { converted: 3, unit: 'mL', original: 60, originalUnit: 'drop' }
  */
 export function convertLiquidVolume(
 	value: number,
 	fromUnit: string,
-	toUnit: string
+	toUnit: string,
+	dropsPerMl: number = DEFAULT_DROPS_PER_ML
 ): ConversionResult | null {
 	if (typeof value !== 'number' || isNaN(value) || value < 0) {
 		return null;
@@ -58,6 +214,28 @@ export function convertLiquidVolume(
 	const isToMl = normalizedTo === 'ml' || normalizedTo === 'milliliter' || normalizedTo === 'milliliters';
 	const isToL = normalizedTo === 'l' || normalizedTo === 'liter' || normalizedTo === 'liters';
 
+	// Drops to mL/L (via mL)
+	if (DROP_UNITS.includes(normalizedFrom) && (isToMl || isToL)) {
+		const ml = convertDropsToVolume(value, dropsPerMl).converted;
+		return {
+			converted: isToL ? Math.round((ml / 1000) * 100) / 100 : ml,
+			unit: isToL ? 'L' : 'mL',
+			original: value,
+			originalUnit: fromUnit,
+		};
+	}
+
+	// mL/L to drops (via mL)
+	if ((isFromMl || isFromL) && DROP_UNITS.includes(normalizedTo)) {
+		const ml = isFromL ? value * 1000 : value;
+		return {
+			converted: convertVolumeToDrops(ml, dropsPerMl).converted,
+			unit: 'drop',
+			original: value,
+			originalUnit: fromUnit,
+		};
+	}
+
 	// mL to L
 	if (isFromMl && isToL) {
 		const converted = value / 1000;
@@ -144,10 +322,11 @@ export function normalizeUnitForMatching(unit: string, targetUnit: string): Unit
 		return { canMatch: true, conversionNeeded: false };
 	}
 
-	// Liquid units can match with conversion
-	const liquidUnits = ['ml', 'milliliter', 'milliliters', 'l', 'liter', 'liters'];
+	// Liquid units (and drops) can match with conversion
+	const liquidUnits = ['ml', 'milliliter', 'milliliters', 'l', 'liter', 'liters', ...DROP_UNITS];
 	if (liquidUnits.includes(normalized) && liquidUnits.includes(normalizedTarget)) {
-		return { canMatch: true, conversionNeeded: true };
+		const bothDrops = DROP_UNITS.includes(normalized) && DROP_UNITS.includes(normalizedTarget);
+		return { canMatch: true, conversionNeeded: !bothDrops };
 	}
 
 	// Same category - can match without conversion
@@ -156,6 +335,7 @@ export function normalizeUnitForMatching(unit: string, targetUnit: string): Unit
 		liquid: ['ml', 'milliliter', 'milliliters', 'l', 'liter', 'liters'],
 		unit: ['unit', 'u', 'iu', 'units'],
 		actuation: ['actuation', 'puff', 'puffs', 'spray', 'sprays'],
+		mass: MASS_UNITS,
 	};
 
 	for (const [category, units] of Object.entries(categories)) {
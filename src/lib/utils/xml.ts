@@ -0,0 +1,158 @@
+/**
+ * Minimal XML reader for inbound e-prescribing messages (NCPDP SCRIPT).
+ * Builds an element tree with namespace prefixes stripped; no DTDs, no schema validation.
+ */
+
+/**
+ * XML element: local name, attributes, child elements and concatenated text content
+ */
+export interface XmlElement {
+	name: string;
+	attributes: Record<string, string>;
+	children: XmlElement[];
+	text: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+	return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+			return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+		}
+		return ENTITIES[code.toLowerCase()] ?? entity;
+	});
+}
+
+function localName(name: string): string {
+	const colon = name.indexOf(':');
+	return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+/**
+ * Parses an XML document into its root element
+ * @param text - XML document
+ * @returns Root element, or null when the document is not well-formed
+ * @example
+ * parseXml('<a><b x="1">hi</b></a>') // Returns { name: 'a', children: [{ name: 'b', attributes: { x: '1' }, text: 'hi', ... }], ... }
+ */
+export function parseXml(text: string): XmlElement | null {
+	if (!text || typeof text !== 'string') {
+		return null;
+	}
+
+	const stack: XmlElement[] = [];
+	let root: XmlElement | null = null;
+	let i = 0;
+
+	while (i < text.length) {
+		const open = text.indexOf('<', i);
+		const chunk = text.slice(i, open < 0 ? text.length : open);
+		if (stack.length > 0 && chunk.trim()) {
+			stack[stack.length - 1].text += decodeEntities(chunk);
+		}
+		if (open < 0) {
+			break;
+		}
+
+		// Comments, CDATA, declarations and processing instructions
+		if (text.startsWith('<!--', open)) {
+			const end = text.indexOf('-->', open);
+			if (end < 0) return null;
+			i = end + 3;
+			continue;
+		}
+		if (text.startsWith('<![CDATA[', open)) {
+			const end = text.indexOf(']]>', open);
+			if (end < 0) return null;
+			if (stack.length > 0) {
+				stack[stack.length - 1].text += text.slice(open + 9, end);
+			}
+			i = end + 3;
+			continue;
+		}
+		if (text[open + 1] === '?' || text[open + 1] === '!') {
+			const end = text.indexOf('>', open);
+			if (end < 0) return null;
+			i = end + 1;
+			continue;
+		}
+
+		const close = text.indexOf('>', open);
+		if (close < 0) {
+			return null;
+		}
+		const tag = text.slice(open + 1, close);
+
+		if (tag.startsWith('/')) {
+			const element = stack.pop();
+			if (!element || element.name !== localName(tag.slice(1).trim())) {
+				return null;
+			}
+			element.text = element.text.trim();
+			if (stack.length === 0) {
+				root = element;
+			}
+		} else {
+			const selfClosing = tag.endsWith('/');
+			const body = selfClosing ? tag.slice(0, -1) : tag;
+			const nameMatch = body.match(/^\s*([^\s/>]+)/);
+			if (!nameMatch) {
+				return null;
+			}
+			const attributes: Record<string, string> = {};
+			for (const attr of body.slice(nameMatch[0].length).matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+				attributes[localName(attr[1])] = decodeEntities(attr[3] ?? attr[4] ?? '');
+			}
+			const element: XmlElement = { name: localName(nameMatch[1]), attributes, children: [], text: '' };
+			if (stack.length > 0) {
+				stack[stack.length - 1].children.push(element);
+			} else if (root) {
+				return null; // Second root element
+			}
+			if (selfClosing) {
+				if (stack.length === 0) {
+					root = element;
+				}
+			} else {
+				stack.push(element);
+			}
+		}
+		i = close + 1;
+	}
+
+	return stack.length === 0 ? root : null;
+}
+
+/**
+ * Finds the first descendant along a path of local names (each step searches direct children)
+ * @param element - Starting element
+ * @param path - Child names, e.g. 'Body', 'NewRx'
+ * @returns The element, or null when any step is missing
+ */
+export function findElement(element: XmlElement | null | undefined, ...path: string[]): XmlElement | null {
+	let current: XmlElement | null = element ?? null;
+	for (const name of path) {
+		current = current?.children.find((child) => child.name === name) ?? null;
+		if (!current) {
+			return null;
+		}
+	}
+	return current;
+}
+
+/**
+ * All direct children with a local name
+ */
+export function findElements(element: XmlElement | null | undefined, name: string): XmlElement[] {
+	return element?.children.filter((child) => child.name === name) ?? [];
+}
+
+/**
+ * Text of the element at a path, or undefined when missing or empty
+ */
+export function elementText(element: XmlElement | null | undefined, ...path: string[]): string | undefined {
+	const text = findElement(element, ...path)?.text;
+	return text ? text : undefined;
+}
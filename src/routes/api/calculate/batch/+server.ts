@@ -0,0 +1,87 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type {
+	BatchCalculationRequest,
+	BatchCalculationResponse,
+	CalculationRequest,
+	CalculationResponse,
+} from '$lib/types/api.js';
+import { calculatePrescription } from '$lib/services/calculation';
+import { mapWithConcurrency } from '$lib/utils/concurrency';
+import { logger } from '$lib/utils/logger';
+
+const MAX_BATCH_SIZE = 100;
+const BATCH_CONCURRENCY = 4; // Prescriptions calculated at once (bounds parallel RxNorm/FDA calls)
+
+/**
+ * POST /api/calculate/batch
+ * Runs the calculate flow for each item ({ items: CalculationRequest[] } or a bare array).
+ * Items share RxNorm/FDA lookups through the cache and request deduplicator.
+ * Results are returned in request order; each item succeeds or fails on its own.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	let items: CalculationRequest[] | undefined;
+	try {
+		const body: BatchCalculationRequest | CalculationRequest[] = await request.json();
+		items = Array.isArray(body) ? body : body?.items;
+	} catch (error) {
+		logger.error('Batch calculate endpoint error', error as Error);
+	}
+
+	if (!Array.isArray(items) || items.length === 0) {
+		return json({
+			success: false,
+			error: {
+				code: 'INVALID_INPUT',
+				message: 'Batch request must include a non-empty array of calculation requests.',
+			},
+		} satisfies BatchCalculationResponse);
+	}
+
+	if (items.length > MAX_BATCH_SIZE) {
+		return json({
+			success: false,
+			error: {
+				code: 'INVALID_INPUT',
+				message: `Batch request is limited to ${MAX_BATCH_SIZE} items.`,
+			},
+		} satisfies BatchCalculationResponse);
+	}
+
+	logger.info('Batch calculation started', undefined, { items: items.length, concurrency: BATCH_CONCURRENCY });
+
+	const results = await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item, index) => {
+		try {
+			return await calculatePrescription(item);
+		} catch (error) {
+			logger.error(`Batch item ${index} failed`, error as Error);
+			return {
+				success: false,
+				error: {
+					code: 'API_ERROR',
+					message: 'An unexpected error occurred. Please try again.',
+				},
+			} satisfies CalculationResponse;
+		}
+	});
+
+	const succeeded = results.filter((result) => result.success).length;
+	logger.info('Batch calculation completed', undefined, {
+		items: items.length,
+		succeeded,
+		failed: items.length - succeeded,
+	});
+
+	return json(
+		{
+			success: true,
+			results,
+			summary: {
+				total: items.length,
+				succeeded,
+				failed: items.length - succeeded,
+			},
+		} satisfies BatchCalculationResponse,
+		{ status: 200 }
+	);
+};
@@ -0,0 +1,61 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { CalculationResponse } from '$lib/types/api.js';
+import type { FhirMappedRequest, FhirMedicationRequest } from '$lib/types/fhir.js';
+import { mapMedicationRequest } from '$lib/core/fhirAdapter';
+import { calculatePrescription } from '$lib/services/calculation';
+import { logger } from '$lib/utils/logger';
+
+/**
+ * POST /api/calculate/fhir
+ * Accepts a FHIR R4 MedicationRequest and runs the calculate flow on it.
+ * Structured dosageInstruction skips SIG parsing; the response is the standard CalculationResponse.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	let resource: FhirMedicationRequest;
+	try {
+		resource = await request.json();
+	} catch (error) {
+		logger.error('FHIR calculate endpoint error', error as Error);
+		return json({
+			success: false,
+			error: {
+				code: 'API_ERROR',
+				message: 'An unexpected error occurred. Please try again.',
+			},
+		} satisfies CalculationResponse);
+	}
+
+	let mapped: FhirMappedRequest;
+	try {
+		mapped = mapMedicationRequest(resource);
+	} catch (error) {
+		logger.warn('Could not map FHIR MedicationRequest', undefined, {
+			id: resource?.id,
+			reason: error instanceof Error ? error.message : String(error),
+		});
+		return json({
+			success: false,
+			error: {
+				code: 'INVALID_INPUT',
+				message: error instanceof Error ? error.message : 'Invalid MedicationRequest.',
+			},
+		} satisfies CalculationResponse);
+	}
+
+	// Coded RxNorm product: calculate from the RxCUI rather than searching its display name
+	if (mapped.rxcui) {
+		mapped.request.rxcui = mapped.rxcui;
+	}
+
+	logger.info('FHIR MedicationRequest mapped', undefined, {
+		id: resource.id,
+		drugInput: mapped.request.drugInput,
+		rxcui: mapped.rxcui,
+		daysSupply: mapped.request.daysSupply,
+		structuredDosage: !!mapped.parsedSig,
+	});
+
+	const response = await calculatePrescription(mapped.request, mapped.parsedSig);
+	return json(response, { status: 200 });
+};
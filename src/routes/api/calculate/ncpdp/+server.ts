@@ -0,0 +1,116 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { NcpdpCalculationResponse, NcpdpMappedRequest, QuantityComparison } from '$lib/types/ncpdp.js';
+import type { ParsedSig, QuantityResult } from '$lib/types/sig.js';
+import type { QuantityDiscrepancy } from '$lib/types/warning.js';
+import { mapNewRx, compareWrittenQuantity } from '$lib/core/ncpdpParser';
+import { parse as parseSig } from '$lib/core/sigParser';
+import { calculateDaysSupply } from '$lib/core/quantityCalculator';
+import { calculatePrescription } from '$lib/services/calculation';
+import { generateQuantityMismatchWarnings } from '$lib/core/warningGenerator';
+import { logger } from '$lib/utils/logger';
+
+/**
+ * POST /api/calculate/ncpdp
+ * Accepts an NCPDP SCRIPT 2017071 NewRx message (XML body) and runs the calculate flow on it.
+ * The response adds the extracted prescription and the prescriber's written quantity
+ * compared with the calculated quantity; a discrepancy is also added as a quantity_mismatch warning.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	let mapped: NcpdpMappedRequest;
+	try {
+		mapped = mapNewRx(await request.text());
+	} catch (error) {
+		logger.warn('Could not map NCPDP NewRx', undefined, {
+			reason: error instanceof Error ? error.message : String(error),
+		});
+		return json({
+			success: false,
+			error: {
+				code: 'INVALID_INPUT',
+				message: error instanceof Error ? error.message : 'Invalid NewRx message.',
+			},
+		} satisfies NcpdpCalculationResponse);
+	}
+
+	const { request: calculationRequest, prescription } = mapped;
+
+	// RxNorm product code: calculate from the RxCUI rather than searching the description
+	if (prescription.rxcui) {
+		calculationRequest.rxcui = prescription.rxcui;
+	}
+
+	logger.info('NCPDP NewRx mapped', undefined, {
+		messageId: prescription.messageId,
+		drugInput: calculationRequest.drugInput,
+		rxcui: prescription.rxcui,
+		daysSupply: calculationRequest.daysSupply,
+		structuredSig: !!prescription.structuredSig,
+	});
+
+	const response = await calculatePrescription(calculationRequest, prescription.structuredSig);
+	const quantityComparison =
+		response.success && response.data && prescription.writtenQuantity
+			? compareWrittenQuantity(prescription.writtenQuantity, response.data.quantity)
+			: undefined;
+
+	if (response.data && quantityComparison?.discrepancy) {
+		logger.warn('Written quantity differs from calculated quantity', undefined, {
+			messageId: prescription.messageId,
+			...quantityComparison,
+		});
+
+		const impliedDaysSupply = await writtenDaysSupply(
+			quantityComparison,
+			response.data.quantity,
+			calculationRequest.sig,
+			prescription.structuredSig
+		);
+		if (impliedDaysSupply !== undefined) {
+			const discrepancy: QuantityDiscrepancy = {
+				prescribedQuantity: quantityComparison.written,
+				calculatedQuantity: quantityComparison.calculated,
+				unit: quantityComparison.unit,
+				daysSupply: response.data.quantity.calculation.daysSupply,
+				impliedDaysSupply,
+			};
+			response.data.warnings.push(...generateQuantityMismatchWarnings(discrepancy));
+		}
+	}
+
+	return json(
+		{ ...response, prescription, quantityComparison } satisfies NcpdpCalculationResponse,
+		{ status: 200 }
+	);
+};
+
+/**
+ * Days the written quantity covers under the SIG, by the same rules as the calculation
+ * (schedules, tapers, PRN caps, insulin discard windows). Whole devices count at their capacity;
+ * kits at the days each one covers.
+ * @returns Days covered, or undefined when the SIG cannot be parsed
+ */
+async function writtenDaysSupply(
+	comparison: QuantityComparison,
+	quantity: QuantityResult,
+	sig: string,
+	structuredSig?: ParsedSig
+): Promise<number | undefined> {
+	const dispensable = quantity.dispensable?.unit === comparison.unit ? quantity.dispensable : undefined;
+	if (dispensable?.capacityUnit === 'day') {
+		return Math.floor(comparison.written * dispensable.capacity);
+	}
+	const written = dispensable ? comparison.written * dispensable.capacity : comparison.written;
+	if (written <= 0) {
+		return 0;
+	}
+
+	const parsedSig = structuredSig ?? (await parseSig(sig));
+	if (!parsedSig) {
+		return undefined;
+	}
+	return calculateDaysSupply(parsedSig, written, {
+		insulinDevice: quantity.insulin?.device,
+		inhalerCapacity: quantity.dispensable?.capacityUnit === 'actuation' ? quantity.dispensable.capacity : undefined,
+	});
+}
@@ -0,0 +1,29 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { DaysSupplyRequest, DaysSupplyResponse } from '$lib/types/api.js';
+import { calculateDaysSupplyForNdc } from '$lib/services/daysSupply';
+import { logger } from '$lib/utils/logger';
+
+/**
+ * POST /api/days-supply
+ * Reverse of /api/calculate: given a package NDC, the number of packages dispensed and a SIG,
+ * returns the days' supply they cover and the rounding rule that was used.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	let body: DaysSupplyRequest;
+	try {
+		body = await request.json();
+	} catch (error) {
+		logger.error('Days supply endpoint error', error as Error);
+		return json({
+			success: false,
+			error: {
+				code: 'API_ERROR',
+				message: 'An unexpected error occurred. Please try again.',
+			},
+		} satisfies DaysSupplyResponse);
+	}
+
+	const response = await calculateDaysSupplyForNdc(body);
+	return json(response, { status: 200 });
+};
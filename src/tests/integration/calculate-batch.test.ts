@@ -0,0 +1,79 @@
+/**
+ * Integration tests for the batch calculate endpoint
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../../routes/api/calculate/batch/+server.js';
+import { calculatePrescription } from '$lib/services/calculation';
+import type { CalculationRequest } from '$lib/types/api.js';
+
+vi.mock('$lib/services/calculation', () => ({
+	calculatePrescription: vi.fn(),
+}));
+
+describe('Batch Calculate Endpoint', () => {
+	const post = async (body: unknown) => {
+		const request = new Request('http://localhost/api/calculate/batch', {
+			method: 'POST',
+			body: JSON.stringify(body),
+		});
+		const response = await POST({ request } as Parameters<typeof POST>[0]);
+		return response.json();
+	};
+
+	const item = (drugInput: string): CalculationRequest => ({ drugInput, sig: 'Take 1 tablet daily', daysSupply: 30 });
+
+	beforeEach(() => {
+		vi.mocked(calculatePrescription).mockReset();
+	});
+
+	it('should reject more than 100 items', async () => {
+		const data = await post({ items: Array.from({ length: 101 }, (_, index) => item(`drug-${index}`)) });
+
+		expect(data).toMatchObject({ success: false, error: { code: 'INVALID_INPUT' } });
+		expect(data.error.message).toContain('100 items');
+		expect(calculatePrescription).not.toHaveBeenCalled();
+	});
+
+	it('should reject an empty or missing item list', async () => {
+		expect(await post({ items: [] })).toMatchObject({ success: false, error: { code: 'INVALID_INPUT' } });
+		expect(await post({})).toMatchObject({ success: false, error: { code: 'INVALID_INPUT' } });
+	});
+
+	it('should return results in request order', async () => {
+		// Earlier items finish last
+		vi.mocked(calculatePrescription).mockImplementation(async (request) => {
+			const index = Number(request.drugInput.split('-')[1]);
+			await new Promise((resolve) => setTimeout(resolve, (10 - index) * 2));
+			return { success: true, data: { drug: { name: request.drugInput } } } as never;
+		});
+
+		const data = await post(Array.from({ length: 10 }, (_, index) => item(`drug-${index}`)));
+
+		expect(data.success).toBe(true);
+		expect(data.results.map((result: { data: { drug: { name: string } } }) => result.data.drug.name)).toEqual(
+			Array.from({ length: 10 }, (_, index) => `drug-${index}`)
+		);
+		expect(data.summary).toEqual({ total: 10, succeeded: 10, failed: 0 });
+	});
+
+	it('should keep going when an item fails or throws', async () => {
+		vi.mocked(calculatePrescription).mockImplementation(async (request) => {
+			if (request.drugInput === 'throws') {
+				throw new Error('boom');
+			}
+			if (request.drugInput === 'fails') {
+				return { success: false, error: { code: 'DRUG_NOT_FOUND', message: 'Not found' } };
+			}
+			return { success: true, data: { drug: { name: request.drugInput } } } as never;
+		});
+
+		const data = await post({ items: [item('first'), item('throws'), item('fails'), item('last')] });
+
+		expect(data.success).toBe(true);
+		expect(data.results.map((result: { success: boolean }) => result.success)).toEqual([true, false, false, true]);
+		expect(data.results[1].error).toMatchObject({ code: 'API_ERROR' });
+		expect(data.results[2].error).toMatchObject({ code: 'DRUG_NOT_FOUND' });
+		expect(data.summary).toEqual({ total: 4, succeeded: 2, failed: 2 });
+	});
+});
@@ -0,0 +1,62 @@
+/**
+ * Integration tests for the FHIR calculate endpoint
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../../routes/api/calculate/fhir/+server.js';
+import { calculatePrescription } from '$lib/services/calculation';
+import type { FhirMedicationRequest } from '$lib/types/fhir.js';
+
+vi.mock('$lib/services/calculation', () => ({
+	calculatePrescription: vi.fn(),
+}));
+
+describe('FHIR Calculate Endpoint', () => {
+	const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+	const post = async (body: unknown) => {
+		const request = new Request('http://localhost/api/calculate/fhir', {
+			method: 'POST',
+			body: JSON.stringify(body),
+		});
+		const response = await POST({ request } as Parameters<typeof POST>[0]);
+		return response.json();
+	};
+
+	const medicationRequest = (coding: { system: string; code: string; display?: string }): FhirMedicationRequest => ({
+		resourceType: 'MedicationRequest',
+		medicationCodeableConcept: { coding: [coding] },
+		dosageInstruction: [{ text: 'Take 1 tablet by mouth once daily' }],
+		dispenseRequest: { expectedSupplyDuration: { value: 30, unit: 'days', system: 'http://unitsofmeasure.org', code: 'd' } },
+	});
+
+	beforeEach(() => {
+		vi.mocked(calculatePrescription).mockReset();
+		vi.mocked(calculatePrescription).mockResolvedValue({ success: true });
+	});
+
+	it('should pass a coded RxCUI through without a name lookup', async () => {
+		await post(medicationRequest({ system: RXNORM, code: '314076' }));
+
+		expect(calculatePrescription).toHaveBeenCalledWith(
+			expect.objectContaining({ drugInput: '', rxcui: '314076', daysSupply: 30 }),
+			undefined
+		);
+	});
+
+	it('should keep the display text alongside the RxCUI', async () => {
+		await post(medicationRequest({ system: RXNORM, code: '314076', display: 'lisinopril 10 MG Oral Tablet' }));
+
+		expect(calculatePrescription).toHaveBeenCalledWith(
+			expect.objectContaining({ drugInput: 'lisinopril 10 MG Oral Tablet', rxcui: '314076' }),
+			undefined
+		);
+	});
+
+	it('should reject a resource that is not a MedicationRequest', async () => {
+		const data = await post({ resourceType: 'Patient' });
+
+		expect(data).toMatchObject({ success: false, error: { code: 'INVALID_INPUT' } });
+		expect(calculatePrescription).not.toHaveBeenCalled();
+	});
+});
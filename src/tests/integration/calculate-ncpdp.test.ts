@@ -0,0 +1,90 @@
+/**
+ * Integration tests for the NCPDP calculate endpoint
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../../routes/api/calculate/ncpdp/+server.js';
+import { calculatePrescription } from '$lib/services/calculation';
+import type { CalculationResult } from '$lib/types/api.js';
+
+vi.mock('$lib/services/calculation', () => ({
+	calculatePrescription: vi.fn(),
+}));
+
+describe('NCPDP Calculate Endpoint', () => {
+	const newRx = (medication: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Message xmlns="http://www.ncpdp.org/schema/SCRIPT" DatatypesVersion="2017071" TransportVersion="2017071">
+	<Header><MessageID>msg-001</MessageID></Header>
+	<Body><NewRx><MedicationPrescribed>${medication}</MedicationPrescribed></NewRx></Body>
+</Message>`;
+
+	const medication = (writtenQuantity: number, sig = 'Take 1 tablet by mouth once daily', daysSupply = 30) => `
+	<DrugCoded><DrugDBCode><Code>314076</Code><Qualifier>SCD</Qualifier></DrugDBCode></DrugCoded>
+	<Quantity><Value>${writtenQuantity}</Value><QuantityUnitOfMeasure><Code>C48542</Code></QuantityUnitOfMeasure></Quantity>
+	<DaysSupply>${daysSupply}</DaysSupply>
+	<Sig><SigText>${sig}</SigText></Sig>`;
+
+	const post = async (xml: string) => {
+		const request = new Request('http://localhost/api/calculate/ncpdp', { method: 'POST', body: xml });
+		const response = await POST({ request } as Parameters<typeof POST>[0]);
+		return response.json();
+	};
+
+	beforeEach(() => {
+		vi.mocked(calculatePrescription).mockReset();
+		vi.mocked(calculatePrescription).mockImplementation(async () => ({
+			success: true,
+			data: {
+				drug: { name: 'lisinopril 10 MG Oral Tablet', rxcui: '314076' },
+				quantity: { total: 30, unit: 'tablet', calculation: { dosage: 1, frequency: 1, daysSupply: 30 } },
+				warnings: [],
+			} as unknown as CalculationResult,
+		}));
+	});
+
+	it('should pass the RxNorm code through without a name lookup', async () => {
+		await post(newRx(medication(30)));
+
+		expect(calculatePrescription).toHaveBeenCalledWith(
+			expect.objectContaining({ drugInput: '', rxcui: '314076', daysSupply: 30 }),
+			undefined
+		);
+	});
+
+	it('should add a quantity_mismatch warning when the written quantity differs', async () => {
+		const data = await post(newRx(medication(90)));
+
+		expect(data.quantityComparison).toMatchObject({ written: 90, calculated: 30, discrepancy: true });
+		expect(data.data.warnings).toEqual([
+			expect.objectContaining({
+				type: 'quantity_mismatch',
+				discrepancy: { prescribedQuantity: 90, calculatedQuantity: 30, unit: 'tablet', daysSupply: 30, impliedDaysSupply: 90 },
+			}),
+		]);
+	});
+
+	it('should derive the written quantity\'s days from the SIG rather than scaling linearly', async () => {
+		vi.mocked(calculatePrescription).mockResolvedValue({
+			success: true,
+			data: {
+				drug: { name: 'prednisone 10 MG Oral Tablet', rxcui: '312615' },
+				quantity: { total: 20, unit: 'tablet', calculation: { dosage: 4, frequency: 1, daysSupply: 8 } },
+				warnings: [],
+			} as unknown as CalculationResult,
+		});
+		const taper =
+			'Take 4 tablets daily for 2 days, then 3 tablets daily for 2 days, then 2 tablets daily for 2 days, then 1 tablet daily for 2 days';
+
+		const data = await post(newRx(medication(10, taper, 8)));
+
+		// 4 + 4 tablets cover two days; the third needs 3 more (linear scaling would claim 4 days)
+		expect(data.data.warnings[0].discrepancy).toMatchObject({ prescribedQuantity: 10, daysSupply: 8, impliedDaysSupply: 2 });
+	});
+
+	it('should not warn when the written quantity matches', async () => {
+		const data = await post(newRx(medication(30)));
+
+		expect(data.quantityComparison.discrepancy).toBe(false);
+		expect(data.data.warnings).toEqual([]);
+	});
+});
@@ -0,0 +1,196 @@
+/**
+ * Integration tests for the calculation service
+ * Runs calculatePrescription with mocked RxNorm and FDA services
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { calculatePrescription } from '$lib/services/calculation';
+import { searchByDrugName, getDrugName, getStrength, getTermType, getEquivalentProducts } from '$lib/services/rxnorm';
+import { getPackagesByRxcui, type FdaPackageDetails } from '$lib/services/fda';
+import type { ParsedSig } from '$lib/types/sig.js';
+
+vi.mock('$lib/services/rxnorm', async (importOriginal) => ({
+	productTypeForTermType: (await importOriginal<typeof import('$lib/services/rxnorm')>()).productTypeForTermType,
+	searchByDrugName: vi.fn(),
+	getSpellingSuggestions: vi.fn(),
+	getRxcuiByNdc: vi.fn(),
+	getDrugName: vi.fn(),
+	getStrength: vi.fn(),
+	getTermType: vi.fn(),
+	getEquivalentProducts: vi.fn(),
+}));
+
+vi.mock('$lib/services/fda', () => ({
+	getPackagesByRxcui: vi.fn(),
+	getPackageDetails: vi.fn(),
+	getAllPackages: vi.fn(),
+}));
+
+describe('Calculation Service', () => {
+	const onceDaily: ParsedSig = { dosage: 1, frequency: 1, unit: 'tablet', confidence: 1 };
+
+	const fdaPackage = (packageNdc: string, packageSize: number, strength?: string): FdaPackageDetails => ({
+		product_ndc: packageNdc.split('-').slice(0, 2).join('-'),
+		package_ndc: packageNdc,
+		package_description: `${packageSize} TABLET in 1 BOTTLE`,
+		active: true,
+		manufacturer_name: 'Test Manufacturer',
+		dosage_form: 'TABLET',
+		...(strength && { strength }),
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(getStrength).mockResolvedValue(null);
+		vi.mocked(getPackagesByRxcui).mockResolvedValue([fdaPackage('12345-678-90', 30)]);
+	});
+
+	describe('coded RxCUI', () => {
+		it('should calculate from the RxCUI without searching the drug name', async () => {
+			vi.mocked(getDrugName).mockResolvedValue('lisinopril 10 MG Oral Tablet');
+
+			const response = await calculatePrescription({ drugInput: '', rxcui: '314076', sig: 'Take 1 tablet daily', daysSupply: 30 }, onceDaily);
+
+			expect(response.success).toBe(true);
+			expect(searchByDrugName).not.toHaveBeenCalled();
+			expect(getPackagesByRxcui).toHaveBeenCalledWith('314076');
+			expect(response.data?.drug).toMatchObject({ name: 'lisinopril 10 MG Oral Tablet', rxcui: '314076' });
+		});
+
+		it('should keep calculating when the RxNorm name lookup fails', async () => {
+			vi.mocked(getDrugName).mockRejectedValue(new Error('timeout'));
+
+			const response = await calculatePrescription({ drugInput: '', rxcui: '314076', sig: 'Take 1 tablet daily', daysSupply: 30 }, onceDaily);
+
+			expect(response.success).toBe(true);
+			expect(response.data?.drug.name).toBe('314076');
+		});
+
+		it('should still require a drug input or RxCUI', async () => {
+			const missing = await calculatePrescription({ drugInput: ' ', sig: 'Take 1 tablet daily', daysSupply: 30 });
+			const invalid = await calculatePrescription({ drugInput: '', rxcui: 'abc', sig: 'Take 1 tablet daily', daysSupply: 30 });
+
+			expect(missing.error?.code).toBe('INVALID_INPUT');
+			expect(invalid.error?.code).toBe('INVALID_INPUT');
+		});
+	});
+
+	describe('brand/generic equivalents', () => {
+		const packagesByRxcui: Record<string, FdaPackageDetails[]> = {
+			'617314': [fdaPackage('00071-0155-23', 90)],
+			'617310': [fdaPackage('00378-2015-77', 30), fdaPackage('00071-0155-23', 90)],
+			'617318': [fdaPackage('00071-0156-23', 60)],
+		};
+
+		const selectionSources = (response: Awaited<ReturnType<typeof calculatePrescription>>) =>
+			Object.fromEntries(
+				[response.data!.recommendedNdc, ...response.data!.alternatives]
+					.filter((selection) => !selection.components)
+					.map((selection) => [selection.ndc, [selection.sourceRxcui, selection.productType]])
+			);
+
+		beforeEach(() => {
+			vi.mocked(searchByDrugName).mockResolvedValue('617314');
+			vi.mocked(getPackagesByRxcui).mockImplementation(async (rxcui) => packagesByRxcui[rxcui] ?? []);
+			vi.mocked(getTermType).mockResolvedValue('SBD');
+			vi.mocked(getEquivalentProducts).mockResolvedValue([
+				{ rxcui: '617310', name: 'atorvastatin 10 MG Oral Tablet', tty: 'SCD' },
+				{ rxcui: '617318', name: 'Lipitor 20 MG Oral Tablet', tty: 'SBD' },
+			]);
+		});
+
+		it('should add the equivalents\' packages tagged with their source, keeping an NDC under its first source', async () => {
+			const response = await calculatePrescription(
+				{ drugInput: 'Lipitor', sig: 'Take 1 tablet daily', daysSupply: 30, includeEquivalents: true },
+				onceDaily
+			);
+
+			expect(response.success).toBe(true);
+			expect(getPackagesByRxcui).toHaveBeenCalledTimes(3);
+			expect(selectionSources(response)).toEqual({
+				'00071-0155-23': ['617314', 'brand'],
+				'00378-2015-77': ['617310', 'generic'],
+				'00071-0156-23': ['617318', 'brand'],
+			});
+		});
+
+		it('should search only the RxCUI itself without includeEquivalents', async () => {
+			const response = await calculatePrescription({ drugInput: 'Lipitor', sig: 'Take 1 tablet daily', daysSupply: 30 }, onceDaily);
+
+			expect(getEquivalentProducts).not.toHaveBeenCalled();
+			expect(Object.keys(selectionSources(response))).toEqual(['00071-0155-23']);
+		});
+
+		it('should fall back to the RxCUI\'s own packages when RxNorm fails', async () => {
+			vi.mocked(getEquivalentProducts).mockRejectedValue(new Error('timeout'));
+
+			const response = await calculatePrescription(
+				{ drugInput: 'Lipitor', sig: 'Take 1 tablet daily', daysSupply: 30, includeEquivalents: true },
+				onceDaily
+			);
+
+			expect(response.success).toBe(true);
+			expect(selectionSources(response)).toEqual({ '00071-0155-23': [undefined, undefined] });
+		});
+	});
+
+	describe('dispense level', () => {
+		beforeEach(() => {
+			vi.mocked(searchByDrugName).mockResolvedValue('314076');
+			vi.mocked(getPackagesByRxcui).mockResolvedValue([
+				{ ...fdaPackage('12345-678-01', 10), package_description: '10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK' },
+			]);
+		});
+
+		it('should dispense whole cartons when asked', async () => {
+			const response = await calculatePrescription(
+				{ drugInput: 'lisinopril', sig: 'Take 1 tablet daily', daysSupply: 100, dispenseAt: 'carton' },
+				onceDaily
+			);
+
+			expect(response.success).toBe(true);
+			expect(response.data?.recommendedNdc).toMatchObject({ ndc: '12345-678-01', packageSize: 100, packageCount: 1 });
+		});
+
+		it('should reject a blank container', async () => {
+			const response = await calculatePrescription(
+				{ drugInput: 'lisinopril', sig: 'Take 1 tablet daily', daysSupply: 100, dispenseAt: ' ' },
+				onceDaily
+			);
+
+			expect(response.error?.code).toBe('INVALID_INPUT');
+		});
+	});
+
+	describe('strength', () => {
+		beforeEach(() => {
+			vi.mocked(searchByDrugName).mockResolvedValue('83367');
+			vi.mocked(getPackagesByRxcui).mockResolvedValue([
+				fdaPackage('12345-015-30', 30, '15 mg/1'),
+				fdaPackage('12345-025-30', 30, '25 mg/1'),
+			]);
+		});
+
+		it('should keep every package when only RxNorm\'s strength matches none', async () => {
+			vi.mocked(getStrength).mockResolvedValue('40 MG');
+
+			const response = await calculatePrescription({ drugInput: 'atorvastatin', sig: 'Take 1 tablet daily', daysSupply: 30 }, onceDaily);
+
+			expect(response.success).toBe(true);
+			const ndcs = [response.data!.recommendedNdc, ...response.data!.alternatives].map((selection) => selection.ndc);
+			expect(ndcs).toEqual(expect.arrayContaining(['12345-015-30', '12345-025-30']));
+			expect(response.data!.warnings).toContainEqual(expect.objectContaining({ type: 'strength_unmatched' }));
+		});
+
+		it('should still fail when the request names an unavailable strength', async () => {
+			const response = await calculatePrescription(
+				{ drugInput: 'atorvastatin', sig: 'Take 1 tablet daily', daysSupply: 30, strength: '40 mg' },
+				onceDaily
+			);
+
+			expect(response.success).toBe(false);
+			expect(response.error?.code).toBe('NO_NDCS_FOUND');
+			expect(getStrength).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,117 @@
+/**
+ * Integration tests for the days-supply service and endpoint
+ * Runs the flow with mocked FDA and SIG parsing services
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../../routes/api/days-supply/+server.js';
+import { calculateDaysSupplyForNdc } from '$lib/services/daysSupply';
+import { getPackageDetails } from '$lib/services/fda';
+import { parse as parseSig } from '$lib/core/sigParser';
+import type { DaysSupplyRequest } from '$lib/types/api.js';
+
+vi.mock('$lib/services/fda', () => ({
+	getPackageDetails: vi.fn(),
+}));
+
+vi.mock('$lib/core/sigParser', () => ({
+	parse: vi.fn(),
+}));
+
+describe('Days Supply', () => {
+	const request = (overrides: Partial<DaysSupplyRequest> = {}): DaysSupplyRequest => ({
+		ndc: '12345-678-90',
+		packageCount: 2,
+		sig: 'Take 1 tablet twice daily',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(getPackageDetails).mockResolvedValue({
+			product_ndc: '12345-678',
+			package_ndc: '12345-678-90',
+			package_description: '30 TABLET in 1 BOTTLE',
+			active: true,
+			manufacturer_name: 'Test Manufacturer',
+			dosage_form: 'TABLET',
+			generic_name: 'Lisinopril',
+		});
+		vi.mocked(parseSig).mockResolvedValue({ dosage: 1, frequency: 2, unit: 'tablet', confidence: 0.9 });
+	});
+
+	describe('calculateDaysSupplyForNdc()', () => {
+		it('should return the days the dispensed packages cover', async () => {
+			const response = await calculateDaysSupplyForNdc(request());
+
+			expect(response.success).toBe(true);
+			expect(response.data).toMatchObject({
+				daysSupply: 30,
+				ndc: '12345-678-90',
+				packageDescription: '30 TABLET in 1 BOTTLE',
+				packageCount: 2,
+				drugName: 'Lisinopril',
+			});
+		});
+
+		it.each([
+			['a missing NDC', { ndc: '' }, 'package NDC'],
+			['a non-positive package count', { packageCount: 0 }, 'Package count'],
+			['a missing SIG', { sig: '' }, 'SIG'],
+			['an unknown dose range policy', { doseRangePolicy: 'most' as never }, 'Dose range policy'],
+			['too many PRN doses per day', { prnDosesPerDay: 25 }, 'PRN doses'],
+			['a weight without a unit', { patientWeight: { value: 20, unit: 'st' as never } }, 'Patient weight'],
+			['a non-positive per-dose cap', { maxDosePerDoseMg: 0 }, 'Maximum dose per dose'],
+		])('should reject %s', async (_, overrides, message) => {
+			const response = await calculateDaysSupplyForNdc(request(overrides));
+
+			expect(response.success).toBe(false);
+			expect(response.error?.code).toBe('INVALID_INPUT');
+			expect(response.error?.message).toContain(message);
+			expect(getPackageDetails).not.toHaveBeenCalled();
+		});
+
+		it('should report an NDC the FDA does not know', async () => {
+			vi.mocked(getPackageDetails).mockResolvedValue(null);
+
+			const response = await calculateDaysSupplyForNdc(request());
+
+			expect(response.error?.code).toBe('DRUG_NOT_FOUND');
+		});
+
+		it('should report a SIG that cannot be parsed', async () => {
+			vi.mocked(parseSig).mockResolvedValue(null);
+
+			const response = await calculateDaysSupplyForNdc(request());
+
+			expect(response.error?.code).toBe('SIG_PARSE_FAILED');
+		});
+	});
+
+	describe('POST /api/days-supply', () => {
+		const post = async (body: string) => {
+			const response = await POST({
+				request: new Request('http://localhost/api/days-supply', { method: 'POST', body }),
+			} as Parameters<typeof POST>[0]);
+			return response.json();
+		};
+
+		it('should return the calculated days supply', async () => {
+			const data = await post(JSON.stringify(request()));
+
+			expect(data).toMatchObject({ success: true, data: { daysSupply: 30, packageCount: 2 } });
+		});
+
+		it('should return validation errors as a structured response', async () => {
+			const data = await post(JSON.stringify(request({ maxDosePerDoseMg: -5 })));
+
+			expect(data).toMatchObject({ success: false, error: { code: 'INVALID_INPUT' } });
+		});
+
+		it('should reject a body that is not JSON', async () => {
+			const data = await post('not json');
+
+			expect(data).toMatchObject({ success: false, error: { code: 'API_ERROR' } });
+		});
+	});
+});
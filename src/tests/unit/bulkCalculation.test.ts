@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+	guessColumnMapping,
+	buildBulkRequests,
+	toBulkResultRow,
+	sortBulkResults,
+	bulkResultsToCsv,
+} from '../../lib/utils/bulkCalculation';
+import type { CalculationResponse } from '../../lib/types/api';
+import type { BulkResultRow } from '../../lib/types/bulk';
+
+describe('Bulk Calculation', () => {
+	describe('guessColumnMapping', () => {
+		it('should map common header names', () => {
+			expect(guessColumnMapping(['Drug Name', 'SIG', 'Days Supply'])).toEqual({ drugInput: 0, sig: 1, daysSupply: 2 });
+			expect(guessColumnMapping(['Directions', 'Days', 'NDC'])).toEqual({ drugInput: 2, sig: 0, daysSupply: 1 });
+		});
+
+		it('should leave unknown columns unmapped', () => {
+			expect(guessColumnMapping(['foo', 'bar'])).toEqual({ drugInput: -1, sig: -1, daysSupply: -1 });
+		});
+	});
+
+	describe('buildBulkRequests', () => {
+		const mapping = { drugInput: 0, sig: 1, daysSupply: 2 };
+
+		it('should build requests with file line numbers', () => {
+			const rows = buildBulkRequests([{ lineNumber: 4, cells: ['Lisinopril 10 mg', 'Take 1 tablet daily', '30'] }], mapping);
+			expect(rows[0].rowNumber).toBe(4);
+			expect(rows[0].request).toEqual({ drugInput: 'Lisinopril 10 mg', sig: 'Take 1 tablet daily', daysSupply: 30 });
+			expect(rows[0].errorCode).toBeUndefined();
+		});
+
+		it('should flag rows with missing values or invalid days', () => {
+			const rows = buildBulkRequests(
+				[
+					['', 'Take 1 tablet daily', '30'],
+					['Lisinopril', 'Take 1 tablet daily', 'thirty'],
+					['Lisinopril', 'Take 1 tablet daily', '400'],
+					['Lisinopril'],
+					['Lisinopril', 'Take 1 tablet daily', '366'],
+				].map((cells, index) => ({ lineNumber: index + 2, cells })),
+				mapping
+			);
+			expect(rows.map((row) => row.errorCode)).toEqual(Array(5).fill('INVALID_INPUT'));
+			expect(rows.every((row) => row.request === undefined)).toBe(true);
+		});
+
+		it('should accept the longest allowed days supply', () => {
+			const rows = buildBulkRequests([{ lineNumber: 2, cells: ['Lisinopril', 'Take 1 tablet daily', '365'] }], mapping);
+			expect(rows[0].request?.daysSupply).toBe(365);
+		});
+	});
+
+	describe('toBulkResultRow', () => {
+		const requestRow = { rowNumber: 2, drugInput: 'Lisinopril', sig: 'Take 1 tablet daily', daysSupply: '30' };
+
+		it('should summarize a successful response', () => {
+			const response = {
+				success: true,
+				data: {
+					quantity: { total: 30, unit: 'tablet' },
+					recommendedNdc: { ndc: '00071-0156-23', packageCount: 1, overfill: 0 },
+					warnings: [{ type: 'overfill', message: 'Overfill of 10%', severity: 'info' }],
+				},
+			} as unknown as CalculationResponse;
+
+			const row = toBulkResultRow(requestRow, response);
+			expect(row.status).toBe('success');
+			expect(row.recommendedNdc).toBe('00071-0156-23');
+			expect(row.packageCount).toBe(1);
+			expect(row.totalQuantity).toBe(30);
+			expect(row.warnings).toEqual(['Overfill of 10%']);
+		});
+
+		it('should carry the error code and user-facing message', () => {
+			const row = toBulkResultRow(requestRow, { success: false, error: { code: 'DRUG_NOT_FOUND', message: '' } });
+			expect(row.status).toBe('failed');
+			expect(row.errorCode).toBe('DRUG_NOT_FOUND');
+			expect(row.errorMessage).toBeTruthy();
+
+			const invalid = toBulkResultRow({ ...requestRow, errorCode: 'INVALID_INPUT' });
+			expect(invalid.errorCode).toBe('INVALID_INPUT');
+			expect(invalid.errorMessage).toBe('Please check your input and try again.');
+		});
+	});
+
+	describe('sortBulkResults', () => {
+		const rows: BulkResultRow[] = [
+			{ rowNumber: 2, drugInput: 'B', sig: '', daysSupply: '30', status: 'success', packageCount: 3, warnings: [] },
+			{ rowNumber: 3, drugInput: 'A', sig: '', daysSupply: '30', status: 'failed', warnings: [], errorCode: 'INVALID_INPUT' },
+			{ rowNumber: 4, drugInput: 'C', sig: '', daysSupply: '30', status: 'success', packageCount: 1, warnings: ['x'] },
+		];
+
+		it('should sort numbers and strings in either direction', () => {
+			expect(sortBulkResults(rows, 'drugInput', 'asc').map((row) => row.drugInput)).toEqual(['A', 'B', 'C']);
+			expect(sortBulkResults(rows, 'rowNumber', 'desc').map((row) => row.rowNumber)).toEqual([4, 3, 2]);
+			expect(sortBulkResults(rows, 'warnings', 'desc')[0].rowNumber).toBe(4);
+		});
+
+		it('should keep missing values last', () => {
+			expect(sortBulkResults(rows, 'packageCount', 'asc').map((row) => row.rowNumber)).toEqual([4, 2, 3]);
+			expect(sortBulkResults(rows, 'packageCount', 'desc').map((row) => row.rowNumber)).toEqual([2, 4, 3]);
+		});
+	});
+
+	describe('bulkResultsToCsv', () => {
+		it('should include failed rows with their error code', () => {
+			const csv = bulkResultsToCsv([
+				{
+					rowNumber: 3,
+					drugInput: 'Unknown',
+					sig: 'Take 1, daily',
+					daysSupply: '30',
+					status: 'failed',
+					warnings: [],
+					errorCode: 'DRUG_NOT_FOUND',
+					errorMessage: 'Not found',
+				},
+			]);
+			const [header, line] = csv.split('\r\n');
+			expect(header.startsWith('Row,Drug,SIG')).toBe(true);
+			expect(line).toBe('3,Unknown,"Take 1, daily",30,failed,,,,,,,DRUG_NOT_FOUND,Not found');
+		});
+	});
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../lib/utils/concurrency';
+
+describe('mapWithConcurrency', () => {
+	it('should keep results in input order', async () => {
+		const delays = [30, 10, 20, 0];
+		const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+			await new Promise((resolve) => setTimeout(resolve, delay));
+			return index;
+		});
+
+		expect(results).toEqual([0, 1, 2, 3]);
+	});
+
+	it('should never exceed the concurrency limit', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+
+		await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+			inFlight++;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			inFlight--;
+		});
+
+		expect(maxInFlight).toBe(3);
+	});
+
+	it('should handle an empty list', async () => {
+		expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+	});
+});
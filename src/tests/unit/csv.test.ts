@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvRows, toCsv } from '../../lib/utils/csv';
+
+describe('CSV', () => {
+	describe('parseCsv', () => {
+		it('should split rows and cells', () => {
+			expect(parseCsv('drug,sig,days\nLisinopril 10 mg,Take 1 tablet daily,30')).toEqual([
+				['drug', 'sig', 'days'],
+				['Lisinopril 10 mg', 'Take 1 tablet daily', '30'],
+			]);
+		});
+
+		it('should handle quoted cells with commas, quotes and line breaks', () => {
+			const text = 'drug,sig\r\n"Amoxicillin, 500 mg","Take 1 ""cap""\ntwice daily"\r\n';
+			expect(parseCsv(text)).toEqual([
+				['drug', 'sig'],
+				['Amoxicillin, 500 mg', 'Take 1 "cap"\ntwice daily'],
+			]);
+		});
+
+		it('should skip blank lines and trim cells', () => {
+			expect(parseCsv('a, b \n\n , \nc,d\n')).toEqual([
+				['a', 'b'],
+				['c', 'd'],
+			]);
+		});
+	});
+
+	describe('parseCsvRows', () => {
+		it('should keep the file line of each row across blank lines and multi-line cells', () => {
+			const text = 'drug,sig\r\n\r\nLisinopril,"Take 1 tablet\ndaily"\n\n\nMetformin,Take 1 tablet twice daily\n';
+			expect(parseCsvRows(text)).toEqual([
+				{ lineNumber: 1, cells: ['drug', 'sig'] },
+				{ lineNumber: 3, cells: ['Lisinopril', 'Take 1 tablet\ndaily'] },
+				{ lineNumber: 7, cells: ['Metformin', 'Take 1 tablet twice daily'] },
+			]);
+		});
+	});
+
+	describe('toCsv', () => {
+		it('should quote cells that need it and blank missing values', () => {
+			expect(toCsv([['a', 'b,c', 'say "hi"'], [1, undefined, null]])).toBe('a,"b,c","say ""hi"""\r\n1,,');
+		});
+
+		it('should round-trip through parseCsv', () => {
+			const rows = [['drug', 'sig'], ['Amoxicillin, 500 mg', 'Take "1" capsule']];
+			expect(parseCsv(toCsv(rows))).toEqual(rows);
+		});
+	});
+});
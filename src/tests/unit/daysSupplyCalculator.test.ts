@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDaysSupplyFromPackage } from '../../lib/core/daysSupplyCalculator';
+import type { ParsedSig } from '../../lib/types/sig';
+
+describe('Days Supply Calculator', () => {
+	describe('calculateDaysSupplyFromPackage()', () => {
+		it('should derive days from tablet packages', () => {
+			const parsedSig: ParsedSig = { dosage: 1, frequency: 2, unit: 'tablet', confidence: 0.9 };
+
+			const result = calculateDaysSupplyFromPackage(parsedSig, '30 TABLET in 1 BOTTLE', 2);
+			expect(result).toMatchObject({ daysSupply: 30, quantity: 60, unit: 'tablet', used: 60, remaining: 0 });
+			expect(result.rounding).toBe('whole_days');
+			expect(result.roundingRule).toContain('Rounded down');
+		});
+
+		it('should round down to the last whole day and report the leftover', () => {
+			const parsedSig: ParsedSig = { dosage: 2, frequency: 3, unit: 'tablet', confidence: 0.9 };
+
+			const result = calculateDaysSupplyFromPackage(parsedSig, '100 TABLET in 1 BOTTLE', 1);
+			expect(result.daysSupply).toBe(16); // 6 per day: 96 used
+			expect(result.remaining).toBe(4);
+		});
+
+		it('should compare liquids in mL through the concentration', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 250,
+				frequency: 3,
+				unit: 'mg',
+				confidence: 0.9,
+				dosageForm: 'liquid',
+				concentration: { amount: 250, unit: 'mg', volume: 5, volumeUnit: 'mL' },
+			};
+
+			const result = calculateDaysSupplyFromPackage(parsedSig, '100 mL in 1 BOTTLE', 1);
+			expect(result).toMatchObject({ daysSupply: 6, quantity: 100, unit: 'mL', used: 90, remaining: 10 });
+		});
+
+		it('should count inhaler actuations from a metered aerosol package', () => {
+			const parsedSig: ParsedSig = { dosage: 2, frequency: 4, unit: 'actuation', confidence: 0.9, dosageForm: 'inhaler' };
+
+			const result = calculateDaysSupplyFromPackage(
+				parsedSig,
+				'1 INHALER in 1 CARTON / 200 AEROSOL, METERED in 1 INHALER',
+				2
+			);
+			expect(result).toMatchObject({ daysSupply: 50, quantity: 400, unit: 'actuation' });
+			expect(result.dispensable).toEqual({ unit: 'inhaler', count: 2, capacity: 200, capacityUnit: 'actuation' });
+		});
+
+		it('should use whole insulin pens with priming', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 10,
+				frequency: 1,
+				unit: 'unit',
+				confidence: 0.95,
+				dosageForm: 'insulin',
+				insulinStrength: 100,
+			};
+
+			// 12 units/day with priming: each 300-unit pen lasts 25 days
+			const result = calculateDaysSupplyFromPackage(parsedSig, '5 SYRINGE in 1 CARTON / 3 mL in 1 SYRINGE', 1);
+			expect(result).toMatchObject({ daysSupply: 125, quantity: 15, unit: 'mL', rounding: 'whole_devices' });
+			expect(result.dispensable).toMatchObject({ unit: 'pen', count: 5, capacity: 3 });
+			expect(result.roundingRule).toContain('discarded 28 days after opening');
+		});
+
+		it('should limit insulin vials to the in-use discard window', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 5,
+				frequency: 1,
+				unit: 'unit',
+				confidence: 0.95,
+				dosageForm: 'insulin',
+				insulinStrength: 100,
+			};
+
+			const result = calculateDaysSupplyFromPackage(parsedSig, '1 VIAL in 1 CARTON / 10 mL in 1 VIAL', 2);
+			expect(result.daysSupply).toBe(56); // 1000 units would last 200 days, but each vial is discarded after 28
+		});
+
+		it('should reject a package unit that does not match the SIG', () => {
+			const parsedSig: ParsedSig = { dosage: 1, frequency: 1, unit: 'tablet', confidence: 0.9 };
+
+			expect(() => calculateDaysSupplyFromPackage(parsedSig, '150 mL in 1 BOTTLE', 1)).toThrow(/cannot be converted/);
+		});
+
+		it('should reject packages that do not cover one day', () => {
+			const parsedSig: ParsedSig = { dosage: 2, frequency: 4, unit: 'tablet', confidence: 0.9 };
+
+			expect(() => calculateDaysSupplyFromPackage(parsedSig, '5 TABLET in 1 BOTTLE', 1)).toThrow(/does not cover one day/);
+		});
+
+		it('should reject unreadable packages and non-positive counts', () => {
+			const parsedSig: ParsedSig = { dosage: 1, frequency: 1, unit: 'tablet', confidence: 0.9 };
+
+			expect(() => calculateDaysSupplyFromPackage(parsedSig, 'KIT', 1)).toThrow(/Could not read/);
+			expect(() => calculateDaysSupplyFromPackage(parsedSig, '30 TABLET in 1 BOTTLE', 0)).toThrow(/positive/);
+		});
+	});
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect } from 'vitest';
+import {
+	mapMedicationRequest,
+	durationToDays,
+	isFhirFormatRequested,
+	toMedicationDispenses,
+	toDispenseBundle,
+	toFhirResponse,
+} from '../../lib/core/fhirAdapter';
+import type { FhirMedicationRequest } from '../../lib/types/fhir';
+import type { CalculationResult } from '../../lib/types/api';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const NDC = 'http://hl7.org/fhir/sid/ndc';
+
+const calculationResult: CalculationResult = {
+	drug: { name: 'lisinopril 10 MG Oral Tablet', rxcui: '314076' },
+	quantity: { total: 60, unit: 'tablet', calculation: { dosage: 1, frequency: 2, daysSupply: 30 } },
+	recommendedNdc: {
+		ndc: '00071-0156-23',
+		packageSize: 90,
+		packageCount: 1,
+		totalQuantity: 90,
+		overfill: 50,
+		underfill: 0,
+		matchScore: 80,
+		packageDescription: '90 TABLET in 1 BOTTLE',
+	},
+	alternatives: [
+		{ ndc: '00071-0156-40', packageSize: 30, packageCount: 2, totalQuantity: 60, overfill: 0, underfill: 0, matchScore: 75 },
+	],
+	warnings: [{ type: 'overfill', message: 'Overfill of 50%', severity: 'warning' }],
+};
+
+function medicationRequest(overrides: Partial<FhirMedicationRequest> = {}): FhirMedicationRequest {
+	return {
+		resourceType: 'MedicationRequest',
+		medicationCodeableConcept: {
+			coding: [{ system: RXNORM, code: '314076', display: 'lisinopril 10 MG Oral Tablet' }],
+		},
+		dosageInstruction: [{ text: 'Take 1 tablet by mouth once daily' }],
+		dispenseRequest: { expectedSupplyDuration: { value: 30, unit: 'days', system: 'http://unitsofmeasure.org', code: 'd' } },
+		...overrides,
+	};
+}
+
+describe('FHIR Adapter', () => {
+	describe('mapMedicationRequest()', () => {
+		it('should map a text-only order for SIG parsing', () => {
+			const result = mapMedicationRequest(medicationRequest());
+			expect(result.request).toEqual({
+				drugInput: 'lisinopril 10 MG Oral Tablet',
+				sig: 'Take 1 tablet by mouth once daily',
+				daysSupply: 30,
+			});
+			expect(result.rxcui).toBe('314076');
+			expect(result.parsedSig).toBeUndefined();
+		});
+
+		it('should prefer an NDC coding and normalize it', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({
+					medicationCodeableConcept: {
+						coding: [
+							{ system: RXNORM, code: '314076' },
+							{ system: NDC, code: '00071015623' },
+						],
+					},
+				})
+			);
+			expect(result.request.drugInput).toBe('00071-0156-23');
+		});
+
+		it('should leave drugInput empty for a bare RxNorm code', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({ medicationCodeableConcept: { coding: [{ system: RXNORM, code: '314076' }] } })
+			);
+			expect(result.request.drugInput).toBe('');
+			expect(result.rxcui).toBe('314076');
+		});
+
+		it('should build a ParsedSig from structured dosage', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [
+						{
+							text: 'Take 1 tablet twice daily',
+							timing: { repeat: { frequency: 2, period: 1, periodUnit: 'd' } },
+							doseAndRate: [{ doseQuantity: { value: 1, unit: 'tablet', system: 'http://unitsofmeasure.org', code: '{tbl}' } }],
+						},
+					],
+				})
+			);
+			expect(result.parsedSig).toMatchObject({ dosage: 1, frequency: 2, unit: 'tablet', dosageForm: 'tablet', confidence: 1 });
+			expect(result.request.sig).toBe('Take 1 tablet twice daily');
+		});
+
+		it('should map timing codes, dose ranges and generate SIG text', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [
+						{
+							timing: { code: { coding: [{ code: 'TID' }] } },
+							doseAndRate: [{ doseRange: { low: { value: 1, unit: 'capsule' }, high: { value: 2, unit: 'capsule' } } }],
+						},
+					],
+				})
+			);
+			expect(result.parsedSig).toMatchObject({ dosage: 1.5, frequency: 3, unit: 'capsule', dosageRange: { min: 1, max: 2 } });
+			expect(result.request.sig).toBe('1-2 capsule 3 times daily');
+		});
+
+		it('should map PRN orders with an interval and maximum', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [
+						{
+							asNeededBoolean: true,
+							timing: { repeat: { frequency: 1, period: 4, periodMax: 6, periodUnit: 'h' } },
+							doseAndRate: [{ doseQuantity: { value: 2, code: '{puff}' } }],
+							maxDosePerPeriod: { numerator: { value: 12 }, denominator: { value: 1, code: 'd' } },
+						},
+					],
+				})
+			);
+			expect(result.parsedSig).toMatchObject({
+				frequency: 0,
+				unit: 'actuation',
+				dosageForm: 'inhaler',
+				prnInterval: { minHours: 4, maxHours: 6 },
+				maxDailyDose: 12,
+			});
+		});
+
+		it('should map weekly and weekday schedules', () => {
+			const weekly = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [
+						{ timing: { repeat: { frequency: 1, period: 1, periodUnit: 'wk' } }, doseAndRate: [{ doseQuantity: { value: 1, unit: 'tablet' } }] },
+					],
+				})
+			);
+			expect(weekly.parsedSig?.schedule).toEqual({ type: 'interval', intervalDays: 7 });
+
+			const weekdays = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [
+						{ timing: { repeat: { dayOfWeek: ['mon', 'wed', 'fri'] } }, doseAndRate: [{ doseQuantity: { value: 1, unit: 'tablet' } }] },
+					],
+				})
+			);
+			expect(weekdays.parsedSig?.schedule).toEqual({ type: 'weekdays', weekdays: [1, 3, 5] });
+		});
+
+		it('should turn sequenced instructions into dosing phases', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [
+						{
+							sequence: 2,
+							timing: { repeat: { frequency: 1, period: 1, periodUnit: 'd', boundsDuration: { value: 4, code: 'd' } } },
+							doseAndRate: [{ doseQuantity: { value: 1, unit: 'tablet' } }],
+						},
+						{
+							sequence: 1,
+							timing: { repeat: { frequency: 1, period: 1, periodUnit: 'd', boundsDuration: { value: 3, code: 'd' } } },
+							doseAndRate: [{ doseQuantity: { value: 2, unit: 'tablet' } }],
+						},
+					],
+				})
+			);
+			expect(result.parsedSig?.dosage).toBe(2);
+			expect(result.parsedSig?.phases).toEqual([
+				{ dosage: 2, frequency: 1, durationDays: 3 },
+				{ dosage: 1, frequency: 1, durationDays: 4 },
+			]);
+		});
+
+		it('should fall back to text when the structured dosage is incomplete', () => {
+			const result = mapMedicationRequest(
+				medicationRequest({
+					dosageInstruction: [{ text: 'Take 1 tablet daily', doseAndRate: [{ doseQuantity: { value: 1, unit: 'tablet' } }] }],
+				})
+			);
+			expect(result.parsedSig).toBeUndefined();
+			expect(result.request.sig).toBe('Take 1 tablet daily');
+		});
+
+		it('should reject resources missing required elements', () => {
+			expect(() => mapMedicationRequest({ resourceType: 'Patient' } as unknown as FhirMedicationRequest)).toThrow(
+				'Expected a FHIR MedicationRequest resource.'
+			);
+			expect(() => mapMedicationRequest(medicationRequest({ medicationCodeableConcept: {} }))).toThrow(/medicationCodeableConcept/);
+			expect(() => mapMedicationRequest(medicationRequest({ dosageInstruction: [] }))).toThrow(/dosageInstruction/);
+			expect(() => mapMedicationRequest(medicationRequest({ dispenseRequest: {} }))).toThrow(/expectedSupplyDuration/);
+		});
+	});
+
+	describe('durationToDays()', () => {
+		it('should convert UCUM and spelled-out units', () => {
+			expect(durationToDays({ value: 30, code: 'd' })).toBe(30);
+			expect(durationToDays({ value: 2, unit: 'weeks' })).toBe(14);
+			expect(durationToDays({ value: 3, code: 'mo' })).toBe(90);
+			expect(durationToDays({ value: 10 })).toBe(10);
+			expect(durationToDays({ value: 1, code: 'fortnight' })).toBeNull();
+			expect(durationToDays(undefined)).toBeNull();
+		});
+	});
+
+	describe('isFhirFormatRequested()', () => {
+		it('should honor the format parameter over the Accept header', () => {
+			expect(isFhirFormatRequested('application/fhir+json', null)).toBe(true);
+			expect(isFhirFormatRequested('application/json', 'fhir')).toBe(true);
+			expect(isFhirFormatRequested('application/fhir+json', 'json')).toBe(false);
+			expect(isFhirFormatRequested('application/json', null)).toBe(false);
+			expect(isFhirFormatRequested(null, null)).toBe(false);
+		});
+	});
+
+	describe('toMedicationDispenses()', () => {
+		it('should code the recommended NDC with UCUM quantity, days supply and warning notes', () => {
+			const [dispense] = toMedicationDispenses(calculationResult);
+			expect(dispense.resourceType).toBe('MedicationDispense');
+			expect(dispense.medicationCodeableConcept.coding).toEqual([
+				{ system: NDC, code: '00071-0156-23', display: '90 TABLET in 1 BOTTLE' },
+				{ system: RXNORM, code: '314076', display: 'lisinopril 10 MG Oral Tablet' },
+			]);
+			expect(dispense.quantity).toEqual({ value: 90, unit: 'tablet', system: 'http://unitsofmeasure.org', code: '{tbl}' });
+			expect(dispense.daysSupply).toEqual({ value: 30, unit: 'days', system: 'http://unitsofmeasure.org', code: 'd' });
+			expect(dispense.note).toEqual([{ text: '[warning] Overfill of 50%' }]);
+		});
+
+		it('should leave notes off alternatives', () => {
+			const dispenses = toMedicationDispenses(calculationResult, calculationResult.alternatives[0], 'alternative-1');
+			expect(dispenses).toHaveLength(1);
+			expect(dispenses[0].id).toBe('alternative-1');
+			expect(dispenses[0].quantity.value).toBe(60);
+			expect(dispenses[0].note).toBeUndefined();
+		});
+
+		it('should leave notes off an alternative sharing the recommended NDC', () => {
+			const twoBottles = { ...calculationResult.recommendedNdc, packageCount: 2, totalQuantity: 180, overfill: 200 };
+			const [dispense] = toMedicationDispenses(calculationResult, twoBottles, 'alternative-1');
+			expect(dispense.quantity.value).toBe(180);
+			expect(dispense.note).toBeUndefined();
+		});
+
+		it('should dispense each NDC of an alternative combination separately, without notes', () => {
+			const combination = {
+				ndc: '00071-0156-23',
+				packageSize: 90,
+				packageCount: 2,
+				totalQuantity: 120,
+				overfill: 0,
+				underfill: 0,
+				matchScore: 70,
+				components: [
+					{ ndc: '00071-0156-23', packageSize: 90, packageCount: 1, packageDescription: '90 TABLET in 1 BOTTLE' },
+					{ ndc: '00071-0156-40', packageSize: 30, packageCount: 1, packageDescription: '30 TABLET in 1 BOTTLE' },
+				],
+			};
+
+			const dispenses = toMedicationDispenses(calculationResult, combination, 'alternative-2');
+			expect(dispenses.map((dispense) => dispense.id)).toEqual(['alternative-2-1', 'alternative-2-2']);
+			expect(dispenses.map((dispense) => dispense.medicationCodeableConcept.coding?.[0].code)).toEqual([
+				'00071-0156-23',
+				'00071-0156-40',
+			]);
+			expect(dispenses.map((dispense) => dispense.quantity.value)).toEqual([90, 30]);
+			// Its 00071-0156-23 component is not the recommended single-NDC fill
+			expect(dispenses.every((dispense) => dispense.note === undefined)).toBe(true);
+		});
+	});
+
+	describe('toDispenseBundle()', () => {
+		it('should put the recommended dispense first, then alternatives', () => {
+			const bundle = toDispenseBundle(calculationResult);
+			expect(bundle.resourceType).toBe('Bundle');
+			expect(bundle.type).toBe('collection');
+			expect(bundle.entry.map((entry) => entry.resource.id)).toEqual(['recommended', 'alternative-1']);
+		});
+	});
+
+	describe('toFhirResponse()', () => {
+		it('should return an OperationOutcome for errors', () => {
+			const outcome = toFhirResponse({ success: false, error: { code: 'DRUG_NOT_FOUND', message: 'Drug not found.' } });
+			expect(outcome).toEqual({
+				resourceType: 'OperationOutcome',
+				issue: [{ severity: 'error', code: 'not-found', details: { text: 'DRUG_NOT_FOUND' }, diagnostics: 'Drug not found.' }],
+			});
+		});
+
+		it('should return a Bundle for successes', () => {
+			expect(toFhirResponse({ success: true, data: calculationResult }).resourceType).toBe('Bundle');
+		});
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { calculateKitDays, calculateKitQuantity } from '../../lib/core/kitCalculator';
+import { parsePackageDescription, type ParsedPackage } from '../../lib/core/packageParser';
+import type { ParsedSig } from '../../lib/types/sig';
+
+describe('Kit Calculator', () => {
+	const kit = (description: string): ParsedPackage => parsePackageDescription(description)!;
+	const hPyloriPack = kit('1 KIT in 1 CARTON * 28 TABLET in 1 BLISTER PACK * 56 CAPSULE in 1 BLISTER PACK');
+
+	describe('calculateKitDays()', () => {
+		it('should use the product dosed in the SIG unit', () => {
+			const parsedSig: ParsedSig = { dosage: 2, frequency: 2, unit: 'capsule', confidence: 0.9 };
+
+			const result = calculateKitDays(parsedSig, hPyloriPack);
+			expect(result?.days).toBe(14);
+			expect(result?.component.unit).toBe('CAPSULE');
+		});
+
+		it('should return null when the SIG doses none of the products', () => {
+			const parsedSig: ParsedSig = { dosage: 1, frequency: 1, unit: 'mL', confidence: 0.9 };
+
+			expect(calculateKitDays(parsedSig, hPyloriPack)).toBeNull();
+		});
+
+		it('should reject kits that do not cover one day', () => {
+			const parsedSig: ParsedSig = { dosage: 30, frequency: 1, unit: 'tablet', confidence: 0.9 };
+
+			expect(() => calculateKitDays(parsedSig, hPyloriPack)).toThrow(/does not cover one day/);
+		});
+	});
+
+	describe('calculateKitQuantity()', () => {
+		it('should dispense whole kits for the days supply', () => {
+			const starterKit = kit('1 KIT in 1 KIT * 1 BLISTER PACK in 1 CARTON / 28 TABLET in 1 BLISTER PACK');
+			const parsedSig: ParsedSig = { dosage: 1, frequency: 1, unit: 'tablet', confidence: 0.9 };
+
+			const result = calculateKitQuantity(parsedSig, 84, starterKit);
+			expect(result).toMatchObject({ total: 3, unit: 'kit' });
+			expect(result.dispensable).toEqual({ unit: 'kit', count: 3, capacity: 28, capacityUnit: 'day' });
+			expect(result.assumptions).toBeUndefined();
+		});
+
+		it('should round up to a whole kit', () => {
+			const parsedSig: ParsedSig = { dosage: 2, frequency: 2, unit: 'capsule', confidence: 0.9 };
+
+			expect(calculateKitQuantity(parsedSig, 10, hPyloriPack).total).toBe(1);
+			expect(calculateKitQuantity(parsedSig, 20, hPyloriPack).total).toBe(2);
+		});
+
+		it('should assume one kit per course when the SIG doses none of the products', () => {
+			const parsedSig: ParsedSig = { dosage: 1, frequency: 1, unit: 'mL', confidence: 0.9 };
+
+			const result = calculateKitQuantity(parsedSig, 14, hPyloriPack);
+			expect(result.total).toBe(1);
+			expect(result.assumptions?.[0]).toContain('14-day course');
+		});
+	});
+});
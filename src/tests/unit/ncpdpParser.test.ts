@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { parseNewRx, mapNewRx, compareWrittenQuantity } from '../../lib/core/ncpdpParser';
+import type { QuantityResult } from '../../lib/types/sig';
+
+function newRx(medication: string): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<Message xmlns="http://www.ncpdp.org/schema/SCRIPT" DatatypesVersion="2017071" TransportVersion="2017071">
+	<Header>
+		<To Qualifier="P">1234567</To>
+		<From Qualifier="C">7654321</From>
+		<MessageID>msg-001</MessageID>
+		<SentTime>2024-01-15T10:00:00Z</SentTime>
+	</Header>
+	<Body>
+		<NewRx>
+			<Patient><HumanPatient><Name><LastName>Doe</LastName><FirstName>Jane</FirstName></Name></HumanPatient></Patient>
+			<MedicationPrescribed>${medication}</MedicationPrescribed>
+		</NewRx>
+	</Body>
+</Message>`;
+}
+
+const LISINOPRIL = `
+	<DrugDescription>Lisinopril 10 MG Oral Tablet</DrugDescription>
+	<DrugCoded>
+		<ProductCode><Code>00071015623</Code><Qualifier>ND</Qualifier></ProductCode>
+		<DrugDBCode><Code>314076</Code><Qualifier>SCD</Qualifier></DrugDBCode>
+	</DrugCoded>
+	<Quantity>
+		<Value>30</Value>
+		<CodeListQualifier>38</CodeListQualifier>
+		<QuantityUnitOfMeasure><Code>C48542</Code></QuantityUnitOfMeasure>
+	</Quantity>
+	<DaysSupply>30</DaysSupply>
+	<Sig><SigText>Take 1 tablet by mouth once daily</SigText></Sig>`;
+
+describe('NCPDP NewRx Parser', () => {
+	describe('parseNewRx()', () => {
+		it('should extract drug codes, Sig text, written quantity and days supply', () => {
+			const result = parseNewRx(newRx(LISINOPRIL));
+			expect(result).toEqual({
+				messageId: 'msg-001',
+				drugDescription: 'Lisinopril 10 MG Oral Tablet',
+				ndc: '00071-0156-23',
+				rxcui: '314076',
+				sigText: 'Take 1 tablet by mouth once daily',
+				structuredSig: undefined,
+				writtenQuantity: { value: 30, unit: 'tablet' },
+				daysSupply: 30,
+			});
+		});
+
+		it('should build a ParsedSig from structured Sig fields', () => {
+			const result = parseNewRx(
+				newRx(`
+	<DrugDescription>Amoxicillin 500 MG Oral Capsule</DrugDescription>
+	<Quantity><Value>30</Value><QuantityUnitOfMeasure><Code>C48480</Code></QuantityUnitOfMeasure></Quantity>
+	<DaysSupply>10</DaysSupply>
+	<Sig>
+		<SigText>Take 1 capsule by mouth every 8 hours</SigText>
+		<Instruction>
+			<DoseAdministration>
+				<DoseDeliveryMethod><Text>Take</Text></DoseDeliveryMethod>
+				<Dosage><DoseQuantity>1</DoseQuantity><DoseUnitOfMeasure><Text>capsule</Text><Code>C48480</Code></DoseUnitOfMeasure></Dosage>
+				<RouteOfAdministration><Text>oral</Text></RouteOfAdministration>
+			</DoseAdministration>
+			<TimingAndDuration>
+				<Interval><IntervalNumericValue>8</IntervalNumericValue><IntervalUnits><Text>hour</Text></IntervalUnits></Interval>
+			</TimingAndDuration>
+		</Instruction>
+	</Sig>`)
+			);
+			expect(result.structuredSig).toMatchObject({ dosage: 1, frequency: 3, unit: 'capsule', dosageForm: 'capsule', confidence: 1 });
+		});
+
+		it('should map weekly frequencies to an interval schedule and PRN indications to frequency 0', () => {
+			const weekly = parseNewRx(
+				newRx(`
+	<DrugDescription>Alendronate 70 MG Oral Tablet</DrugDescription>
+	<DaysSupply>28</DaysSupply>
+	<Sig>
+		<Instruction>
+			<DoseAdministration><Dosage><DoseQuantity>1</DoseQuantity><DoseUnitOfMeasure><Code>C48542</Code></DoseUnitOfMeasure></Dosage></DoseAdministration>
+			<TimingAndDuration><Frequency><FrequencyNumericValue>1</FrequencyNumericValue><FrequencyUnits><Text>week</Text></FrequencyUnits></Frequency></TimingAndDuration>
+		</Instruction>
+	</Sig>`)
+			);
+			expect(weekly.structuredSig?.schedule).toEqual({ type: 'interval', intervalDays: 7 });
+
+			const prn = parseNewRx(
+				newRx(`
+	<DrugDescription>Ibuprofen 200 MG Oral Tablet</DrugDescription>
+	<DaysSupply>10</DaysSupply>
+	<Sig>
+		<Instruction>
+			<DoseAdministration><Dosage><DoseQuantity>2</DoseQuantity><DoseUnitOfMeasure><Text>tablets</Text></DoseUnitOfMeasure></Dosage></DoseAdministration>
+			<TimingAndDuration><Interval><IntervalNumericValue>6</IntervalNumericValue><IntervalUnits><Text>hours</Text></IntervalUnits></Interval></TimingAndDuration>
+			<Indication><IndicationPrecursor><Text>as needed for</Text></IndicationPrecursor><IndicationText>pain</IndicationText></Indication>
+		</Instruction>
+	</Sig>`)
+			);
+			expect(prn.structuredSig).toMatchObject({ frequency: 0, prnInterval: { minHours: 6, maxHours: 6 } });
+		});
+
+		it('should reject malformed XML and non-NewRx messages', () => {
+			expect(() => parseNewRx('<Message><Body>')).toThrow(/not well-formed/);
+			expect(() => parseNewRx('<Message><Body><RxRenewalRequest/></Body></Message>')).toThrow(/NewRx/);
+			expect(() => parseNewRx('<Message><Body><NewRx/></Body></Message>')).toThrow(/MedicationPrescribed/);
+		});
+	});
+
+	describe('mapNewRx()', () => {
+		it('should prefer the NDC as drug input', () => {
+			const result = mapNewRx(newRx(LISINOPRIL));
+			expect(result.request).toEqual({ drugInput: '00071-0156-23', sig: 'Take 1 tablet by mouth once daily', daysSupply: 30 });
+		});
+
+		it('should require days supply and a Sig', () => {
+			expect(() => mapNewRx(newRx(LISINOPRIL.replace('<DaysSupply>30</DaysSupply>', '')))).toThrow(/DaysSupply/);
+			expect(() => mapNewRx(newRx(LISINOPRIL.replace(/<Sig>.*<\/Sig>/, '')))).toThrow(/Sig/);
+		});
+	});
+
+	describe('compareWrittenQuantity()', () => {
+		const quantity: QuantityResult = { total: 30, unit: 'tablet', calculation: { dosage: 1, frequency: 1, daysSupply: 30 } };
+
+		it('should flag written quantities outside the tolerance', () => {
+			expect(compareWrittenQuantity({ value: 30, unit: 'tablet' }, quantity)).toMatchObject({ difference: 0, discrepancy: false });
+			expect(compareWrittenQuantity({ value: 60, unit: 'tablet' }, quantity)).toMatchObject({
+				written: 60,
+				calculated: 30,
+				difference: 30,
+				comparable: true,
+				discrepancy: true,
+			});
+		});
+
+		it('should not judge quantities in different units', () => {
+			expect(compareWrittenQuantity({ value: 1, unit: 'mL' }, quantity)).toMatchObject({ comparable: false, discrepancy: false });
+		});
+
+		it('should compare device counts for inhalers', () => {
+			const inhaler: QuantityResult = {
+				total: 240,
+				unit: 'actuation',
+				dispensable: { unit: 'inhaler', count: 2, capacity: 200, capacityUnit: 'actuation' },
+				calculation: { dosage: 2, frequency: 4, daysSupply: 30 },
+			};
+			expect(compareWrittenQuantity({ value: 1, unit: 'inhaler' }, inhaler)).toMatchObject({ calculated: 2, unit: 'inhaler', discrepancy: true });
+		});
+	});
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { selectOptimal } from '../../lib/core/ndcSelector';
 import { NdcInfo } from '../../lib/types/ndc';
+import type { PayerProfile } from '../../lib/types/payer';
 
 describe('NDC Selector', () => {
 	const createNdcInfo = (
@@ -297,6 +298,286 @@ describe('NDC Selector', () => {
 				expect(results.some((r) => r.ndc === '12345-678-90')).toBe(true);
 			});
 		});
+		describe('topical and ophthalmic packages', () => {
+			it('should only recommend tubes that cover the gram amount', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-15', 15, '15 g in 1 TUBE'),
+					createNdcInfo('12345-678-30', 30, '30 g in 1 TUBE'),
+				];
+
+				const results = selectOptimal(ndcList, 30, 'g');
+				expect(results[0].ndc).toBe('12345-678-30');
+				expect(results.every((r) => r.totalQuantity >= 30)).toBe(true);
+			});
+
+			it('should match drop targets to dropper bottles', () => {
+				const ndcList: NdcInfo[] = [createNdcInfo('12345-678-05', 5, '5 mL in 1 BOTTLE, DROPPER')];
+
+				const results = selectOptimal(ndcList, 60, 'drop');
+				expect(results.length).toBeGreaterThan(0);
+				expect(results[0].totalQuantity).toBe(100);
+				expect(results[0].packageCount).toBe(1);
+			});
+		});
+		describe('insulin packages', () => {
+			it('should match insulin cartridges by volume when the target is mL', () => {
+				const ndcList: NdcInfo[] = [createNdcInfo('12345-678-03', 300, '3 mL in 1 CARTRIDGE')];
+
+				const results = selectOptimal(ndcList, 6, 'mL');
+				expect(results.length).toBeGreaterThan(0);
+				expect(results[0].packageCount).toBe(2);
+				expect(results[0].totalQuantity).toBe(6);
+			});
+		});
+		describe('inhaler packages', () => {
+			it('should rank inhalers by whole devices', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-01', 200, '1 INHALER in 1 CARTON / 200 ACTUATION in 1 INHALER'),
+				];
+
+				// 240 actuations → 2 inhalers; the leftover 160 actuations are not penalized
+				const results = selectOptimal(ndcList, 240, 'actuation');
+				expect(results[0].packageCount).toBe(2);
+				expect(results[0].matchScore).toBe(95);
+				expect(results.find((r) => r.packageCount === 1)?.matchScore).toBeLessThan(70);
+			});
+		});
+		describe('multi-NDC combinations', () => {
+			it('should mix package sizes to hit the target without waste', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 90, '90 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'),
+				];
+
+				const results = selectOptimal(ndcList, 120, 'tablet');
+				expect(results[0].components).toEqual([
+					expect.objectContaining({ ndc: '12345-678-90', packageSize: 90, packageCount: 1 }),
+					expect.objectContaining({ ndc: '12345-678-30', packageSize: 30, packageCount: 1 }),
+				]);
+				expect(results[0]).toMatchObject({ ndc: '12345-678-90', packageCount: 2, totalQuantity: 120, overfill: 0 });
+				// 2 packages beat 4 × 30
+				expect(results[0].matchScore).toBeGreaterThan(results.find((r) => r.packageCount === 4)!.matchScore);
+			});
+
+			it('should pick the combination with the least waste', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 90, '90 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-10', 10, '10 TABLET in 1 BOTTLE'),
+				];
+
+				const combination = selectOptimal(ndcList, 100, 'tablet').find((r) => r.components);
+				expect(combination?.components?.map((c) => [c.packageSize, c.packageCount])).toEqual([
+					[90, 1],
+					[10, 1],
+				]);
+				expect(combination?.overfill).toBe(0);
+			});
+
+			it('should not mix different products', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 90, '90 TABLET in 1 BOTTLE'),
+					createNdcInfo('54321-876-30', 30, '30 TABLET in 1 BOTTLE'),
+				];
+
+				expect(selectOptimal(ndcList, 120, 'tablet').some((r) => r.components)).toBe(false);
+			});
+
+			it('should leave inactive NDCs out of combinations', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 90, '90 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE', false),
+				];
+
+				expect(selectOptimal(ndcList, 120, 'tablet').some((r) => r.components)).toBe(false);
+			});
+		});
+		describe('ranking strategies', () => {
+			it('should explain each score with a breakdown that adds up', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-99', 100, '100 TABLET in 1 BOTTLE'),
+				];
+
+				const results = selectOptimal(ndcList, 90, 'tablet', 5, '12345-678-99');
+				for (const result of results) {
+					const sum = result.scoreBreakdown!.reduce((total, line) => total + line.points, 0);
+					expect(result.matchScore).toBeCloseTo(sum);
+				}
+				expect(results.find((r) => r.packageCount === 3)?.scoreBreakdown).toEqual([
+					{ label: 'Exact match', points: 100 },
+					{ label: 'Multiple packages', points: -5 },
+				]);
+				expect(results.find((r) => r.ndc === '12345-678-99')?.scoreBreakdown).toContainEqual({ label: 'Requested NDC', points: 20 });
+			});
+
+			it('should prefer fewer packages when minimizing package count', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-99', 100, '100 TABLET in 1 BOTTLE'),
+				];
+
+				expect(selectOptimal(ndcList, 90, 'tablet')[0].packageCount).toBe(3);
+				const results = selectOptimal(ndcList, 90, 'tablet', 5, undefined, undefined, { strategy: 'minimize_packages' });
+				expect(results[0]).toMatchObject({ ndc: '12345-678-99', packageCount: 1 });
+			});
+
+			it('should prefer unit-of-use packages over bulk stock', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 500, '500 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-91', 28, '28 TABLET in 1 BLISTER PACK'),
+				];
+
+				const results = selectOptimal(ndcList, 30, 'tablet', 5, undefined, undefined, { strategy: 'prefer_unit_of_use' });
+				expect(results[0].ndc).toBe('12345-678-91');
+				expect(results.find((r) => r.ndc === '12345-678-90')?.scoreBreakdown).toContainEqual(
+					expect.objectContaining({ label: 'Bulk package (repackaging needed)' })
+				);
+			});
+
+			it('should prefer the requested labeler', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'),
+					createNdcInfo('00002-111-28', 28, '28 TABLET in 1 BOTTLE'),
+				];
+
+				expect(selectOptimal(ndcList, 30, 'tablet')[0].ndc).toBe('12345-678-30');
+				const results = selectOptimal(ndcList, 30, 'tablet', 5, undefined, undefined, {
+					strategy: 'prefer_labeler',
+					labeler: '00002',
+				});
+				expect(results[0].ndc).toBe('00002-111-28');
+			});
+		});
+
+		describe('packaging preference', () => {
+			const ndcList: NdcInfo[] = [
+				createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'),
+				createNdcInfo('12345-678-01', 1, '100 BLISTER PACK in 1 CARTON / 1 TABLET in 1 BLISTER PACK'),
+			];
+
+			it('should tag selections with their packaging', () => {
+				const results = selectOptimal(ndcList, 30, 'tablet');
+				expect(results[0]).toMatchObject({ ndc: '12345-678-30', packagingType: 'bottle' });
+				expect(results.find((r) => r.ndc === '12345-678-01')?.packagingType).toBe('unit_dose');
+			});
+
+			it('should rank the preferred packaging first', () => {
+				const results = selectOptimal(ndcList, 30, 'tablet', 5, undefined, undefined, { packaging: 'unit_dose' });
+				expect(results[0]).toMatchObject({ ndc: '12345-678-01', packageCount: 30 }); // Dispensed dose by dose
+				expect(results[0].scoreBreakdown).toContainEqual({ label: 'Preferred packaging (Unit dose)', points: 25 });
+				expect(results.some((r) => r.packagingType === 'bottle')).toBe(true);
+			});
+
+			it('should keep only the required packaging', () => {
+				const results = selectOptimal(ndcList, 30, 'tablet', 5, undefined, undefined, {
+					packaging: 'bottle',
+					requirePackaging: true,
+				});
+				expect(results.length).toBeGreaterThan(0);
+				expect(results.every((r) => r.packagingType === 'bottle')).toBe(true);
+				expect(
+					selectOptimal(ndcList, 30, 'tablet', 5, undefined, undefined, { packaging: 'vial', requirePackaging: true })
+				).toEqual([]);
+			});
+		});
+
+		describe('dispense level', () => {
+			const ndcList: NdcInfo[] = [
+				createNdcInfo('12345-678-01', 10, '2 CARTON in 1 CASE / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK'),
+			];
+
+			it('should dispense the innermost package by default', () => {
+				expect(selectOptimal(ndcList, 100, 'tablet')[0]).toMatchObject({ packageSize: 10, packageCount: 10 });
+			});
+
+			it('should dispense whole cartons or cases when asked', () => {
+				const cartons = selectOptimal(ndcList, 100, 'tablet', 5, undefined, undefined, { dispenseAt: 'CARTON' });
+				expect(cartons[0]).toMatchObject({ packageSize: 100, packageCount: 1 });
+				const cases = selectOptimal(ndcList, 200, 'tablet', 5, undefined, undefined, { dispenseAt: 'CASE' });
+				expect(cases[0]).toMatchObject({ packageSize: 200, packageCount: 1 });
+			});
+		});
+
+		describe('brand/generic equivalents', () => {
+			const ndcList: NdcInfo[] = [
+				{ ...createNdcInfo('00071-0155-23', 90, '90 TABLET in 1 BOTTLE'), sourceRxcui: '617318', productType: 'brand' },
+				{ ...createNdcInfo('60505-2579-3', 30, '30 TABLET in 1 BOTTLE'), sourceRxcui: '617310', productType: 'generic' },
+				{ ...createNdcInfo('60505-2579-9', 90, '90 TABLET in 1 BOTTLE'), sourceRxcui: '617310', productType: 'generic' },
+			];
+
+			it('should carry the source RxCUI and product type into selections', () => {
+				const results = selectOptimal(ndcList, 30, 'tablet');
+				expect(results[0]).toMatchObject({ ndc: '60505-2579-3', sourceRxcui: '617310', productType: 'generic' });
+				expect(results.find((r) => r.ndc === '00071-0155-23')).toMatchObject({ sourceRxcui: '617318', productType: 'brand' });
+			});
+
+			it('should tag multi-NDC fills with their product', () => {
+				const results = selectOptimal(ndcList, 120, 'tablet');
+				const mix = results.find((r) => r.components);
+				expect(mix?.components?.every((component) => component.ndc.startsWith('60505-2579'))).toBe(true);
+				expect(mix).toMatchObject({ sourceRxcui: '617310', productType: 'generic' });
+			});
+
+			it('should leave the fields unset when equivalents were not searched', () => {
+				const results = selectOptimal([createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE')], 30, 'tablet');
+				expect(results[0]).not.toHaveProperty('sourceRxcui');
+				expect(results[0]).not.toHaveProperty('productType');
+			});
+		});
+
+		describe('strength', () => {
+			it('should carry the package strength into selections', () => {
+				const results = selectOptimal([{ ...createNdcInfo('12345-678-30', 30, '30 TABLET in 1 BOTTLE'), strength: '10 mg' }], 30, 'tablet');
+				expect(results[0].strength).toBe('10 mg');
+			});
+		});
+
+		describe('payer profiles', () => {
+			const payer = (overrides: Partial<PayerProfile>): PayerProfile => ({
+				id: 'test-plan',
+				name: 'Test plan',
+				maxDaysSupply: 30,
+				maxOverfillPercent: 10,
+				packageRounding: 'none',
+				...overrides,
+			});
+
+			it('should drop candidates that overfill beyond the allowance', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 100, '100 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-91', 30, '30 TABLET in 1 BOTTLE'),
+				];
+
+				const results = selectOptimal(ndcList, 84, 'tablet', 5, undefined, payer({ maxOverfillPercent: 10 }));
+				expect(results.every((r) => r.overfill / 84 <= 0.1)).toBe(true);
+				expect(results[0].ndc).toBe('12345-678-91'); // 3 × 30 = 90 (7% over)
+			});
+
+			it('should round down to whole packages without overfill', () => {
+				const ndcList: NdcInfo[] = [createNdcInfo('12345-678-90', 30, '30 TABLET in 1 BOTTLE')];
+
+				const results = selectOptimal(ndcList, 100, 'tablet', 5, undefined, payer({ packageRounding: 'down' }));
+				expect(results[0]).toMatchObject({ packageCount: 3, totalQuantity: 90, overfill: 0, underfill: 10 });
+			});
+
+			it('should require full coverage when rounding up', () => {
+				const ndcList: NdcInfo[] = [
+					createNdcInfo('12345-678-90', 90, '90 TABLET in 1 BOTTLE'),
+					createNdcInfo('12345-678-91', 50, '50 TABLET in 1 BOTTLE'),
+				];
+
+				const results = selectOptimal(ndcList, 100, 'tablet', 5, undefined, payer({ packageRounding: 'up', maxOverfillPercent: 100 }));
+				expect(results.every((r) => r.underfill === 0)).toBe(true);
+			});
+
+			it('should keep all candidates when none meets the profile', () => {
+				const ndcList: NdcInfo[] = [createNdcInfo('12345-678-90', 100, '100 TABLET in 1 BOTTLE')];
+
+				const results = selectOptimal(ndcList, 30, 'tablet', 5, undefined, payer({ maxOverfillPercent: 0 }));
+				expect(results[0].ndc).toBe('12345-678-90');
+			});
+		});
 	});
 });
 
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { formatPackageBreakdown, formatScorePoints } from '../../lib/utils/packageBreakdown';
+import type { NdcSelection } from '../../lib/types/ndc';
+
+describe('Package Breakdown', () => {
+	const selection = (overrides: Partial<NdcSelection>): NdcSelection => ({
+		ndc: '12345-6789-01',
+		packageSize: 30,
+		totalQuantity: 30,
+		overfill: 0,
+		underfill: 0,
+		matchScore: 100,
+		...overrides,
+	});
+
+	it('should describe single and multi-pack selections', () => {
+		expect(formatPackageBreakdown(selection({ packageCount: 1 }))).toBe('30');
+		expect(formatPackageBreakdown(selection({ packageCount: 3, totalQuantity: 90 }))).toBe('3 × 30');
+	});
+
+	it('should list each NDC of a multi-NDC fill', () => {
+		const combined = selection({
+			packageSize: 90,
+			packageCount: 2,
+			totalQuantity: 120,
+			components: [
+				{ ndc: '12345-6789-01', packageSize: 90, packageCount: 1 },
+				{ ndc: '12345-6789-02', packageSize: 30, packageCount: 1 },
+			],
+		});
+
+		expect(formatPackageBreakdown(combined)).toBe('1 × 90 (12345-6789-01) + 1 × 30 (12345-6789-02)');
+	});
+
+	it('should sign score points', () => {
+		expect(formatScorePoints(90)).toBe('+90');
+		expect(formatScorePoints(-4.56)).toBe('-4.6');
+		expect(formatScorePoints(0)).toBe('0');
+	});
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { parsePackageDescription } from '$lib/core/packageParser';
+import {
+	parsePackageDescription,
+	parsePackageHierarchy,
+	parseInjectableDevice,
+	parseStrengthConcentration,
+	detectPackagingType,
+} from '$lib/core/packageParser';
 
 describe('parsePackageDescription', () => {
 	describe('simple formats', () => {
@@ -8,7 +14,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 30,
 				unit: 'TABLET',
-				totalQuantity: 30
+				totalQuantity: 30,
+				packagingType: 'bottle'
 			});
 		});
 
@@ -17,7 +24,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 100,
 				unit: 'TABLET',
-				totalQuantity: 100
+				totalQuantity: 100,
+				packagingType: 'bottle'
 			});
 		});
 
@@ -26,7 +34,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 60,
 				unit: 'CAPSULE',
-				totalQuantity: 60
+				totalQuantity: 60,
+				packagingType: 'bottle'
 			});
 		});
 
@@ -44,7 +53,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 30,
 				unit: 'TABLET',
-				totalQuantity: 30
+				totalQuantity: 30,
+				packagingType: 'bottle'
 			});
 		});
 	});
@@ -55,7 +65,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 30,
 				unit: 'TABLET',
-				totalQuantity: 30
+				totalQuantity: 30,
+				packagingType: 'bottle'
 			});
 		});
 
@@ -64,7 +75,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 100,
 				unit: 'TABLET',
-				totalQuantity: 100
+				totalQuantity: 100,
+				packagingType: 'bottle'
 			});
 		});
 
@@ -73,7 +85,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 30,
 				unit: 'TABLET',
-				totalQuantity: 30
+				totalQuantity: 30,
+				packagingType: 'bottle'
 			});
 		});
 	});
@@ -96,7 +109,9 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 21,
 				unit: 'TABLET',
-				totalQuantity: 21
+				totalQuantity: 21,
+				packagingType: 'blister',
+				hierarchy: { container: 'CARTON', count: 1, content: 'BLISTER PACK', totalQuantity: 21, contains: { container: 'BLISTER PACK', count: 21, content: 'TABLET', totalQuantity: 21 } }
 			});
 		});
 
@@ -106,7 +121,9 @@ describe('parsePackageDescription', () => {
 				quantity: 5,
 				unit: 'mL',
 				packageCount: 25,
-				totalQuantity: 125
+				totalQuantity: 125,
+				packagingType: 'vial',
+				hierarchy: { container: 'CARTON', count: 25, content: 'VIAL', totalQuantity: 125, contains: { container: 'VIAL', count: 5, content: 'mL', totalQuantity: 5 } }
 			});
 		});
 	});
@@ -152,11 +169,71 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 21,
 				unit: 'TABLET',
-				totalQuantity: 21
+				totalQuantity: 21,
+				packagingType: 'bottle'
 			});
 		});
 	});
 
+	describe('nested packages', () => {
+		const caseDescription = '2 CARTON in 1 CASE / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK';
+
+		it('should total every level of a three-level package', () => {
+			const result = parsePackageDescription(caseDescription);
+			expect(result).toMatchObject({ quantity: 10, unit: 'TABLET', packageCount: 20, totalQuantity: 200 });
+		});
+
+		it('should dispense at the carton or case level when asked', () => {
+			expect(parsePackageDescription(caseDescription, { dispenseAt: 'carton' })).toMatchObject({
+				quantity: 100,
+				packageCount: 2,
+				totalQuantity: 200,
+			});
+			const wholeCase = parsePackageDescription(caseDescription, { dispenseAt: 'CASE' });
+			expect(wholeCase).toMatchObject({ quantity: 200, totalQuantity: 200 });
+			expect(wholeCase?.packageCount).toBeUndefined();
+		});
+
+		it('should fall back to the innermost level for an unknown container', () => {
+			expect(parsePackageDescription(caseDescription, { dispenseAt: 'PALLET' })?.quantity).toBe(10);
+		});
+
+		it('should drop device metadata when dispensing the outer carton', () => {
+			const result = parsePackageDescription('2 INHALER in 1 CARTON / 200 ACTUATION in 1 INHALER', { dispenseAt: 'CARTON' });
+			expect(result).toMatchObject({ quantity: 400, totalQuantity: 400 });
+			expect(result?.metadata).toBeUndefined();
+		});
+	});
+
+	describe('kits', () => {
+		it('should parse a kit as one unit and list its products', () => {
+			const result = parsePackageDescription(
+				'1 KIT in 1 CARTON * 14 TABLET in 1 BLISTER PACK * 7 CAPSULE in 1 BLISTER PACK'
+			);
+			expect(result).toEqual({
+				quantity: 1,
+				unit: 'KIT',
+				totalQuantity: 1,
+				packagingType: 'kit',
+				kitComponents: [
+					{ quantity: 14, unit: 'TABLET', description: '14 TABLET in 1 BLISTER PACK' },
+					{ quantity: 7, unit: 'CAPSULE', description: '7 CAPSULE in 1 BLISTER PACK' },
+				],
+			});
+		});
+
+		it('should total nested products and count kits per package', () => {
+			const result = parsePackageDescription(
+				'2 KIT in 1 CARTON * 4 POUCH in 1 KIT / 1 PATCH in 1 POUCH * 1 BLISTER PACK in 1 CARTON (0093-1111-01) / 28 TABLET in 1 BLISTER PACK'
+			);
+			expect(result).toMatchObject({ quantity: 1, unit: 'KIT', packageCount: 2, totalQuantity: 2 });
+			expect(result?.kitComponents?.map((component) => [component.quantity, component.unit])).toEqual([
+				[4, 'PATCH'],
+				[28, 'TABLET'],
+			]);
+		});
+	});
+
 	describe('edge cases', () => {
 		it('should return null for empty string', () => {
 			expect(parsePackageDescription('')).toBeNull();
@@ -175,7 +252,8 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 2000,
 				unit: 'TABLET',
-				totalQuantity: 2000
+				totalQuantity: 2000,
+				packagingType: 'bottle'
 			});
 		});
 
@@ -186,7 +264,9 @@ describe('parsePackageDescription', () => {
 			expect(result).toEqual({
 				quantity: 72,
 				unit: 'SPRAY',
-				totalQuantity: 72
+				totalQuantity: 72,
+				packagingType: 'bottle',
+				hierarchy: { container: 'CARTON', count: 1, content: 'BOTTLE, SPRAY', totalQuantity: 72, contains: { container: 'BOTTLE, SPRAY', count: 72, content: 'SPRAY', totalQuantity: 72 } }
 			});
 		});
 	});
@@ -280,6 +360,18 @@ describe('parsePackageDescription', () => {
 				expect(result?.metadata?.dosageForm).toBe('inhaler');
 			});
 
+			it('should keep inhaler capacity for inhalers inside cartons', () => {
+				const result = parsePackageDescription('1 INHALER in 1 CARTON / 200 ACTUATION in 1 INHALER');
+				expect(result).toEqual({
+					quantity: 200,
+					unit: 'ACTUATION',
+					totalQuantity: 200,
+					metadata: { dosageForm: 'inhaler', capacity: 200 },
+					packagingType: 'canister',
+					hierarchy: { container: 'CARTON', count: 1, content: 'INHALER', totalQuantity: 200, contains: { container: 'INHALER', count: 200, content: 'ACTUATION', totalQuantity: 200 } },
+				});
+			});
+
 			it('should parse inhaler format with capacity pattern', () => {
 				const result = parsePackageDescription('120 puffs per canister');
 				expect(result).not.toBeNull();
@@ -288,6 +380,141 @@ describe('parsePackageDescription', () => {
 				expect(result?.metadata?.dosageForm).toBe('inhaler');
 			});
 		});
+		describe('dropper formats', () => {
+			it('should parse dropper bottles as drops', () => {
+				const result = parsePackageDescription('5 mL in 1 BOTTLE, DROPPER');
+				expect(result).not.toBeNull();
+				expect(result?.quantity).toBe(100); // 5 mL × 20 drops/mL
+				expect(result?.unit).toBe('DROP');
+				expect(result?.metadata).toEqual({ dosageForm: 'drops', volume: 5, volumeUnit: 'mL' });
+			});
+
+			it('should parse dropper bottles inside cartons', () => {
+				const result = parsePackageDescription('1 BOTTLE, DROPPER in 1 CARTON / 10 mL in 1 BOTTLE, DROPPER');
+				expect(result?.quantity).toBe(200);
+				expect(result?.unit).toBe('DROP');
+			});
+		});
+		describe('patch formats', () => {
+			it('should parse patches in a carton', () => {
+				const result = parsePackageDescription('4 PATCH in 1 CARTON');
+				expect(result).toEqual({
+					quantity: 4,
+					unit: 'PATCH',
+					totalQuantity: 4,
+					metadata: { dosageForm: 'transdermal' },
+				});
+			});
+
+			it('should count individually pouched patches', () => {
+				const result = parsePackageDescription('8 POUCH in 1 CARTON / 1 PATCH, EXTENDED RELEASE in 1 POUCH');
+				expect(result?.quantity).toBe(8);
+				expect(result?.unit).toBe('PATCH');
+				expect(result?.hierarchy).toEqual({
+					container: 'CARTON',
+					count: 8,
+					content: 'POUCH',
+					totalQuantity: 8,
+					contains: { container: 'POUCH', count: 1, content: 'PATCH', totalQuantity: 1 },
+				});
+			});
+		});
+		describe('pen cartons', () => {
+			it('should count pens in a carton', () => {
+				const result = parsePackageDescription('5 SYRINGE in 1 CARTON / 3 mL in 1 SYRINGE');
+				expect(result).toEqual({
+					quantity: 3,
+					unit: 'mL',
+					packageCount: 5,
+					totalQuantity: 15,
+					packagingType: 'pen',
+					hierarchy: { container: 'CARTON', count: 5, content: 'SYRINGE', totalQuantity: 15, contains: { container: 'SYRINGE', count: 3, content: 'mL', totalQuantity: 3 } },
+				});
+			});
+		});
 	});
 });
 
+describe('parsePackageHierarchy', () => {
+	it('should return the containment tree, outermost first', () => {
+		const hierarchy = parsePackageHierarchy(
+			'2 CARTON in 1 CASE (12345-678-01) / 10 BLISTER PACK in 1 CARTON / 10 TABLET in 1 BLISTER PACK'
+		);
+		expect(hierarchy).toEqual({
+			container: 'CASE',
+			count: 2,
+			content: 'CARTON',
+			totalQuantity: 200,
+			contains: {
+				container: 'CARTON',
+				count: 10,
+				content: 'BLISTER PACK',
+				totalQuantity: 100,
+				contains: { container: 'BLISTER PACK', count: 10, content: 'TABLET', totalQuantity: 10 },
+			},
+		});
+	});
+
+	it('should return a single level for flat descriptions', () => {
+		expect(parsePackageHierarchy('30 TABLET in 1 BOTTLE')).toEqual({
+			container: 'BOTTLE',
+			count: 30,
+			content: 'TABLET',
+			totalQuantity: 30,
+		});
+	});
+
+	it('should return null when a level cannot be read', () => {
+		expect(parsePackageHierarchy('CARTON / 10 TABLET in 1 BLISTER PACK')).toBeNull();
+		expect(parsePackageHierarchy('')).toBeNull();
+	});
+});
+
+describe('detectPackagingType', () => {
+	it('should tell unit-dose blisters from blister cards', () => {
+		expect(detectPackagingType('100 BLISTER PACK in 1 CARTON / 1 TABLET in 1 BLISTER PACK')).toBe('unit_dose');
+		expect(detectPackagingType('1 BLISTER PACK in 1 CARTON / 21 TABLET in 1 BLISTER PACK')).toBe('blister');
+		expect(detectPackagingType('100 CUP, UNIT-DOSE in 1 TRAY / 5 mL in 1 CUP, UNIT-DOSE')).toBe('unit_dose');
+		expect(detectPackagingType('1 DOSE PACK in 1 CARTON / 21 TABLET in 1 DOSE PACK')).toBe('blister');
+	});
+
+	it('should use the container that holds the drug', () => {
+		expect(detectPackagingType('30 TABLET in 1 BOTTLE (76420-345-30)')).toBe('bottle');
+		expect(detectPackagingType('25 VIAL in 1 CARTON / 5 mL in 1 VIAL')).toBe('vial');
+		expect(detectPackagingType('5 SYRINGE in 1 CARTON / 3 mL in 1 SYRINGE')).toBe('pen');
+		expect(detectPackagingType('1 INHALER in 1 CARTON / 200 ACTUATION in 1 INHALER')).toBe('canister');
+		expect(detectPackagingType('1 KIT in 1 CARTON')).toBe('kit');
+	});
+
+	it('should return undefined for unrecognized containers', () => {
+		expect(detectPackagingType('45 g in 1 TUBE')).toBeUndefined();
+		expect(detectPackagingType('100 TABLET')).toBeUndefined();
+		expect(detectPackagingType('')).toBeUndefined();
+	});
+});
+
+describe('parseInjectableDevice', () => {
+	it('should detect prefilled pens', () => {
+		expect(parseInjectableDevice('5 SYRINGE in 1 CARTON / 3 mL in 1 SYRINGE')).toEqual({ type: 'pen', volume: 3 });
+	});
+
+	it('should detect vials', () => {
+		expect(parseInjectableDevice('10 mL in 1 VIAL, MULTI-DOSE')).toEqual({ type: 'vial', volume: 10 });
+	});
+
+	it('should return null for non-injectables', () => {
+		expect(parseInjectableDevice('30 TABLET in 1 BOTTLE')).toBeNull();
+	});
+});
+
+describe('parseStrengthConcentration', () => {
+	it('should parse per-volume strengths', () => {
+		expect(parseStrengthConcentration('250 mg/5mL')).toEqual({ amount: 250, unit: 'mg', volume: 5, volumeUnit: 'mL' });
+		expect(parseStrengthConcentration('100 mg/mL')).toEqual({ amount: 100, unit: 'mg', volume: 1, volumeUnit: 'mL' });
+	});
+
+	it('should return null for solid dose strengths', () => {
+		expect(parseStrengthConcentration('10 mg/1')).toBeNull();
+		expect(parseStrengthConcentration('100 [iU]/mL')).toBeNull();
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { loadPayerProfiles, getPayerProfile, PAYER_PROFILES } from '../../lib/core/payerProfiles';
+
+describe('Payer Profiles', () => {
+	describe('PAYER_PROFILES', () => {
+		it('should load the configured 30, 34, 90 and 102 day plans', () => {
+			expect(PAYER_PROFILES.map((profile) => profile.maxDaysSupply).sort((a, b) => a - b)).toEqual([30, 34, 90, 102]);
+		});
+	});
+
+	describe('getPayerProfile()', () => {
+		it('should find a profile by id', () => {
+			expect(getPayerProfile('medicare-102')?.maxDaysSupply).toBe(102);
+		});
+
+		it('should return undefined for an unknown id', () => {
+			expect(getPayerProfile('unknown')).toBeUndefined();
+		});
+	});
+
+	describe('loadPayerProfiles()', () => {
+		const valid = { id: 'plan', name: 'Plan', maxDaysSupply: 30, maxOverfillPercent: 0, packageRounding: 'none' };
+
+		it('should accept well-formed profiles', () => {
+			expect(loadPayerProfiles([valid])).toEqual([valid]);
+		});
+
+		it('should reject malformed profiles', () => {
+			expect(() => loadPayerProfiles({})).toThrow(/array/);
+			expect(() => loadPayerProfiles([{ ...valid, maxDaysSupply: 0 }])).toThrow(/maxDaysSupply/);
+			expect(() => loadPayerProfiles([{ ...valid, maxOverfillPercent: -1 }])).toThrow(/maxOverfillPercent/);
+			expect(() => loadPayerProfiles([{ ...valid, packageRounding: 'nearest' }])).toThrow(/packageRounding/);
+			expect(() => loadPayerProfiles([valid, valid])).toThrow(/more than once/);
+		});
+	});
+});
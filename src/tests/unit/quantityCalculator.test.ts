@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { calculate } from '../../lib/core/quantityCalculator';
+import { calculate, calculateDaysSupply } from '../../lib/core/quantityCalculator';
+import { parse } from '../../lib/core/regexSigParser';
 import { ParsedSig } from '../../lib/types/sig';
 
 describe('Quantity Calculator', () => {
@@ -32,6 +33,71 @@ describe('Quantity Calculator', () => {
 			expect(result.total).toBe(30); // 1 × 30 = 30 (assume once per day)
 			expect(result.unit).toBe('tablet');
 			expect(result.calculation.frequency).toBe(1); // Shows assumed frequency
+			expect(result.assumptions?.[0]).toContain('assuming 1 dose per day');
+		});
+
+		it('should use the stated maximum daily dose for PRN medications', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 1,
+				frequency: 0,
+				unit: 'tablet',
+				confidence: 0.8,
+				maxDailyDose: 6,
+				prnInterval: { minHours: 4, maxHours: 6 },
+			};
+
+			const result = calculate(parsedSig, 30);
+			expect(result.total).toBe(180); // 6 per day × 30
+			expect(result.calculation.frequency).toBe(6);
+			expect(result.assumptions?.[0]).toContain('stated maximum of 6 tablet per day');
+		});
+
+		it('should allow the full ranged dose up to a limit stated in doses', () => {
+			const parsedSig = parse('Take 1-2 tablets by mouth every 4-6 hours as needed, max 6 doses per day')!;
+
+			expect(calculate(parsedSig, 20).total).toBe(240); // 6 doses × 2 tablets × 20 days
+		});
+
+		it('should use the most frequent PRN interval when no maximum is stated', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 1,
+				frequency: 0,
+				unit: 'tablet',
+				confidence: 0.8,
+				prnInterval: { minHours: 4, maxHours: 6 },
+			};
+
+			const result = calculate(parsedSig, 30);
+			expect(result.total).toBe(180); // every 4 hours = 6 doses per day
+			expect(result.assumptions?.[0]).toContain('every 4 hours');
+		});
+
+		it('should let the pharmacist override PRN doses per day', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 1,
+				frequency: 0,
+				unit: 'tablet',
+				confidence: 0.8,
+				maxDailyDose: 6,
+			};
+
+			const result = calculate(parsedSig, 30, { prnDosesPerDay: 3 });
+			expect(result.total).toBe(90);
+			expect(result.assumptions?.[0]).toContain('pharmacist override');
+		});
+
+		it('should cap scheduled doses at the stated maximum daily dose', () => {
+			const parsedSig: ParsedSig = {
+				dosage: 2,
+				frequency: 6,
+				unit: 'tablet',
+				confidence: 0.9,
+				maxDailyDose: 8,
+			};
+
+			const result = calculate(parsedSig, 10);
+			expect(result.total).toBe(80);
+			expect(result.assumptions?.[0]).toContain('Capped');
 		});
 
 		it('should handle fractional dosages', () => {
@@ -210,6 +276,24 @@ describe('Quantity Calculator', () => {
 					expect(result.unit).toBe('mL');
 				});
 
+				it('should convert the dose to the concentration unit', () => {
+					const parsedSig: ParsedSig = {
+						dosage: 1,
+						frequency: 2,
+						unit: 'g',
+						confidence: 0.9,
+						dosageForm: 'liquid',
+						concentration: { amount: 250, unit: 'mg', volume: 5, volumeUnit: 'mL' },
+					};
+
+					const result = calculate(parsedSig, 10);
+					// 1 g = 1000 mg → 20 mL per dose; (20 × 2) × 10 = 400 mL
+					expect(result.total).toBe(400);
+					expect(result.unit).toBe('mL');
+					expect(result.calculation.volumePerDose).toBe(20);
+					expect(result.calculation.doseUnit).toBe('g');
+				});
+
 				it('should handle liquid without concentration (fallback)', () => {
 					const parsedSig: ParsedSig = {
 						dosage: 5,
@@ -242,6 +326,7 @@ describe('Quantity Calculator', () => {
 					// Canisters needed: ceil(120 / 200) = 1
 					expect(result.total).toBe(120);
 					expect(result.unit).toBe('actuation');
+					expect(result.dispensable).toEqual({ unit: 'inhaler', count: 1, capacity: 200, capacityUnit: 'actuation' });
 				});
 
 				it('should calculate canisters needed for large quantity', () => {
@@ -259,6 +344,21 @@ describe('Quantity Calculator', () => {
 					// Canisters needed: ceil(120 / 72) = 2
 					expect(result.total).toBe(120);
 					expect(result.unit).toBe('actuation');
+					expect(result.dispensable?.count).toBe(2);
+				});
+
+				it('should take capacity from package metadata when the SIG states none', () => {
+					const parsedSig: ParsedSig = {
+						dosage: 2,
+						frequency: 4,
+						unit: 'actuation',
+						confidence: 0.9,
+						dosageForm: 'inhaler',
+					};
+
+					const result = calculate(parsedSig, 30, { inhalerCapacity: 200 });
+					expect(result.total).toBe(240);
+					expect(result.dispensable).toEqual({ unit: 'inhaler', count: 2, capacity: 200, capacityUnit: 'actuation' });
 				});
 
 				it('should handle inhaler without capacity (fallback)', () => {
@@ -274,6 +374,7 @@ describe('Quantity Calculator', () => {
 					// Normal calculation: (2 × 2) × 30 = 120
 					expect(result.total).toBe(120);
 					expect(result.unit).toBe('actuation');
+					expect(result.dispensable).toBeUndefined();
 				});
 			});
 
@@ -292,6 +393,310 @@ describe('Quantity Calculator', () => {
 				});
 			});
 		});
+
+		describe('multi-step (tapering) SIGs', () => {
+			it('should sum quantities across phases', () => {
+				const parsedSig: ParsedSig = {
+					dosage: 2,
+					frequency: 1,
+					unit: 'tablet',
+					confidence: 0.9,
+					phases: [
+						{ dosage: 2, frequency: 1, durationDays: 3 },
+						{ dosage: 1, frequency: 1, durationDays: 4 },
+					],
+				};
+
+				const result = calculate(parsedSig, 7);
+				expect(result.total).toBe(10); // (2 × 3) + (1 × 4)
+				expect(result.calculation.phases).toHaveLength(2);
+				expect(result.calculation.remainingDays).toBe(0);
+			});
+
+			it('should report days not covered by any phase', () => {
+				const parsedSig: ParsedSig = {
+					dosage: 2,
+					frequency: 1,
+					unit: 'tablet',
+					confidence: 0.9,
+					phases: [
+						{ dosage: 2, frequency: 1, durationDays: 3 },
+						{ dosage: 1, frequency: 1, durationDays: 4 },
+					],
+				};
+
+				const result = calculate(parsedSig, 30);
+				expect(result.total).toBe(10);
+				expect(result.calculation.remainingDays).toBe(23);
+			});
+
+			it('should truncate phases at daysSupply and extend an open-ended last phase', () => {
+				const parsedSig: ParsedSig = {
+					dosage: 2,
+					frequency: 2,
+					unit: 'tablet',
+					confidence: 0.9,
+					phases: [
+						{ dosage: 2, frequency: 2, durationDays: 7 },
+						{ dosage: 1, frequency: 1 },
+					],
+				};
+
+				expect(calculate(parsedSig, 30).total).toBe(51); // (2 × 2 × 7) + (1 × 23)
+				expect(calculate(parsedSig, 5).total).toBe(20); // (2 × 2 × 5), second phase never starts
+			});
+		});
+
+		describe('dose ranges', () => {
+			const rangedSig: ParsedSig = {
+				dosage: 1.5,
+				frequency: 4,
+				unit: 'tablet',
+				confidence: 0.9,
+				dosageRange: { min: 1, max: 2 },
+			};
+
+			it('should use the max dose by default and report min/max/chosen', () => {
+				const result = calculate(rangedSig, 30);
+				expect(result.total).toBe(240); // (2 × 4) × 30
+				expect(result.calculation.dosage).toBe(2);
+				expect(result.range).toEqual({ min: 120, max: 240, chosen: 240, policy: 'max' });
+			});
+
+			it('should honor the configured range policy', () => {
+				expect(calculate(rangedSig, 30, { doseRangePolicy: 'min' }).total).toBe(120);
+				expect(calculate(rangedSig, 30, { doseRangePolicy: 'average' }).total).toBe(180);
+			});
+
+			it('should omit range for single-dose SIGs', () => {
+				const result = calculate({ ...rangedSig, dosage: 1, dosageRange: undefined }, 30);
+				expect(result.range).toBeUndefined();
+			});
+		});
+		describe('non-daily schedules', () => {
+			it('should count weekly doses inside the period', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 1 / 7,
+					unit: 'tablet',
+					confidence: 0.9,
+					schedule: { type: 'interval', intervalDays: 7 },
+				};
+				const result = calculate(sig, 30);
+				expect(result.total).toBe(5); // days 1, 8, 15, 22, 29
+				expect(result.calculation.doseCount).toBe(5);
+			});
+
+			it('should count every-other-day doses', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 0.5,
+					unit: 'tablet',
+					confidence: 0.9,
+					schedule: { type: 'interval', intervalDays: 2 },
+				};
+				expect(calculate(sig, 30).total).toBe(15);
+				expect(calculate(sig, 29).total).toBe(15);
+			});
+
+			it('should count specific weekdays using the worst-case start day', () => {
+				const sig: ParsedSig = {
+					dosage: 2,
+					frequency: 3 / 7,
+					unit: 'tablet',
+					confidence: 0.9,
+					schedule: { type: 'weekdays', weekdays: [1, 3, 5] },
+				};
+				const result = calculate(sig, 30);
+				expect(result.calculation.doseCount).toBe(13); // 12 in 4 full weeks + at most 1 in the last 2 days
+				expect(result.total).toBe(26);
+			});
+
+			it('should count on/off cycles', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 5 / 7,
+					unit: 'tablet',
+					confidence: 0.9,
+					schedule: { type: 'cycle', daysOn: 21, daysOff: 7 },
+				};
+				expect(calculate(sig, 30).total).toBe(23); // 21 + 2
+			});
+		});
+		describe('topical, ophthalmic and otic SIGs', () => {
+			it('should multiply drops by administration sites', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 2,
+					unit: 'drop',
+					confidence: 0.95,
+					dosageForm: 'ophthalmic',
+					sites: 2,
+				};
+				const result = calculate(sig, 30);
+				expect(result.total).toBe(120); // (1 × 2 eyes × 2) × 30
+				expect(result.unit).toBe('drop');
+				expect(result.calculation.dosage).toBe(2);
+			});
+
+			it('should convert topical applications to grams', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 2,
+					unit: 'application',
+					confidence: 0.95,
+					dosageForm: 'topical',
+				};
+				const result = calculate(sig, 30);
+				expect(result.total).toBe(30); // (0.5 g × 2) × 30
+				expect(result.unit).toBe('g');
+				expect(result.assumptions).toEqual(['Topical: assuming 0.5 g per application']);
+				expect(calculate(sig, 30, { gramsPerApplication: 1 }).total).toBe(60);
+			});
+		});
+		describe('transdermal patches', () => {
+			it('should round patch intervals up to whole patches', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 1 / 3,
+					unit: 'patch',
+					confidence: 0.95,
+					dosageForm: 'transdermal',
+					schedule: { type: 'interval', intervalDays: 3 },
+				};
+				expect(calculate(sig, 30).total).toBe(10);
+				expect(calculate(sig, 28).total).toBe(10); // 9.33 changes → 10 patches
+			});
+
+			it('should dispense one patch per scheduled change without float drift', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 1 / 3,
+					unit: 'patch',
+					confidence: 0.95,
+					dosageForm: 'transdermal',
+					schedule: { type: 'interval', intervalDays: 3 },
+				};
+				const result = calculate(sig, 41); // every 72 hours: days 1, 4, ..., 40
+				expect(result.calculation.doseCount).toBe(14);
+				expect(result.total).toBe(14);
+			});
+
+			it('should count twice-weekly changes', () => {
+				const sig: ParsedSig = {
+					dosage: 1,
+					frequency: 2 / 7,
+					unit: 'patch',
+					confidence: 0.95,
+					schedule: { type: 'interval', intervalDays: 3.5 },
+				};
+				expect(calculate(sig, 28).total).toBe(8);
+				expect(calculate(sig, 30).total).toBe(9);
+			});
+		});
+		describe('insulin pens and vials', () => {
+			const insulinSig: ParsedSig = {
+				dosage: 10,
+				frequency: 1,
+				unit: 'unit',
+				confidence: 0.95,
+				dosageForm: 'insulin',
+				insulinStrength: 100,
+			};
+
+			it('should add pen priming and round up to whole pens', () => {
+				const result = calculate(insulinSig, 30, { insulinDevice: { type: 'pen', volume: 3 } });
+				// (10 + 2 priming) × 30 = 360 units = 3.6 mL; a 300-unit pen lasts 25 days → 2 pens
+				expect(result.insulin).toMatchObject({ doseUnits: 300, primingUnits: 60, volume: 3.6, deviceCount: 2 });
+				expect(result.total).toBe(6);
+				expect(result.unit).toBe('mL');
+				expect(result.dispensable).toEqual({ unit: 'pen', count: 2, capacity: 3, capacityUnit: 'mL' });
+				expect(result.assumptions).toBeUndefined();
+			});
+
+			it('should honor the 28-day discard window for vials', () => {
+				const result = calculate({ ...insulinSig, dosage: 5 }, 30, { insulinDevice: { type: 'vial', volume: 10 } });
+				expect(result.insulin?.primingUnits).toBe(0);
+				expect(result.insulin?.volume).toBe(1.5);
+				expect(result.insulin?.deviceCount).toBe(2); // Opened vial is discarded after 28 days
+				expect(result.total).toBe(20);
+			});
+
+			it('should report pen counts at both ends of a sliding scale', () => {
+				const result = calculate({ ...insulinSig, dosage: 6, frequency: 3, dosageRange: { min: 2, max: 10 } }, 30, {
+					insulinDevice: { type: 'pen', volume: 3 },
+				});
+				expect(result.insulin?.deviceCount).toBe(4); // (10 + 2) × 3 × 30 = 1080 units
+				expect(result.range).toEqual({ min: 6, max: 12, chosen: 12, policy: 'max' });
+			});
+
+			it('should note the assumed device when none is known', () => {
+				const result = calculate(insulinSig, 30);
+				expect(result.insulin?.device).toEqual({ type: 'pen', volume: 3 });
+				expect(result.assumptions).toEqual(['Insulin: device not stated, assuming 3 mL pens']);
+			});
+		});
+		describe('weight-based dosing', () => {
+			const weightSig: ParsedSig = {
+				dosage: 40,
+				frequency: 2,
+				unit: 'MG',
+				confidence: 0.95,
+				dosageForm: 'liquid',
+				weightBasedDose: { amount: 40, unit: 'mg', basis: 'day' },
+				concentration: { amount: 400, unit: 'mg', volume: 5, volumeUnit: 'mL' },
+			};
+
+			it('should split a mg/kg/day dose across the day and convert to mL', () => {
+				const result = calculate(weightSig, 10, { patientWeightKg: 20 });
+				// 40 mg/kg/day × 20 kg = 800 mg/day → 400 mg per dose = 5 mL
+				expect(result.calculation.dosage).toBe(400);
+				expect(result.calculation.volumePerDose).toBe(5);
+				expect(result.total).toBe(100);
+				expect(result.unit).toBe('mL');
+				expect(result.calculation.weightBased?.exceedsMax).toBe(false);
+			});
+
+			it('should flag doses above the per-dose maximum without capping', () => {
+				const result = calculate(weightSig, 10, { patientWeightKg: 60, maxDosePerDoseMg: 875 });
+				expect(result.calculation.dosage).toBe(1200);
+				expect(result.calculation.weightBased).toMatchObject({ weightKg: 60, maxDose: 875, exceedsMax: true });
+			});
+
+			it('should require the patient weight', () => {
+				expect(() => calculate(weightSig, 10)).toThrow('patientWeightKg is required');
+			});
+		});
 	});
-});
 
+	describe('calculateDaysSupply()', () => {
+		it('should derive the days a quantity covers', () => {
+			const sig: ParsedSig = { dosage: 1, frequency: 2, unit: 'tablet', confidence: 0.95 };
+			expect(calculateDaysSupply(sig, 90)).toBe(45);
+			expect(calculateDaysSupply(sig, 91)).toBe(45);
+			expect(calculateDaysSupply(sig, 1)).toBe(0);
+		});
+
+		it('should count scheduled doses for non-daily SIGs', () => {
+			const weekly: ParsedSig = {
+				dosage: 1,
+				frequency: 1 / 7,
+				unit: 'tablet',
+				confidence: 0.95,
+				schedule: { type: 'interval', intervalDays: 7 },
+			};
+			// 4 tablets cover doses on days 1, 8, 15 and 22 → up to day 28
+			expect(calculateDaysSupply(weekly, 4)).toBe(28);
+		});
+
+		it('should cap at the maximum days supply', () => {
+			const sig: ParsedSig = { dosage: 1, frequency: 1, unit: 'tablet', confidence: 0.95 };
+			expect(calculateDaysSupply(sig, 1000)).toBe(365);
+		});
+
+		it('should reject non-positive quantities', () => {
+			const sig: ParsedSig = { dosage: 1, frequency: 1, unit: 'tablet', confidence: 0.95 };
+			expect(() => calculateDaysSupply(sig, 0)).toThrow('quantity must be a positive number');
+		});
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { RANKING_STRATEGIES, isRankingStrategyId } from '../../lib/core/rankingStrategies';
+import type { NdcSelection } from '../../lib/types/ndc';
+
+describe('Ranking Strategies', () => {
+	const selection = (overrides: Partial<NdcSelection> = {}): NdcSelection => ({
+		ndc: '00002-1234-30',
+		packageSize: 30,
+		totalQuantity: 30,
+		overfill: 0,
+		underfill: 0,
+		matchScore: 100,
+		packageDescription: '30 TABLET in 1 BOTTLE',
+		manufacturer: 'Eli Lilly and Company',
+		...overrides,
+	});
+
+	it('should leave the fill match alone when minimizing waste', () => {
+		expect(RANKING_STRATEGIES.minimize_waste.adjust(selection(), { targetQuantity: 30 })).toEqual([]);
+	});
+
+	it('should deduct points per extra package', () => {
+		const adjust = RANKING_STRATEGIES.minimize_packages.adjust;
+		expect(adjust(selection(), { targetQuantity: 30 })).toEqual([]);
+		expect(adjust(selection({ packageCount: 3, totalQuantity: 90 }), { targetQuantity: 90 })).toEqual([
+			{ label: '2 extra packages', points: -20 },
+		]);
+	});
+
+	it('should reward unit-of-use packages and penalize bulk stock', () => {
+		const adjust = RANKING_STRATEGIES.prefer_unit_of_use.adjust;
+		expect(adjust(selection({ packageDescription: '30 TABLET in 1 BLISTER PACK' }), { targetQuantity: 30 })[0].points).toBeGreaterThan(0);
+		expect(adjust(selection({ packageSize: 1000, packageDescription: '1000 TABLET in 1 BOTTLE' }), { targetQuantity: 30 })[0].points).toBeLessThan(0);
+		expect(adjust(selection(), { targetQuantity: 30 })).toEqual([]);
+	});
+
+	it('should judge unit-of-use by the innermost container, not an outer carton', () => {
+		const adjust = RANKING_STRATEGIES.prefer_unit_of_use.adjust;
+		const bulkInCarton = selection({ packageSize: 1000, packageDescription: '1 BOTTLE in 1 CARTON / 1000 TABLET in 1 BOTTLE' });
+		expect(adjust(bulkInCarton, { targetQuantity: 30 })).toEqual([{ label: 'Bulk package (repackaging needed)', points: -15 }]);
+		expect(adjust(selection({ packageDescription: '1 BOTTLE in 1 CARTON / 30 TABLET in 1 BOTTLE' }), { targetQuantity: 30 })).toEqual([]);
+		expect(adjust(selection({ packagingType: 'unit_dose', packageDescription: '100 BLISTER PACK in 1 CARTON / 1 TABLET in 1 BLISTER PACK' }), { targetQuantity: 30 })).toEqual([
+			{ label: 'Unit-of-use package', points: 15 },
+		]);
+	});
+
+	it('should match a labeler by code or manufacturer name', () => {
+		const adjust = RANKING_STRATEGIES.prefer_labeler.adjust;
+		expect(adjust(selection(), { targetQuantity: 30, labeler: '00002' })).toHaveLength(1);
+		expect(adjust(selection(), { targetQuantity: 30, labeler: '2' })).toEqual([]); // Codes are 4-5 digits
+		expect(adjust(selection(), { targetQuantity: 30, labeler: 'lilly' })).toHaveLength(1);
+		expect(adjust(selection(), { targetQuantity: 30, labeler: '12345' })).toEqual([]);
+		expect(adjust(selection(), { targetQuantity: 30 })).toEqual([]);
+	});
+
+	it('should require every NDC of a multi-NDC fill to match the labeler', () => {
+		const mixed = selection({
+			components: [
+				{ ndc: '00002-1234-30', packageSize: 30, packageCount: 1 },
+				{ ndc: '12345-6789-10', packageSize: 10, packageCount: 1 },
+			],
+		});
+		expect(RANKING_STRATEGIES.prefer_labeler.adjust(mixed, { targetQuantity: 40, labeler: '00002' })).toEqual([]);
+	});
+
+	it('should recognise strategy ids', () => {
+		expect(isRankingStrategyId('prefer_labeler')).toBe(true);
+		expect(isRankingStrategyId('toString')).toBe(false);
+		expect(isRankingStrategyId(undefined)).toBe(false);
+	});
+});
@@ -161,6 +161,32 @@ describe('Regex SIG Parser', () => {
 			expect(result?.dosage).toBe(1.5); // (1 + 2) / 2 = 1.5
 		});
 
+		it('should extract PRN interval and maximum daily dose', () => {
+			const result = parse('Take 1 tablet by mouth every 4-6 hours as needed, max 6 per day');
+			expect(result?.frequency).toBe(0);
+			expect(result?.prnInterval).toEqual({ minHours: 4, maxHours: 6 });
+			expect(result?.maxDailyDose).toBe(6);
+		});
+
+		it('should convert "not to exceed N doses" limits to SIG units and ignore mass limits', () => {
+			expect(parse('Take 2 tablets as needed, not to exceed 3 doses in 24 hours')?.maxDailyDose).toBe(6);
+			expect(parse('Take 1 tablet as needed, max 3000 mg per day')?.maxDailyDose).toBeUndefined();
+		});
+
+		it('should limit a ranged dose by its largest dose', () => {
+			const result = parse('Take 1-2 tablets by mouth every 4-6 hours as needed, max 6 doses per day');
+			expect(result?.dosageRange).toEqual({ min: 1, max: 2 });
+			expect(result?.maxDailyDose).toBe(12); // 6 doses × 2 tablets, not × the 1.5 average
+		});
+
+		it('should keep both ends of a dosage range', () => {
+			const result = parse('Take 1-2 tablets by mouth every 6 hours');
+			expect(result?.dosageRange).toEqual({ min: 1, max: 2 });
+
+			const single = parse('Take 2 tablets by mouth every 6 hours');
+			expect(single?.dosageRange).toBeUndefined();
+		});
+
 		it('should return null for invalid input', () => {
 			expect(parse('')).toBeNull();
 			expect(parse(null as any)).toBeNull();
@@ -327,6 +353,153 @@ describe('Regex SIG Parser', () => {
 				});
 			});
 		});
+
+		describe('tapering / multi-step patterns', () => {
+			it('should parse "X tablets daily for N days, then Y tablet daily for M days"', () => {
+				const result = parse('Take 2 tablets daily for 3 days, then 1 tablet daily for 4 days');
+				expect(result).not.toBeNull();
+				expect(result?.unit).toBe('tablet');
+				expect(result?.dosage).toBe(2); // Mirrors first phase
+				expect(result?.phases).toEqual([
+					{ dosage: 2, frequency: 1, durationDays: 3 },
+					{ dosage: 1, frequency: 1, durationDays: 4 },
+				]);
+			});
+
+			it('should reuse the first phase unit when a later phase omits it', () => {
+				const result = parse('Take 2 tablets twice daily for 1 week, then 1 daily');
+				expect(result?.phases).toEqual([
+					{ dosage: 2, frequency: 2, durationDays: 7 },
+					{ dosage: 1, frequency: 1, durationDays: undefined },
+				]);
+			});
+
+			it('should fall back to single-phase parsing when an intermediate duration is missing', () => {
+				const result = parse('Take 2 tablets daily then 1 tablet daily for 4 days');
+				expect(result).not.toBeNull();
+				expect(result?.phases).toBeUndefined();
+			});
+		});
+		describe('non-daily schedules', () => {
+			it('should parse weekly dosing', () => {
+				const result = parse('Take 1 tablet by mouth once weekly');
+				expect(result?.dosage).toBe(1);
+				expect(result?.frequency).toBeCloseTo(1 / 7);
+				expect(result?.schedule).toEqual({ type: 'interval', intervalDays: 7 });
+			});
+
+			it('should parse every other day dosing', () => {
+				const result = parse('Take 1 tablet every other day');
+				expect(result?.frequency).toBe(0.5);
+				expect(result?.schedule).toEqual({ type: 'interval', intervalDays: 2 });
+			});
+
+			it('should parse specific weekdays', () => {
+				const result = parse('Take 1 tablet on Mondays, Wednesdays and Fridays');
+				expect(result?.frequency).toBeCloseTo(3 / 7);
+				expect(result?.schedule).toEqual({ type: 'weekdays', weekdays: [1, 3, 5] });
+			});
+
+			it('should parse on/off cycles', () => {
+				const result = parse('Take 1 capsule daily 21 days on 7 days off');
+				expect(result?.frequency).toBeCloseTo(21 / 28);
+				expect(result?.schedule).toEqual({ type: 'cycle', daysOn: 21, daysOff: 7 });
+			});
+
+			it('should not attach a schedule to daily SIGs', () => {
+				expect(parse('Take 1 tablet by mouth twice daily')?.schedule).toBeUndefined();
+			});
+		});
+		describe('topical, ophthalmic and otic patterns', () => {
+			it('should parse eye drops in each eye', () => {
+				const result = parse('Instill 1 drop in each eye BID');
+				expect(result?.dosage).toBe(1);
+				expect(result?.unit).toBe('drop');
+				expect(result?.frequency).toBe(2);
+				expect(result?.sites).toBe(2);
+				expect(result?.dosageForm).toBe('ophthalmic');
+			});
+
+			it('should parse ear drops in both ears', () => {
+				const result = parse('Place 4 drops in both ears three times daily');
+				expect(result?.dosage).toBe(4);
+				expect(result?.frequency).toBe(3);
+				expect(result?.sites).toBe(2);
+				expect(result?.dosageForm).toBe('otic');
+			});
+
+			it('should parse a single-site drop without a multiplier', () => {
+				const result = parse('1 drop in the right eye daily');
+				expect(result?.sites).toBeUndefined();
+				expect(result?.dosageForm).toBe('ophthalmic');
+			});
+
+			it('should parse "apply a thin layer" as one application', () => {
+				const result = parse('Apply a thin layer to affected area twice daily');
+				expect(result?.dosage).toBe(1);
+				expect(result?.unit).toBe('application');
+				expect(result?.frequency).toBe(2);
+				expect(result?.dosageForm).toBe('topical');
+			});
+
+			it('should parse topical amounts in grams', () => {
+				const result = parse('Apply 2 g to affected joints four times daily');
+				expect(result?.dosage).toBe(2);
+				expect(result?.unit).toBe('g');
+				expect(result?.frequency).toBe(4);
+			});
+		});
+		describe('transdermal patch patterns', () => {
+			it('should parse "every 72 hours" as a 3-day interval', () => {
+				const result = parse('Apply 1 patch every 72 hours');
+				expect(result?.dosage).toBe(1);
+				expect(result?.unit).toBe('patch');
+				expect(result?.dosageForm).toBe('transdermal');
+				expect(result?.frequency).toBeCloseTo(1 / 3);
+				expect(result?.schedule).toEqual({ type: 'interval', intervalDays: 3 });
+			});
+
+			it('should parse "change patch twice weekly" without a stated dose', () => {
+				const result = parse('Change patch twice weekly');
+				expect(result?.dosage).toBe(1);
+				expect(result?.unit).toBe('patch');
+				expect(result?.schedule).toEqual({ type: 'interval', intervalDays: 3.5 });
+			});
+
+			it('should keep sub-daily hour intervals as doses per day', () => {
+				const result = parse('Take 1 tablet every 8 hours');
+				expect(result?.frequency).toBe(3);
+				expect(result?.schedule).toBeUndefined();
+			});
+		});
+		describe('insulin sliding scale and devices', () => {
+			it('should parse a sliding-scale range before meals', () => {
+				const result = parse('Inject 2-10 units subcutaneously before meals per sliding scale');
+				expect(result?.dosageForm).toBe('insulin');
+				expect(result?.dosageRange).toEqual({ min: 2, max: 10 });
+				expect(result?.frequency).toBe(3);
+			});
+
+			it('should detect the insulin pen from the SIG', () => {
+				const result = parse('Inject 10 units subcutaneously at bedtime using FlexPen');
+				expect(result?.insulinDevice).toBe('pen');
+				expect(parse('Inject 10 units subcutaneously daily from vial')?.insulinDevice).toBe('vial');
+			});
+		});
+		describe('weight-based dosing', () => {
+			it('should parse a per-dose mg/kg SIG', () => {
+				const result = parse('Give 15 mg/kg by mouth every 8 hours');
+				expect(result?.dosage).toBe(15);
+				expect(result?.frequency).toBe(3);
+				expect(result?.weightBasedDose).toEqual({ amount: 15, unit: 'mg', basis: 'dose' });
+			});
+
+			it('should parse a per-day mg/kg SIG divided into doses', () => {
+				const result = parse('40 mg/kg/day divided BID');
+				expect(result?.frequency).toBe(2);
+				expect(result?.weightBasedDose).toEqual({ amount: 40, unit: 'mg', basis: 'day' });
+				expect(parse('90 mg/kg/day divided into 2 doses')?.frequency).toBe(2);
+			});
+		});
 	});
 });
-
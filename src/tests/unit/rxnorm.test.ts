@@ -0,0 +1,87 @@
+/**
+ * Unit tests for RxNorm property and equivalent-product lookups
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getDrugName, getTermType, getEquivalentProducts, productTypeForTermType } from '../../lib/services/rxnorm';
+import { cache } from '../../lib/services/cache';
+
+describe('RxNorm Service', () => {
+	const respond = (body: unknown) =>
+		vi.mocked(fetch).mockResolvedValue({ ok: true, status: 200, json: async () => body } as Response);
+
+	beforeEach(() => {
+		vi.stubGlobal('fetch', vi.fn());
+		cache.clear();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe('getDrugName() and getTermType()', () => {
+		it('should share one properties lookup', async () => {
+			respond({ properties: { rxcui: '617314', name: 'Lipitor 10 MG Oral Tablet', tty: 'SBD' } });
+
+			expect(await getDrugName('617314')).toBe('Lipitor 10 MG Oral Tablet');
+			expect(await getTermType('617314')).toBe('SBD');
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(vi.mocked(fetch).mock.calls[0][0]).toContain('/rxcui/617314/properties.json');
+		});
+
+		it('should return null for an unknown RxCUI', async () => {
+			respond({});
+
+			expect(await getDrugName('0')).toBeNull();
+			expect(await getTermType('0')).toBeNull();
+		});
+	});
+
+	describe('getEquivalentProducts()', () => {
+		it('should list SCD and SBD concepts other than the RxCUI itself', async () => {
+			respond({
+				relatedGroup: {
+					conceptGroup: [
+						{
+							tty: 'SCD',
+							conceptProperties: [{ rxcui: '617310', name: 'atorvastatin 10 MG Oral Tablet', tty: 'SCD' }],
+						},
+						{
+							tty: 'SBD',
+							conceptProperties: [
+								{ rxcui: '617314', name: 'Lipitor 10 MG Oral Tablet', tty: 'SBD' },
+								{ rxcui: '617318', name: 'Lipitor 20 MG Oral Tablet' },
+								{ rxcui: '617310', name: 'atorvastatin 10 MG Oral Tablet', tty: 'SCD' },
+							],
+						},
+						{ tty: 'BN', conceptProperties: [{ rxcui: '153165', name: 'Lipitor', tty: 'BN' }] },
+						{ tty: 'SBD' },
+					],
+				},
+			});
+
+			const products = await getEquivalentProducts('617314');
+
+			expect(vi.mocked(fetch).mock.calls[0][0]).toContain('/rxcui/617314/related.json?tty=SCD+SBD');
+			expect(products).toEqual([
+				{ rxcui: '617310', name: 'atorvastatin 10 MG Oral Tablet', tty: 'SCD' },
+				{ rxcui: '617318', name: 'Lipitor 20 MG Oral Tablet', tty: 'SBD' },
+			]);
+		});
+
+		it('should return an empty list without related concepts', async () => {
+			respond({ relatedGroup: { rxcui: '1' } });
+
+			expect(await getEquivalentProducts('1')).toEqual([]);
+		});
+	});
+
+	describe('productTypeForTermType()', () => {
+		it('should classify branded and generic term types', () => {
+			expect(productTypeForTermType('SBD')).toBe('brand');
+			expect(productTypeForTermType('SCD')).toBe('generic');
+			expect(productTypeForTermType('IN')).toBeNull();
+			expect(productTypeForTermType(null)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+	parseStrength,
+	formatStrength,
+	isSameStrength,
+	findStrengthSubstitutes,
+	matchStrength,
+	describeStrengthSubstitutes,
+} from '../../lib/core/strengthMatcher';
+import type { DrugStrength, NdcInfo } from '../../lib/types/ndc';
+
+describe('Strength Matcher', () => {
+	const strength = (text: string): DrugStrength => parseStrength(text)!;
+	const createNdcInfo = (ndc: string, strength?: string): NdcInfo => ({
+		ndc,
+		packageSize: 30,
+		packageDescription: '30 TABLET in 1 BOTTLE',
+		manufacturer: 'Test Manufacturer',
+		dosageForm: 'TABLET',
+		active: true,
+		...(strength && { strength }),
+	});
+
+	describe('parseStrength()', () => {
+		it('should read FDA, RxNorm and drug-name strengths', () => {
+			expect(parseStrength('10 mg/1')).toEqual({ amount: 10, unit: 'mg' });
+			expect(parseStrength('250 mg/5mL')).toEqual({ amount: 250, unit: 'mg', volume: 5, volumeUnit: 'mL' });
+			expect(parseStrength('50 MG/ML')).toEqual({ amount: 50, unit: 'mg', volume: 1, volumeUnit: 'mL' });
+			expect(parseStrength('atorvastatin 40 MG Oral Tablet [Lipitor]')).toEqual({ amount: 40, unit: 'mg' });
+			expect(parseStrength('amoxicillin 250 MG in 5 mL Oral Suspension')).toMatchObject({ volume: 5, volumeUnit: 'mL' });
+		});
+
+		it('should return null without a single mass strength', () => {
+			expect(parseStrength('lisinopril')).toBeNull();
+			expect(parseStrength('amlodipine 5 MG / benazepril 10 MG')).toBeNull();
+			expect(parseStrength('100 [iU]/mL')).toBeNull();
+			expect(parseStrength(undefined)).toBeNull();
+		});
+	});
+
+	describe('formatStrength()', () => {
+		it('should format parsed strengths and pass unreadable text through', () => {
+			expect(formatStrength('10 mg/1')).toBe('10 mg');
+			expect(formatStrength('250 mg/5mL')).toBe('250 mg/5 mL');
+			expect(formatStrength(strength('100 mg/mL'))).toBe('100 mg/mL');
+			expect(formatStrength(' 100 [iU]/mL ')).toBe('100 [iU]/mL');
+		});
+	});
+
+	describe('isSameStrength()', () => {
+		it('should compare across units and volumes', () => {
+			expect(isSameStrength(strength('10 mg'), strength('10000 mcg'))).toBe(true);
+			expect(isSameStrength(strength('250 mg/5 mL'), strength('50 MG/ML'))).toBe(true);
+			expect(isSameStrength(strength('10 mg'), strength('20 mg'))).toBe(false);
+			expect(isSameStrength(strength('10 mg'), strength('10 mg/mL'))).toBe(false);
+		});
+	});
+
+	describe('findStrengthSubstitutes()', () => {
+		it('should list lower strengths that make up the dose, fewest units first', () => {
+			const available = ['10 mg/1', '15 mg/1', '20 mg/1', '20 mg', '80 mg/1'].map(strength);
+
+			const substitutes = findStrengthSubstitutes(strength('40 mg'), available);
+			expect(substitutes.map(({ strength, unitsPerDose }) => [formatStrength(strength), unitsPerDose])).toEqual([
+				['20 mg', 2],
+				['10 mg', 4],
+			]);
+		});
+
+		it('should not substitute for per-volume strengths or beyond the unit limit', () => {
+			expect(findStrengthSubstitutes(strength('100 mg/5 mL'), [strength('50 mg/5 mL')])).toEqual([]);
+			expect(findStrengthSubstitutes(strength('50 mg'), [strength('10 mg')])).toEqual([]);
+		});
+	});
+
+	describe('matchStrength()', () => {
+		it('should keep the prescribed strength and packages of unknown strength', () => {
+			const ndcs = [createNdcInfo('1', '10 mg'), createNdcInfo('2', '40 mg'), createNdcInfo('3')];
+
+			const match = matchStrength(ndcs, strength('10 mg'), 'tablet');
+			expect(match?.ndcs.map((ndc) => ndc.ndc)).toEqual(['1', '3']);
+			expect(match).toMatchObject({ unitsPerDose: 1, substitutes: [] });
+		});
+
+		it('should keep everything when no package strength is known', () => {
+			const ndcs = [createNdcInfo('1'), createNdcInfo('2')];
+
+			expect(matchStrength(ndcs, strength('10 mg'), 'tablet')?.ndcs).toEqual(ndcs);
+		});
+
+		it('should fall back to the lower strength that makes up the dose', () => {
+			const ndcs = [createNdcInfo('1', '10 mg'), createNdcInfo('2', '20 mg'), createNdcInfo('3', '30 mg')];
+
+			const match = matchStrength(ndcs, strength('40 mg'), 'tablet');
+			expect(match?.ndcs.map((ndc) => ndc.ndc)).toEqual(['2']);
+			expect(match?.unitsPerDose).toBe(2);
+			expect(match?.substitutes).toHaveLength(2);
+		});
+
+		it('should return null when neither the strength nor a substitute is available', () => {
+			const ndcs = [createNdcInfo('1', '15 mg'), createNdcInfo('2', '10 mg')];
+
+			expect(matchStrength(ndcs, strength('25 mg'), 'tablet')).toBeNull();
+			expect(matchStrength(ndcs, strength('20 mg'), 'mL')).toBeNull(); // Only tablets and capsules substitute
+		});
+	});
+
+	describe('describeStrengthSubstitutes()', () => {
+		it('should scale the quantity and label each substitute', () => {
+			const described = describeStrengthSubstitutes([{ strength: strength('10 mg'), unitsPerDose: 2 }], 30, 'tablet');
+
+			expect(described).toEqual([{ strength: '10 mg', unitsPerDose: 2, quantity: 60, unit: 'tablet', label: '2 × 10 mg tablets' }]);
+		});
+	});
+});
@@ -2,7 +2,12 @@ import { describe, it, expect } from 'vitest';
 import {
 	convertLiquidVolume,
 	convertInsulinUnitsToVolume,
+	convertDropsToVolume,
+	convertVolumeToDrops,
+	convertDoseMass,
+	convertWeightToKg,
 	normalizeUnitForMatching,
+	pluralizeUnit,
 } from '$lib/utils/unitConverter';
 
 describe('unitConverter', () => {
@@ -142,6 +147,66 @@ describe('unitConverter', () => {
 			const result = normalizeUnitForMatching('', 'tablet');
 			expect(result).toEqual({ canMatch: false, conversionNeeded: false });
 		});
+		it('should match drops with liquid volumes via conversion', () => {
+			expect(normalizeUnitForMatching('drop', 'mL')).toEqual({ canMatch: true, conversionNeeded: true });
+			expect(normalizeUnitForMatching('DROP', 'drop')).toEqual({ canMatch: true, conversionNeeded: false });
+		});
+
+		it('should match gram variations', () => {
+			expect(normalizeUnitForMatching('G', 'gram')).toEqual({ canMatch: true, conversionNeeded: false });
+		});
+	});
+
+	describe('drop conversions', () => {
+		it('should convert drops to mL at 20 drops/mL by default', () => {
+			expect(convertDropsToVolume(100)).toEqual({ converted: 5, unit: 'mL', original: 100, originalUnit: 'drop' });
+		});
+
+		it('should honor a custom drops-per-mL', () => {
+			expect(convertDropsToVolume(60, 15).converted).toBe(4);
+			expect(convertVolumeToDrops(5, 15).converted).toBe(75);
+		});
+
+		it('should convert between drops and liquid volumes', () => {
+			expect(convertLiquidVolume(60, 'drop', 'mL')?.converted).toBe(3);
+			expect(convertLiquidVolume(5, 'mL', 'drops')?.converted).toBe(100);
+		});
+
+		it('should throw for an invalid drops-per-mL', () => {
+			expect(() => convertDropsToVolume(10, 0)).toThrow('Invalid drops per mL');
+		});
 	});
-});
 
+	describe('convertDoseMass', () => {
+		it('should convert between mcg, mg and g', () => {
+			expect(convertDoseMass(1, 'g', 'mg')).toEqual({ converted: 1000, unit: 'mg', original: 1, originalUnit: 'g' });
+			expect(convertDoseMass(125, 'MCG', 'mg')?.converted).toBe(0.125);
+		});
+
+		it('should return null for non-mass units', () => {
+			expect(convertDoseMass(5, 'mL', 'mg')).toBeNull();
+		});
+	describe('convertWeightToKg', () => {
+		it('should convert pounds to kilograms', () => {
+			expect(convertWeightToKg({ value: 44, unit: 'lb' })).toBe(19.96);
+			expect(convertWeightToKg({ value: 20, unit: 'kg' })).toBe(20);
+		});
+	});
+
+	describe('pluralizeUnit', () => {
+		it('should pluralize countable units other than a count of one', () => {
+			expect(pluralizeUnit('tablet', 2)).toBe('tablets');
+			expect(pluralizeUnit('tablet', 1)).toBe('tablet');
+			expect(pluralizeUnit('patch', 3)).toBe('patches');
+			expect(pluralizeUnit('actuation', 0)).toBe('actuations');
+		});
+
+		it('should leave volumes and masses as they are', () => {
+			expect(pluralizeUnit('mL', 60)).toBe('mL');
+			expect(pluralizeUnit('L', 2)).toBe('L');
+			expect(pluralizeUnit('g', 30)).toBe('g');
+			expect(pluralizeUnit('mg', 500)).toBe('mg');
+		});
+	});
+	});
+});
@@ -1,8 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { generateWarnings } from '../../lib/core/warningGenerator';
+import {
+	generateWarnings,
+	generateQuantityWarnings,
+	generateQuantityMismatchWarnings,
+	generateStrengthSubstitutionWarnings,
+	generateStrengthUnmatchedWarnings,
+} from '../../lib/core/warningGenerator';
 import { NdcSelection } from '../../lib/types/ndc';
 import { ParsedSig } from '../../lib/types/sig';
 import { NdcInfo } from '../../lib/types/ndc';
+import type { PayerProfile } from '../../lib/types/payer';
 
 describe('Warning Generator', () => {
 	const createNdcInfo = (
@@ -188,5 +195,153 @@ describe('Warning Generator', () => {
 			}
 		});
 	});
-});
 
+	describe('generateWarnings() with a payer profile', () => {
+		const payer: PayerProfile = {
+			id: 'medicaid-34',
+			name: 'Medicaid (34 days)',
+			maxDaysSupply: 34,
+			maxOverfillPercent: 0,
+			packageRounding: 'down',
+		};
+
+		it('should flag a days supply over the payer maximum', () => {
+			const warnings = generateWarnings(createSelection('12345-678-90', 90, 0, 0, 3), 90, createParsedSig(), createNdcInfo('12345-678-90'), payer, 90);
+			const payerWarning = warnings.find((w) => w.payerViolation?.rule === 'max_days_supply');
+
+			expect(payerWarning).toMatchObject({ type: 'payer_limit', severity: 'error' });
+			expect(payerWarning?.payerViolation).toEqual({ profileId: 'medicaid-34', rule: 'max_days_supply', limit: 34, actual: 90 });
+		});
+
+		it('should flag overfill when the payer rounds down to whole packages', () => {
+			const warnings = generateWarnings(createSelection('12345-678-90', 30, 2), 28, createParsedSig(), createNdcInfo('12345-678-90'), payer, 14);
+
+			expect(warnings.find((w) => w.payerViolation?.rule === 'package_rounding')).toBeDefined();
+		});
+
+		it('should explain a round-down shortfall instead of an underfill warning', () => {
+			const warnings = generateWarnings(createSelection('12345-678-90', 30, 0, 10), 40, createParsedSig(), createNdcInfo('12345-678-90'), payer, 20);
+
+			expect(warnings.find((w) => w.type === 'underfill')).toBeUndefined();
+			expect(warnings.find((w) => w.type === 'payer_limit' && w.severity === 'info')?.message).toContain('about 15 days');
+		});
+
+		it('should flag overfill beyond the allowance', () => {
+			const commercial: PayerProfile = { ...payer, id: 'commercial-30', packageRounding: 'none', maxOverfillPercent: 10 };
+			const warnings = generateWarnings(createSelection('12345-678-90', 60, 20), 40, createParsedSig(), createNdcInfo('12345-678-90'), commercial, 20);
+
+			expect(warnings.find((w) => w.payerViolation?.rule === 'max_overfill')?.payerViolation).toMatchObject({ limit: 10, actual: 50 });
+		});
+	});
+
+	describe('generateQuantityWarnings()', () => {
+		it('should warn when a multi-step schedule does not cover the days supply', () => {
+			const warnings = generateQuantityWarnings({
+				total: 10,
+				unit: 'tablet',
+				calculation: {
+					dosage: 2,
+					frequency: 1,
+					daysSupply: 30,
+					phases: [
+						{ dosage: 2, frequency: 1, days: 3, quantity: 6 },
+						{ dosage: 1, frequency: 1, days: 4, quantity: 4 },
+					],
+					remainingDays: 23,
+				},
+			});
+
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0].message).toContain('covers 7 of 30 days');
+		});
+
+		it('should not warn for single-phase quantities', () => {
+			const warnings = generateQuantityWarnings({
+				total: 60,
+				unit: 'tablet',
+				calculation: { dosage: 1, frequency: 2, daysSupply: 30 },
+			});
+
+			expect(warnings).toHaveLength(0);
+		});
+		it('should warn when a weight-based dose exceeds the per-dose maximum', () => {
+			const warnings = generateQuantityWarnings({
+				total: 300,
+				unit: 'mL',
+				calculation: {
+					dosage: 1200,
+					frequency: 2,
+					daysSupply: 10,
+					weightBased: { amount: 40, unit: 'mg', basis: 'day', weightKg: 60, maxDose: 1000, exceedsMax: true },
+				},
+			});
+
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0].type).toBe('max_dose_exceeded');
+			expect(warnings[0].message).toContain('1200 mg');
+		});
+	});
+
+	describe('generateQuantityMismatchWarnings()', () => {
+		it('should return a structured quantity_mismatch warning', () => {
+			const discrepancy = { prescribedQuantity: 90, calculatedQuantity: 60, unit: 'tablet', daysSupply: 30, impliedDaysSupply: 45 };
+			const warnings = generateQuantityMismatchWarnings(discrepancy);
+
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0].type).toBe('quantity_mismatch');
+			expect(warnings[0].severity).toBe('warning');
+			expect(warnings[0].discrepancy).toEqual(discrepancy);
+			expect(warnings[0].message).toContain('covers 45 days, more than the 30-day supply');
+		});
+
+		it('should not warn within the tolerance', () => {
+			expect(
+				generateQuantityMismatchWarnings({ prescribedQuantity: 30, calculatedQuantity: 30, unit: 'tablet', daysSupply: 30, impliedDaysSupply: 30 })
+			).toEqual([]);
+			expect(
+				generateQuantityMismatchWarnings(
+					{ prescribedQuantity: 28, calculatedQuantity: 30, unit: 'tablet', daysSupply: 30, impliedDaysSupply: 28 },
+					0.1
+				)
+			).toEqual([]);
+		});
+	});
+
+	describe('generateStrengthSubstitutionWarnings()', () => {
+		it('should name the dispensed substitute and the other options', () => {
+			const substitutes = [
+				{ strength: '20 mg', unitsPerDose: 2, quantity: 60, unit: 'tablet', label: '2 × 20 mg tablets' },
+				{ strength: '10 mg', unitsPerDose: 4, quantity: 120, unit: 'tablet', label: '4 × 10 mg tablets' },
+			];
+			const warnings = generateStrengthSubstitutionWarnings('40 mg', substitutes);
+
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0]).toMatchObject({ type: 'strength_substitution', severity: 'warning', strengthSubstitutes: substitutes });
+			expect(warnings[0].message).toContain('40 mg is not available. Each dose is 2 × 20 mg tablets (60 tablets in total)');
+			expect(warnings[0].message).toContain('Other options: 4 × 10 mg tablets (120 tablets)');
+		});
+
+		it('should not warn when the strength is available', () => {
+			expect(generateStrengthSubstitutionWarnings('40 mg', [])).toEqual([]);
+		});
+
+		it('should not pluralize volumes or a single unit', () => {
+			const [warning] = generateStrengthSubstitutionWarnings('500 mg', [
+				{ strength: '250 mg', unitsPerDose: 2, quantity: 1, unit: 'tablet', label: '2 × 250 mg tablets' },
+				{ strength: '125 mg', unitsPerDose: 4, quantity: 20, unit: 'mL', label: '4 × 125 mg mL' },
+			]);
+
+			expect(warning.message).toContain('(1 tablet in total)');
+			expect(warning.message).toContain('(20 mL)');
+		});
+	});
+
+	describe('generateStrengthUnmatchedWarnings()', () => {
+		it('should name the unmatched strength and the strengths found', () => {
+			const [warning] = generateStrengthUnmatchedWarnings('40 mg', ['15 mg', '25 mg']);
+
+			expect(warning).toMatchObject({ type: 'strength_unmatched', severity: 'warning' });
+			expect(warning.message).toContain('No 40 mg packages found for this drug (available: 15 mg, 25 mg)');
+		});
+	});
+});
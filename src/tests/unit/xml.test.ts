@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { parseXml, findElement, findElements, elementText } from '../../lib/utils/xml';
+
+describe('XML Reader', () => {
+	it('should build an element tree with prefixes stripped', () => {
+		const root = parseXml('<?xml version="1.0"?><ns:a xmlns:ns="urn:x"><ns:b id="1">hi</ns:b><ns:b id="2"/></ns:a>');
+		expect(root?.name).toBe('a');
+		expect(findElements(root, 'b').map((b) => b.attributes.id)).toEqual(['1', '2']);
+		expect(elementText(root, 'b')).toBe('hi');
+	});
+
+	it('should decode entities, CDATA and skip comments', () => {
+		const root = parseXml('<a><!-- note --><b>Take 1 &amp; repeat &#x3C;2&#62;</b><c><![CDATA[x < y]]></c></a>');
+		expect(elementText(root, 'b')).toBe('Take 1 & repeat <2>');
+		expect(elementText(root, 'c')).toBe('x < y');
+	});
+
+	it('should follow a path and return null for missing steps', () => {
+		const root = parseXml('<a><b><c>1</c></b></a>');
+		expect(findElement(root, 'b', 'c')?.text).toBe('1');
+		expect(findElement(root, 'b', 'd')).toBeNull();
+		expect(elementText(root, 'x')).toBeUndefined();
+	});
+
+	it('should reject malformed documents', () => {
+		expect(parseXml('<a><b></a>')).toBeNull();
+		expect(parseXml('<a>')).toBeNull();
+		expect(parseXml('<a/><b/>')).toBeNull();
+		expect(parseXml('')).toBeNull();
+	});
+});